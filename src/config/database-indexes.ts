@@ -87,6 +87,12 @@ export async function createDatabaseIndexes(): Promise<void> {
       status: 1,
     });
     await createIndexSafe(Booking.collection, { createdAt: -1 });
+    // Overdue / upcoming return lookups (ISSUED bookings by due date)
+    await createIndexSafe(Booking.collection, {
+      orgId: 1,
+      status: 1,
+      toDateTime: 1,
+    });
     // Compound index for conflict checking (more specific than schema index)
     await createIndexSafe(Booking.collection, {
       orgId: 1,
@@ -95,6 +101,12 @@ export async function createDatabaseIndexes(): Promise<void> {
       fromDateTime: 1,
       toDateTime: 1,
     });
+    // Shift totals (payments recorded by a staff member in a time window)
+    await createIndexSafe(Booking.collection, {
+      orgId: 1,
+      "payments.collectedBy": 1,
+      "payments.at": 1,
+    });
 
     // Category indexes
     await createIndexSafe(Category.collection, { orgId: 1, isActive: 1 });
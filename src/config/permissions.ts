@@ -0,0 +1,67 @@
+export type UserRole = "admin" | "staff";
+
+export const PERMISSIONS = [
+  "products:read",
+  "products:write",
+  "products:delete",
+  "products:reorder",
+  "categories:read",
+  "categories:write",
+  "categories:delete",
+  "customers:read",
+  "customers:write",
+  "orders:read",
+  "orders:write",
+  "orders:cancel",
+  "bookings:read",
+  "bookings:write",
+  "bookings:issue",
+  "bookings:return",
+  "bookings:cancel",
+  "payments:collect",
+  "payments:refund",
+  "shifts:operate",
+  "shifts:report",
+  "reports:tax",
+  "dashboard:view",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Staff permissions used until an organization configures its own matrix
+ * Admins always hold every permission
+ */
+export const DEFAULT_STAFF_PERMISSIONS: Permission[] = [
+  "products:read",
+  "products:write",
+  "categories:read",
+  "customers:read",
+  "customers:write",
+  "orders:read",
+  "orders:write",
+  "bookings:read",
+  "bookings:write",
+  "bookings:issue",
+  "bookings:return",
+  "bookings:cancel",
+  "payments:collect",
+  "shifts:operate",
+  "dashboard:view",
+];
+
+/**
+ * Resolve the permissions held by a role given the org's staff matrix
+ */
+export function getRolePermissions(
+  role: string,
+  staffPermissions?: Permission[] | null
+): Permission[] {
+  if (role === "admin") {
+    return [...PERMISSIONS];
+  }
+  if (role === "staff") {
+    return staffPermissions ?? DEFAULT_STAFF_PERMISSIONS;
+  }
+  return [];
+}
@@ -35,4 +35,111 @@ export class AuthController {
       res.status(500).json({ message: "Internal server error" });
     }
   }
+
+  async changePassword(req: AuthRequest, res: Response) {
+    try {
+      const userId = req.user!.userId;
+      const { currentPassword, newPassword } = req.body;
+
+      await authService.changePassword(
+        userId,
+        currentPassword,
+        newPassword,
+        req.user!.sid
+      );
+      res.json({ message: "Password changed successfully" });
+    } catch (error: any) {
+      if (error.message === "User not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (
+        error.message === "Current password is incorrect" ||
+        error.message === "New password must be different from current password"
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("Change password error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async acceptInvite(req: Request, res: Response) {
+    try {
+      const { token, password } = req.body;
+
+      const user = await authService.acceptInvite(token, password);
+      res.json({ message: "Invite accepted", user });
+    } catch (error: any) {
+      if (error.message === "Invalid or expired invite") {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("Accept invite error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async refresh(req: Request, res: Response) {
+    try {
+      const { refreshToken } = req.body;
+
+      const tokens = await authService.refreshSession(req, refreshToken);
+      res.json(tokens);
+    } catch (error: any) {
+      if (error.message === "Invalid refresh token") {
+        return res.status(401).json({ message: error.message });
+      }
+      logError("Refresh token error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async logout(req: AuthRequest, res: Response) {
+    try {
+      const { refreshToken } = req.body;
+
+      await authService.logout(req.user!.userId, req.user!.sid, refreshToken);
+      res.json({ message: "Logged out" });
+    } catch (error) {
+      logError("Logout error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async logoutAll(req: AuthRequest, res: Response) {
+    try {
+      await authService.revokeAllSessions(req.user!.userId);
+      res.json({ message: "Logged out of all sessions" });
+    } catch (error) {
+      logError("Logout all error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async listSessions(req: AuthRequest, res: Response) {
+    try {
+      const sessions = await authService.listSessions(
+        req.user!.userId,
+        req.user!.sid
+      );
+      res.json(sessions);
+    } catch (error) {
+      logError("List sessions error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async revokeSession(req: AuthRequest, res: Response) {
+    try {
+      const { sessionId } = req.params;
+
+      await authService.revokeSession(req.user!.userId, sessionId);
+      res.json({ message: "Session revoked" });
+    } catch (error: any) {
+      if (error.message === "Session not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Revoke session error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
 }
@@ -0,0 +1,141 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { BookingRequestService } from "../services/booking-request.service";
+import { BookingService } from "../services/booking.service";
+import { BookingRequestStatus } from "../models/BookingRequest";
+import { logError } from "../utils/logger";
+
+const bookingRequestService = new BookingRequestService();
+const bookingService = new BookingService();
+
+export class BookingRequestController {
+  async listRequests(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const status = req.query.status as BookingRequestStatus | undefined;
+      const page = req.query.page
+        ? parseInt(req.query.page as string, 10)
+        : undefined;
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string, 10)
+        : undefined;
+
+      const result = await bookingRequestService.listRequests({
+        orgId,
+        status,
+        page,
+        limit,
+      });
+      res.json(result);
+    } catch (error) {
+      logError("List booking requests error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getRequest(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const request = await bookingRequestService.getRequestById(id, orgId);
+      res.json(request);
+    } catch (error: any) {
+      if (error.message === "Booking request not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get booking request error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async acceptRequest(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const {
+        decidedRent,
+        advanceAmount,
+        advanceMethod,
+        advanceReference,
+        overrideConflicts,
+      } = req.body;
+
+      const result = await bookingRequestService.acceptRequest(id, orgId, {
+        decidedBy: req.user!.userId,
+        decidedRent,
+        advanceAmount,
+        advanceMethod,
+        advanceReference,
+        overrideConflicts,
+      });
+      res.json(result);
+    } catch (error: any) {
+      if (error.message === "Booking request not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (
+        error.message === "Booking request has already been decided" ||
+        error.message === "Product not found" ||
+        error.message === "Product not found for this org"
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message === "CONFLICT") {
+        // Get conflicts for response
+        try {
+          const orgId = req.user!.orgId;
+          const request = await bookingRequestService.getRequestById(
+            req.params.id,
+            orgId
+          );
+          const result = await bookingService.checkConflicts({
+            orgId,
+            productId: String((request.productId as any)?._id),
+            fromDateTime: request.fromDateTime,
+            toDateTime: request.toDateTime,
+          });
+          return res.status(409).json({
+            message: "Conflicting bookings found",
+            ...result,
+          });
+        } catch (conflictError) {
+          return res.status(409).json({
+            message: "Conflicting bookings found",
+            conflicts: [],
+            bufferConflicts: [],
+            maintenanceConflicts: [],
+            alternatives: [],
+          });
+        }
+      }
+      logError("Accept booking request error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async rejectRequest(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { reason } = req.body;
+
+      const request = await bookingRequestService.rejectRequest(
+        id,
+        orgId,
+        req.user!.userId,
+        reason
+      );
+      res.json(request);
+    } catch (error: any) {
+      if (error.message === "Booking request not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "Booking request has already been decided") {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("Reject booking request error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+}
@@ -1,7 +1,9 @@
 import { Response } from "express";
 import { AuthRequest } from "../middleware/auth";
 import { BookingService } from "../services/booking.service";
-import { BookingStatus, PaymentType } from "../models/Booking";
+import { S3Service } from "../services/s3.service";
+import { PdfService } from "../services/pdf.service";
+import { EffectiveBookingStatus, PaymentType } from "../models/Booking";
 import { logError } from "../utils/logger";
 
 const bookingService = new BookingService();
@@ -13,7 +15,7 @@ export class BookingController {
       const { productId, fromDateTime, toDateTime, excludeBookingId } =
         req.body;
 
-      const conflicts = await bookingService.checkConflicts({
+      const result = await bookingService.checkConflicts({
         orgId,
         productId,
         fromDateTime: new Date(fromDateTime),
@@ -21,7 +23,7 @@ export class BookingController {
         excludeBookingId,
       });
 
-      res.json({ conflicts });
+      res.json(result);
     } catch (error) {
       logError("Check conflicts error", error);
       res.status(500).json({ message: "Internal server error" });
@@ -37,7 +39,7 @@ export class BookingController {
 
       const result = await bookingService.listBookings({
         orgId,
-        status: status as BookingStatus | undefined,
+        status: status as EffectiveBookingStatus | undefined,
         startDate: startDate as string | undefined,
         endDate: endDate as string | undefined,
         productId: productId as string | undefined,
@@ -80,8 +82,11 @@ export class BookingController {
         toDateTime,
         decidedRent,
         advanceAmount,
+        advanceMethod,
+        advanceReference,
         additionalItemsDescription,
         overrideConflicts,
+        holdExpiresAt,
       } = req.body;
 
       const updateData: any = {};
@@ -93,10 +98,15 @@ export class BookingController {
       if (typeof decidedRent === "number") updateData.decidedRent = decidedRent;
       if (typeof advanceAmount === "number")
         updateData.advanceAmount = advanceAmount;
+      if (advanceMethod) updateData.advanceMethod = advanceMethod;
+      if (advanceReference !== undefined)
+        updateData.advanceReference = advanceReference;
       if (additionalItemsDescription !== undefined)
         updateData.additionalItemsDescription = additionalItemsDescription;
       if (overrideConflicts !== undefined)
         updateData.overrideConflicts = overrideConflicts;
+      if (holdExpiresAt) updateData.holdExpiresAt = new Date(holdExpiresAt);
+      updateData.collectedBy = req.user!.userId;
 
       const booking = await bookingService.updateBooking(id, orgId, updateData);
       res.json(booking);
@@ -110,6 +120,14 @@ export class BookingController {
       ) {
         return res.status(400).json({ message: error.message });
       }
+      if (
+        error.message === "Hold has expired" ||
+        error.message === "Only held bookings have a hold expiry" ||
+        error.message.startsWith("A hold cannot include an advance") ||
+        error.message === "Payment method is required"
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
       if (error.message === "CONFLICT") {
         // Get conflicts for response
         try {
@@ -119,7 +137,7 @@ export class BookingController {
           const { productId, fromDateTime, toDateTime } = req.body;
           // Use new productId if provided, otherwise use existing
           const productIdToUse = productId || existing.productId.toString();
-          const conflicts = await bookingService.checkConflicts({
+          const result = await bookingService.checkConflicts({
             orgId,
             productId: productIdToUse,
             fromDateTime: new Date(fromDateTime || existing.fromDateTime),
@@ -128,12 +146,15 @@ export class BookingController {
           });
           return res.status(409).json({
             message: "Conflicting bookings found",
-            conflicts,
+            ...result,
           });
         } catch (conflictError) {
           return res.status(409).json({
             message: "Conflicting bookings found",
             conflicts: [],
+            bufferConflicts: [],
+            maintenanceConflicts: [],
+            alternatives: [],
           });
         }
       }
@@ -142,18 +163,112 @@ export class BookingController {
     }
   }
 
+  async convertHold(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { advanceAmount, note, method, reference } = req.body;
+
+      const booking = await bookingService.convertHold(id, orgId, {
+        advanceAmount,
+        note,
+        method,
+        reference,
+        collectedBy: req.user!.userId,
+      });
+      res.json(booking);
+    } catch (error: any) {
+      if (error.message === "Booking not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "Hold has expired") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message.includes("Cannot convert booking")) {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("Convert hold error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async swapProduct(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { productId, decidedRent, overrideConflicts, note } = req.body;
+
+      const booking = await bookingService.swapProduct(id, orgId, {
+        productId,
+        decidedRent,
+        overrideConflicts,
+        note,
+        swappedBy: req.user!.userId,
+      });
+      res.json(booking);
+    } catch (error: any) {
+      if (
+        error.message === "Booking not found" ||
+        error.message === "Product not found"
+      ) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message.includes("Cannot swap product")) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message === "CONFLICT") {
+        try {
+          const orgId = req.user!.orgId;
+          const { id } = req.params;
+          const existing = await bookingService.getBookingById(id, orgId);
+          const result = await bookingService.checkConflicts({
+            orgId,
+            productId: req.body.productId,
+            fromDateTime: new Date(existing.fromDateTime),
+            toDateTime: new Date(existing.toDateTime),
+            excludeBookingId: id,
+          });
+          return res.status(409).json({
+            message: "Conflicting bookings found",
+            ...result,
+          });
+        } catch (conflictError) {
+          return res.status(409).json({
+            message: "Conflicting bookings found",
+            conflicts: [],
+            bufferConflicts: [],
+            maintenanceConflicts: [],
+            alternatives: [],
+          });
+        }
+      }
+      logError("Swap product error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
   async issueProduct(req: AuthRequest, res: Response) {
     try {
       const orgId = req.user!.orgId;
       const { id } = req.params;
-      const { paymentAmount, paymentNote } = req.body;
+      const {
+        paymentAmount,
+        paymentNote,
+        paymentMethod,
+        paymentReference,
+        depositAmount,
+        depositNote,
+      } = req.body;
 
-      const booking = await bookingService.issueProduct(
-        id,
-        orgId,
+      const booking = await bookingService.issueProduct(id, orgId, {
+        issuedBy: req.user!.userId,
         paymentAmount,
-        paymentNote
-      );
+        paymentNote,
+        paymentMethod,
+        paymentReference,
+        depositAmount,
+        depositNote,
+      });
       res.json(booking);
     } catch (error: any) {
       if (error.message === "Booking not found") {
@@ -183,14 +298,28 @@ export class BookingController {
     try {
       const orgId = req.user!.orgId;
       const { id } = req.params;
-      const { paymentAmount, paymentNote } = req.body;
+      const {
+        paymentAmount,
+        paymentNote,
+        depositRefundAmount,
+        depositNote,
+        charges,
+        applyLateFee,
+        paymentMethod,
+        paymentReference,
+      } = req.body;
 
-      const booking = await bookingService.returnProduct(
-        id,
-        orgId,
+      const booking = await bookingService.returnProduct(id, orgId, {
+        returnedBy: req.user!.userId,
         paymentAmount,
-        paymentNote
-      );
+        paymentNote,
+        paymentMethod,
+        paymentReference,
+        depositRefundAmount,
+        depositNote,
+        charges,
+        applyLateFee,
+      });
       res.json(booking);
     } catch (error: any) {
       if (error.message === "Booking not found") {
@@ -211,11 +340,249 @@ export class BookingController {
       ) {
         return res.status(400).json({ message: error.message });
       }
+      if (
+        error.message.includes("Deposit refund amount") ||
+        error.message === "No security deposit is held for this booking" ||
+        error.message === "Payment method is required"
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
       logError("Return product error", error);
       res.status(500).json({ message: "Internal server error" });
     }
   }
 
+  async earlyReturn(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const {
+        paymentAmount,
+        paymentNote,
+        depositRefundAmount,
+        depositNote,
+        charges,
+        refundAmount,
+        refundNote,
+        note,
+        paymentMethod,
+        paymentReference,
+      } = req.body;
+
+      const booking = await bookingService.earlyReturn(id, orgId, {
+        returnedBy: req.user!.userId,
+        paymentAmount,
+        paymentNote,
+        paymentMethod,
+        paymentReference,
+        depositRefundAmount,
+        depositNote,
+        charges,
+        refundAmount,
+        refundNote,
+        note,
+      });
+      res.json(booking);
+    } catch (error: any) {
+      if (error.message === "Booking not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "Booking is not being returned early") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (
+        error.message.includes("Early return refund") ||
+        error.message.includes("exceeds remaining amount") ||
+        error.message ===
+          "Booking is already fully paid. No additional payment needed."
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (
+        error.message.includes("Cannot return booking") ||
+        error.message.includes('must be in "ISSUED" status')
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (
+        error.message.includes("Deposit refund amount") ||
+        error.message === "No security deposit is held for this booking" ||
+        error.message === "Payment method is required"
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("Early return error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async previewEarlyReturn(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const assessment = await bookingService.previewEarlyReturn(id, orgId);
+      res.json(assessment);
+    } catch (error: any) {
+      if (error.message === "Booking not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Preview early return error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async extendBooking(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const {
+        toDateTime,
+        perDayRate,
+        overrideConflicts,
+        paymentAmount,
+        paymentNote,
+        paymentMethod,
+        paymentReference,
+        note,
+      } = req.body;
+
+      const booking = await bookingService.extendBooking(id, orgId, {
+        toDateTime: new Date(toDateTime),
+        perDayRate,
+        overrideConflicts,
+        paymentAmount,
+        paymentNote,
+        paymentMethod,
+        paymentReference,
+        note,
+        extendedBy: req.user!.userId,
+      });
+      res.json(booking);
+    } catch (error: any) {
+      if (error.message === "Booking not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (
+        error.message.includes("Cannot extend booking") ||
+        error.message.includes("exceeds remaining amount")
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message === "CONFLICT") {
+        // Conflicts are reported for the added period only
+        try {
+          const orgId = req.user!.orgId;
+          const { id } = req.params;
+          const existing = await bookingService.getBookingById(id, orgId);
+          const result = await bookingService.checkConflicts({
+            orgId,
+            productId: existing.productId._id.toString(),
+            fromDateTime: new Date(existing.toDateTime),
+            toDateTime: new Date(req.body.toDateTime),
+            excludeBookingId: id,
+          });
+          return res.status(409).json({
+            message: "Conflicting bookings found",
+            ...result,
+          });
+        } catch (conflictError) {
+          return res.status(409).json({
+            message: "Conflicting bookings found",
+            conflicts: [],
+            bufferConflicts: [],
+            maintenanceConflicts: [],
+            alternatives: [],
+          });
+        }
+      }
+      logError("Extend booking error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async previewLateFee(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const lateFee = await bookingService.previewLateFee(id, orgId);
+      res.json(lateFee);
+    } catch (error: any) {
+      if (error.message === "Booking not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Preview late fee error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getPaymentReceipt(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id, paymentId } = req.params;
+
+      const receipt = await bookingService.getPaymentReceipt(
+        id,
+        paymentId,
+        orgId
+      );
+
+      if (req.query.format === "pdf") {
+        const pdf = await PdfService.renderReceipt(receipt);
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `inline; filename="${receipt.receiptNumber}.pdf"`
+        );
+        return res.send(pdf);
+      }
+
+      res.json(receipt);
+    } catch (error: any) {
+      if (
+        error.message === "Booking not found" ||
+        error.message === "Payment not found"
+      ) {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get payment receipt error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async uploadChargePhoto(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const file = req.file;
+
+      if (!file) {
+        return res.status(400).json({ message: "Photo file is required" });
+      }
+
+      // Ensure booking belongs to this org before storing the photo
+      await bookingService.getBookingById(id, orgId);
+
+      try {
+        const photoUrl = await S3Service.uploadFile(file, orgId, "charges");
+        res.status(201).json({ photoUrl });
+      } catch (uploadError: any) {
+        logError("Charge photo upload error", uploadError);
+        return res.status(500).json({
+          message: "Failed to upload image",
+          error: uploadError.message,
+        });
+      }
+    } catch (error: any) {
+      if (error.message === "Booking not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Upload charge photo error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
   async cancelBooking(req: AuthRequest, res: Response) {
     try {
       const orgId = req.user!.orgId;
@@ -225,6 +592,9 @@ export class BookingController {
         transfers,
         shouldRefund,
         refundAmount,
+        refundMethod,
+        refundReference,
+        overrideReason,
       } = req.body;
 
       const booking = await bookingService.cancelBooking(id, orgId, {
@@ -232,6 +602,10 @@ export class BookingController {
         transfers,
         shouldRefund,
         refundAmount,
+        refundMethod,
+        refundReference,
+        overrideReason,
+        cancelledBy: req.user!.userId,
       });
       res.json(booking);
     } catch (error: any) {
@@ -248,7 +622,9 @@ export class BookingController {
         error.message.includes("Refund amount") ||
         error.message.includes("cannot exceed") ||
         error.message.includes("Transfer amount") ||
-        error.message.includes("Some transfer booking IDs")
+        error.message.includes("Some transfer booking IDs") ||
+        error.message.startsWith("Store credit") ||
+        error.message === "Payment method is required"
       ) {
         return res.status(400).json({ message: error.message });
       }
@@ -283,12 +659,15 @@ export class BookingController {
     try {
       const orgId = req.user!.orgId;
       const { id } = req.params;
-      const { type, amount, note } = req.body;
+      const { type, amount, note, method, reference } = req.body;
 
       const booking = await bookingService.addPayment(id, orgId, {
         type,
         amount,
         note,
+        method,
+        reference,
+        collectedBy: req.user!.userId,
       });
 
       res.json(booking);
@@ -302,6 +681,9 @@ export class BookingController {
       ) {
         return res.status(400).json({ message: error.message });
       }
+      if (error.message.startsWith("Cannot record payments on a hold")) {
+        return res.status(400).json({ message: error.message });
+      }
       // Handle refund validation errors
       if (error.message.includes("Cannot process refund")) {
         return res.status(400).json({ message: error.message });
@@ -313,6 +695,9 @@ export class BookingController {
       ) {
         return res.status(400).json({ message: error.message });
       }
+      if (error.message.startsWith("Store credit")) {
+        return res.status(400).json({ message: error.message });
+      }
       logError("Add payment error", error);
       res.status(500).json({ message: "Internal server error" });
     }
@@ -43,12 +43,16 @@ export class CategoryController {
   async createCategory(req: AuthRequest, res: Response) {
     try {
       const orgId = req.user!.orgId;
-      const { name, description } = req.body;
+      const { name, description, turnaroundBufferHours, hsnSacCode, gstRate } =
+        req.body;
 
       const category = await categoryService.createCategory({
         orgId,
         name,
         description,
+        turnaroundBufferHours,
+        hsnSacCode,
+        gstRate,
       });
 
       res.status(201).json(category);
@@ -70,11 +74,21 @@ export class CategoryController {
     try {
       const orgId = req.user!.orgId;
       const { id } = req.params;
-      const { name, description, isActive } = req.body;
+      const {
+        name,
+        description,
+        turnaroundBufferHours,
+        hsnSacCode,
+        gstRate,
+        isActive,
+      } = req.body;
 
       const category = await categoryService.updateCategory(id, orgId, {
         name,
         description,
+        turnaroundBufferHours,
+        hsnSacCode,
+        gstRate,
         isActive,
       });
 
@@ -0,0 +1,154 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import {
+  CustomerService,
+  CustomerBookingScope,
+} from "../services/customer.service";
+import { logError } from "../utils/logger";
+
+const customerService = new CustomerService();
+
+export class CustomerController {
+  async listCustomers(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const search = req.query.search as string | undefined;
+      const page = req.query.page
+        ? parseInt(req.query.page as string, 10)
+        : undefined;
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string, 10)
+        : undefined;
+
+      const result = await customerService.listCustomers({
+        orgId,
+        search,
+        page,
+        limit,
+      });
+      res.json(result);
+    } catch (error) {
+      logError("List customers error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getCustomer(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const profile = await customerService.getCustomerProfile(id, orgId);
+      res.json(profile);
+    } catch (error: any) {
+      if (error.message === "Customer not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get customer error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getCustomerBookings(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const scope = (req.query.scope as CustomerBookingScope) || "all";
+
+      const bookings = await customerService.getCustomerBookings(
+        id,
+        orgId,
+        scope
+      );
+      res.json(bookings);
+    } catch (error: any) {
+      if (error.message === "Customer not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get customer bookings error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getStoreCredit(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const page = req.query.page
+        ? parseInt(req.query.page as string, 10)
+        : undefined;
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string, 10)
+        : undefined;
+
+      const credit = await customerService.getStoreCredit(id, orgId, {
+        page,
+        limit,
+      });
+      res.json(credit);
+    } catch (error: any) {
+      if (error.message === "Customer not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get store credit error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async createCustomer(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { name, phone, email, notes } = req.body;
+
+      const customer = await customerService.createCustomer({
+        orgId,
+        name,
+        phone,
+        email,
+        notes,
+      });
+      res.status(201).json(customer);
+    } catch (error: any) {
+      if (error.message === "Customer phone already exists") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.code === 11000) {
+        return res
+          .status(400)
+          .json({ message: "Customer phone already exists" });
+      }
+      logError("Create customer error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async updateCustomer(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { name, phone, email, notes } = req.body;
+
+      const customer = await customerService.updateCustomer(id, orgId, {
+        name,
+        phone,
+        email,
+        notes,
+      });
+      res.json(customer);
+    } catch (error: any) {
+      if (error.message === "Customer not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "Customer phone already exists") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.code === 11000) {
+        return res
+          .status(400)
+          .json({ message: "Customer phone already exists" });
+      }
+      logError("Update customer error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+}
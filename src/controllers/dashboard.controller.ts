@@ -32,6 +32,19 @@ export class DashboardController {
     }
   }
 
+  async getPaymentsByMethod(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const date = req.query.date as string | undefined;
+
+      const payments = await dashboardService.getPaymentsByMethod(orgId, date);
+      res.json(payments);
+    } catch (error) {
+      logError("Dashboard payments by method error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
   async getRecentBookings(req: AuthRequest, res: Response) {
     try {
       const orgId = req.user!.orgId;
@@ -58,6 +71,42 @@ export class DashboardController {
     }
   }
 
+  async getOverdueBookings(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+
+      const bookings = await dashboardService.getOverdueBookings(orgId);
+      res.json(bookings);
+    } catch (error) {
+      logError("Dashboard overdue bookings error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getMaintenanceItems(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+
+      const items = await dashboardService.getMaintenanceItems(orgId);
+      res.json(items);
+    } catch (error) {
+      logError("Dashboard maintenance items error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getNotifiableWaitlist(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+
+      const entries = await dashboardService.getNotifiableWaitlist(orgId);
+      res.json(entries);
+    } catch (error) {
+      logError("Dashboard waitlist error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
   async getCustomerPickups(req: AuthRequest, res: Response) {
     try {
       const orgId = req.user!.orgId;
@@ -0,0 +1,182 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { MaintenanceService } from "../services/maintenance.service";
+import { BookingService } from "../services/booking.service";
+import { MaintenanceStatus } from "../models/MaintenanceBlock";
+import { logError } from "../utils/logger";
+
+const maintenanceService = new MaintenanceService();
+const bookingService = new BookingService();
+
+const NOT_FOUND_ERRORS = ["Product not found", "Maintenance block not found"];
+
+const BAD_REQUEST_ERRORS = [
+  "Maintenance block overlaps an existing block",
+  "Completed maintenance blocks cannot be edited",
+  "Maintenance in progress cannot be deleted; mark it as done instead",
+  "To date time must be after from date time",
+];
+
+/**
+ * Map maintenance service errors to HTTP responses
+ * CONFLICT is handled by the callers since they know the window being checked
+ */
+function handleMaintenanceError(res: Response, error: any, context: string) {
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    return res.status(404).json({ message: error.message });
+  }
+  if (
+    BAD_REQUEST_ERRORS.includes(error.message) ||
+    error.message?.startsWith("Cannot move maintenance block")
+  ) {
+    return res.status(400).json({ message: error.message });
+  }
+  logError(context, error);
+  res.status(500).json({ message: "Internal server error" });
+}
+
+/**
+ * 409 with the bookings that overlap the requested maintenance window
+ */
+async function sendBookingConflicts(
+  res: Response,
+  orgId: string,
+  productId: string,
+  fromDateTime: Date,
+  toDateTime: Date
+) {
+  try {
+    const { conflicts } = await bookingService.checkConflicts({
+      orgId,
+      productId,
+      fromDateTime,
+      toDateTime,
+    });
+    return res.status(409).json({
+      message: "Product has bookings during this maintenance window",
+      conflicts,
+    });
+  } catch (conflictError) {
+    return res.status(409).json({
+      message: "Product has bookings during this maintenance window",
+      conflicts: [],
+    });
+  }
+}
+
+export class MaintenanceController {
+  async listBlocks(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const status = req.query.status as MaintenanceStatus | undefined;
+
+      const blocks = await maintenanceService.listBlocks(id, orgId, status);
+      res.json(blocks);
+    } catch (error: any) {
+      handleMaintenanceError(res, error, "List maintenance blocks error");
+    }
+  }
+
+  async getBlock(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id, blockId } = req.params;
+
+      const block = await maintenanceService.getBlockById(blockId, id, orgId);
+      res.json(block);
+    } catch (error: any) {
+      handleMaintenanceError(res, error, "Get maintenance block error");
+    }
+  }
+
+  async createBlock(req: AuthRequest, res: Response) {
+    const orgId = req.user!.orgId;
+    const { id } = req.params;
+    const {
+      fromDateTime,
+      toDateTime,
+      reason,
+      notes,
+      status,
+      overrideConflicts,
+    } = req.body;
+
+    try {
+      const block = await maintenanceService.createBlock({
+        orgId,
+        productId: id,
+        fromDateTime: new Date(fromDateTime),
+        toDateTime: new Date(toDateTime),
+        reason,
+        notes,
+        status,
+        createdBy: req.user!.userId,
+        overrideConflicts,
+      });
+      res.status(201).json(block);
+    } catch (error: any) {
+      if (error.message === "CONFLICT") {
+        return sendBookingConflicts(
+          res,
+          orgId,
+          id,
+          new Date(fromDateTime),
+          new Date(toDateTime)
+        );
+      }
+      handleMaintenanceError(res, error, "Create maintenance block error");
+    }
+  }
+
+  async updateBlock(req: AuthRequest, res: Response) {
+    const orgId = req.user!.orgId;
+    const { id, blockId } = req.params;
+    const {
+      fromDateTime,
+      toDateTime,
+      reason,
+      notes,
+      status,
+      overrideConflicts,
+    } = req.body;
+
+    try {
+      const block = await maintenanceService.updateBlock(blockId, id, orgId, {
+        fromDateTime: fromDateTime ? new Date(fromDateTime) : undefined,
+        toDateTime: toDateTime ? new Date(toDateTime) : undefined,
+        reason,
+        notes,
+        status,
+        overrideConflicts,
+      });
+      res.json(block);
+    } catch (error: any) {
+      if (error.message === "CONFLICT") {
+        const existing = await maintenanceService
+          .getBlockById(blockId, id, orgId)
+          .catch(() => null);
+        return sendBookingConflicts(
+          res,
+          orgId,
+          id,
+          new Date(fromDateTime || existing?.fromDateTime),
+          new Date(toDateTime || existing?.toDateTime)
+        );
+      }
+      handleMaintenanceError(res, error, "Update maintenance block error");
+    }
+  }
+
+  async deleteBlock(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id, blockId } = req.params;
+
+      const result = await maintenanceService.deleteBlock(blockId, id, orgId);
+      res.json(result);
+    } catch (error: any) {
+      handleMaintenanceError(res, error, "Delete maintenance block error");
+    }
+  }
+}
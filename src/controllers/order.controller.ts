@@ -1,38 +1,90 @@
 import { Response } from "express";
 import { AuthRequest } from "../middleware/auth";
 import { OrderService } from "../services/order.service";
+import { BookingService } from "../services/booking.service";
+import { PdfService } from "../services/pdf.service";
 import { OrderStatus } from "../models/Order";
 import { logError } from "../utils/logger";
 
 const orderService = new OrderService();
+const bookingService = new BookingService();
+
+/**
+ * 409 describing the first requested booking that conflicts, with alternatives
+ */
+async function sendConflictResponse(
+  res: Response,
+  orgId: string,
+  bookings: Array<{ productId: string; fromDateTime: string; toDateTime: string }>
+) {
+  try {
+    for (const b of bookings) {
+      const result = await bookingService.checkConflicts({
+        orgId,
+        productId: b.productId,
+        fromDateTime: new Date(b.fromDateTime),
+        toDateTime: new Date(b.toDateTime),
+      });
+      if (
+        result.conflicts.length > 0 ||
+        result.bufferConflicts.length > 0 ||
+        result.maintenanceConflicts.length > 0
+      ) {
+        return res.status(409).json({
+          message: "Conflicting bookings found",
+          productId: b.productId,
+          ...result,
+        });
+      }
+    }
+  } catch (conflictError) {
+    // Fall through to the bare response
+  }
+  return res.status(409).json({
+    message: "Conflicting bookings found",
+    conflicts: [],
+    bufferConflicts: [],
+    maintenanceConflicts: [],
+    alternatives: [],
+  });
+}
 
 export class OrderController {
   async createOrder(req: AuthRequest, res: Response) {
     try {
       const orgId = req.user!.orgId;
-      const { customerName, customerPhone, bookings } = req.body;
+      const { customerId, customerName, customerPhone, bookings } = req.body;
 
       const order = await orderService.createOrder({
         orgId,
+        customerId,
         customerName,
         customerPhone,
         bookings: bookings?.map((b: any) => ({
           ...b,
           fromDateTime: new Date(b.fromDateTime),
           toDateTime: new Date(b.toDateTime),
+          collectedBy: req.user!.userId,
         })),
       });
 
       res.status(201).json(order);
     } catch (error: any) {
-      if (error.message === "Product not found for this org") {
+      if (
+        error.message === "Product not found for this org" ||
+        error.message === "Customer not found" ||
+        error.message === "Customer name is required" ||
+        error.message === "Hold expiry must be in the future" ||
+        error.message.startsWith("A hold cannot include an advance")
+      ) {
         return res.status(400).json({ message: error.message });
       }
       if (error.message === "CONFLICT") {
-        return res.status(409).json({
-          message: "Conflicting bookings found",
-          conflicts: [],
-        });
+        return sendConflictResponse(
+          res,
+          req.user!.orgId,
+          req.body.bookings || []
+        );
       }
       logError("Create order error", error);
       res.status(500).json({ message: "Internal server error" });
@@ -87,11 +139,20 @@ export class OrderController {
     try {
       const orgId = req.user!.orgId;
       const { id } = req.params;
-      const { customerName, customerPhone } = req.body;
+      const {
+        customerId,
+        customerName,
+        customerPhone,
+        customerGstin,
+        placeOfSupply,
+      } = req.body;
 
       const order = await orderService.updateOrder(id, orgId, {
+        customerId,
         customerName,
         customerPhone,
+        customerGstin,
+        placeOfSupply,
       });
 
       res.json(order);
@@ -99,6 +160,9 @@ export class OrderController {
       if (error.message === "Order not found") {
         return res.status(404).json({ message: error.message });
       }
+      if (error.message === "Customer not found") {
+        return res.status(400).json({ message: error.message });
+      }
       logError("Update order error", error);
       res.status(500).json({ message: "Internal server error" });
     }
@@ -117,6 +181,9 @@ export class OrderController {
         advanceAmount,
         additionalItemsDescription,
         overrideConflicts,
+        holdExpiresAt,
+        advanceMethod,
+        advanceReference,
       } = req.body;
 
       const booking = await orderService.addBookingToOrder(id, orgId, {
@@ -128,6 +195,10 @@ export class OrderController {
         advanceAmount,
         additionalItemsDescription,
         overrideConflicts,
+        holdExpiresAt: holdExpiresAt ? new Date(holdExpiresAt) : undefined,
+        advanceMethod,
+        advanceReference,
+        collectedBy: req.user!.userId,
       });
 
       res.status(201).json(booking);
@@ -138,31 +209,98 @@ export class OrderController {
       if (error.message === "Product not found for this org") {
         return res.status(400).json({ message: error.message });
       }
-      if (error.message === "Cannot add booking to cancelled order") {
+      if (
+        error.message === "Cannot add booking to cancelled order" ||
+        error.message === "Hold expiry must be in the future" ||
+        error.message.startsWith("A hold cannot include an advance")
+      ) {
         return res.status(400).json({ message: error.message });
       }
       if (error.message === "CONFLICT") {
-        return res.status(409).json({
-          message: "Conflicting bookings found",
-          conflicts: [],
-        });
+        return sendConflictResponse(res, req.user!.orgId, [req.body]);
       }
       logError("Add booking to order error", error);
       res.status(500).json({ message: "Internal server error" });
     }
   }
 
+  async moveBooking(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id, bookingId } = req.params;
+      const { targetOrderId, note } = req.body;
+
+      const result = await orderService.moveBooking(id, bookingId, orgId, {
+        targetOrderId,
+        note,
+        movedBy: req.user!.userId,
+      });
+      res.json(result);
+    } catch (error: any) {
+      if (
+        error.message === "Order not found" ||
+        error.message === "Booking not found"
+      ) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message.includes("Cannot move booking")) {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("Move booking error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async mergeOrders(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { sourceOrderId, note } = req.body;
+
+      const order = await orderService.mergeOrders(id, orgId, {
+        sourceOrderId,
+        note,
+        mergedBy: req.user!.userId,
+      });
+      res.json(order);
+    } catch (error: any) {
+      if (error.message === "Order not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (
+        error.message === "Cannot merge an order into itself" ||
+        error.message === "Cannot merge cancelled orders"
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("Merge orders error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
   async cancelOrder(req: AuthRequest, res: Response) {
     try {
       const orgId = req.user!.orgId;
       const { id } = req.params;
-      const { refundAmount, refundNote } = req.body;
+      const {
+        refundAmount,
+        refundNote,
+        refundMethod,
+        refundReference,
+        overrideReason,
+      } = req.body;
 
       const result = await orderService.cancelOrder(
         id,
         orgId,
         refundAmount,
-        refundNote
+        refundNote,
+        {
+          overrideReason,
+          cancelledBy: req.user!.userId,
+          refundMethod,
+          refundReference,
+        }
       );
       res.json(result);
     } catch (error: any) {
@@ -174,7 +312,9 @@ export class OrderController {
       }
       if (
         error.message.includes("Refund amount") ||
-        error.message.includes("cannot exceed")
+        error.message.includes("cannot exceed") ||
+        error.message.startsWith("Store credit") ||
+        error.message === "Payment method is required"
       ) {
         return res.status(400).json({ message: error.message });
       }
@@ -217,12 +357,95 @@ export class OrderController {
     }
   }
 
+  async addPayment(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { amount, strategy, allocations, method, reference, note } =
+        req.body;
+
+      const receipt = await orderService.addOrderPayment(id, orgId, {
+        amount,
+        strategy,
+        allocations,
+        method,
+        reference,
+        note,
+        collectedBy: req.user!.userId,
+      });
+      res.status(201).json(receipt);
+    } catch (error: any) {
+      if (error.message === "Order not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (
+        error.message === "Cannot record payment on a cancelled order" ||
+        error.message ===
+          "Order is already fully paid. No additional payment needed." ||
+        error.message.includes("exceeds order balance") ||
+        error.message.includes("exceeds its balance") ||
+        error.message.includes("must add up to the payment amount") ||
+        error.message.includes("is not an active booking with a balance") ||
+        error.message.startsWith("Store credit")
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("Add order payment error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getPaymentReceipt(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id, receiptNumber } = req.params;
+
+      const receipt = await orderService.getOrderPaymentReceipt(
+        id,
+        receiptNumber,
+        orgId
+      );
+
+      if (req.query.format === "pdf") {
+        const pdf = await PdfService.renderOrderReceipt(receipt);
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `inline; filename="${receipt.receiptNumber}.pdf"`
+        );
+        return res.send(pdf);
+      }
+
+      res.json(receipt);
+    } catch (error: any) {
+      if (
+        error.message === "Order not found" ||
+        error.message === "Receipt not found"
+      ) {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get order payment receipt error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
   async generateInvoice(req: AuthRequest, res: Response) {
     try {
       const orgId = req.user!.orgId;
       const { id } = req.params;
 
       const invoice = await orderService.generateInvoice(id, orgId);
+
+      if (req.query.format === "pdf") {
+        const pdf = await PdfService.renderInvoice(invoice);
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `inline; filename="${invoice.invoiceNumber}.pdf"`
+        );
+        return res.send(pdf);
+      }
+
       res.json(invoice);
     } catch (error: any) {
       if (error.message === "Order not found") {
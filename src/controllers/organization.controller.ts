@@ -0,0 +1,67 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { OrganizationService } from "../services/organization.service";
+import { logError } from "../utils/logger";
+
+const organizationService = new OrganizationService();
+
+export class OrganizationController {
+  async getOrganization(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+
+      const organization = await organizationService.getOrganization(orgId);
+      res.json(organization);
+    } catch (error: any) {
+      if (error.message === "Organization not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get organization error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async updateSettings(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const {
+        rentalSettings,
+        cancellationPolicy,
+        taxSettings,
+        staffPermissions,
+      } = req.body;
+
+      const organization = await organizationService.updateSettings(orgId, {
+        rentalSettings,
+        cancellationPolicy,
+        taxSettings,
+        staffPermissions,
+      });
+      res.json(organization);
+    } catch (error: any) {
+      if (error.message === "Organization not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "GSTIN is required to enable GST") {
+        return res.status(400).json({ message: error.message });
+      }
+            logError("Update organization settings error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getPermissionMatrix(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+
+      const matrix = await organizationService.getPermissionMatrix(orgId);
+      res.json(matrix);
+    } catch (error: any) {
+      if (error.message === "Organization not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get permission matrix error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+}
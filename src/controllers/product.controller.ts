@@ -12,6 +12,14 @@ export class ProductController {
       const orgId = req.user!.orgId;
       const search = req.query.search as string | undefined;
       const includeDeleted = req.query.includeDeleted === "true";
+      const { categoryId, size, color, availableFrom, availableTo } =
+        req.query as Record<string, string | undefined>;
+      const minRent = req.query.minRent
+        ? parseFloat(req.query.minRent as string)
+        : undefined;
+      const maxRent = req.query.maxRent
+        ? parseFloat(req.query.maxRent as string)
+        : undefined;
       const page = req.query.page
         ? parseInt(req.query.page as string, 10)
         : undefined;
@@ -23,6 +31,13 @@ export class ProductController {
         orgId,
         search,
         includeDeleted,
+        categoryId,
+        size: size?.trim() || undefined,
+        color: color?.trim() || undefined,
+        minRent,
+        maxRent,
+        availableFrom: availableFrom ? new Date(availableFrom) : undefined,
+        availableTo: availableTo ? new Date(availableTo) : undefined,
         page,
         limit,
       });
@@ -61,6 +76,7 @@ export class ProductController {
         color,
         size,
         featuredOrder,
+        turnaroundBufferHours,
       } = req.body;
       const file = req.file;
 
@@ -90,6 +106,10 @@ export class ProductController {
         size,
         imageUrl,
         featuredOrder: featuredOrder ? parseInt(featuredOrder) : undefined,
+        turnaroundBufferHours:
+          turnaroundBufferHours !== undefined && turnaroundBufferHours !== ""
+            ? Number(turnaroundBufferHours)
+            : undefined,
       });
 
       res.status(201).json(product);
@@ -119,6 +139,7 @@ export class ProductController {
         size,
         isActive,
         featuredOrder,
+        turnaroundBufferHours,
       } = req.body;
       const file = req.file;
 
@@ -162,6 +183,12 @@ export class ProductController {
               ? null
               : parseInt(featuredOrder)
             : undefined,
+        turnaroundBufferHours:
+          turnaroundBufferHours !== undefined
+            ? turnaroundBufferHours === "" || turnaroundBufferHours === null
+              ? null
+              : Number(turnaroundBufferHours)
+            : undefined,
       });
 
       res.json(product);
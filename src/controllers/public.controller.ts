@@ -53,6 +53,73 @@ export class PublicController {
     }
   }
 
+  async getProductAvailability(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { month, from, to, tzOffset } = req.query;
+
+      const availability = await publicService.getProductAvailability(
+        req,
+        id as string,
+        {
+          month: month as string | undefined,
+          from: from ? new Date(from as string) : undefined,
+          to: to ? new Date(to as string) : undefined,
+          tzOffset: tzOffset ? parseInt(tzOffset as string, 10) : undefined,
+        }
+      );
+      res.json(availability);
+    } catch (error: any) {
+      if (
+        error.message === "Subdomain is required" ||
+        error.message === "Organization not found" ||
+        error.message === "Product not found"
+      ) {
+        return res.status(404).json({ message: error.message });
+      }
+      logError("Get product availability error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async submitBookingRequest(req: Request, res: Response) {
+    try {
+      const {
+        productId,
+        customerName,
+        customerPhone,
+        customerEmail,
+        fromDateTime,
+        toDateTime,
+        message,
+      } = req.body;
+
+      const result = await publicService.submitBookingRequest(req, {
+        productId,
+        customerName,
+        customerPhone,
+        customerEmail,
+        fromDateTime,
+        toDateTime,
+        message,
+      });
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (
+        error.message === "Subdomain is required" ||
+        error.message === "Organization not found" ||
+        error.message === "Product not found"
+      ) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "Product is not available for the selected dates") {
+        return res.status(409).json({ message: error.message });
+      }
+      logError("Submit booking request error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
   getFeatures(req: Request, res: Response) {
     try {
       const features = publicService.getFeatures();
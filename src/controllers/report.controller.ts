@@ -0,0 +1,27 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { ReportService } from "../services/report.service";
+import { logError } from "../utils/logger";
+
+const reportService = new ReportService();
+
+export class ReportController {
+  async getGstSummary(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const month = req.query.month as string;
+
+      const summary = await reportService.getGstSummary(orgId, month);
+      res.json(summary);
+    } catch (error: any) {
+      if (error.message === "Organization not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "GST is not enabled for this organization") {
+        return res.status(400).json({ message: error.message });
+      }
+      logError("GST summary error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { ShiftService } from "../services/shift.service";
+import { ShiftStatus } from "../models/Shift";
+import { logError } from "../utils/logger";
+
+const shiftService = new ShiftService();
+
+const NOT_FOUND_ERRORS = ["Shift not found", "No open shift"];
+
+const CONFLICT_ERRORS = [
+  "You already have an open shift",
+  "Shift is already closed",
+];
+
+/**
+ * Map shift service errors to HTTP responses
+ */
+function handleShiftError(res: Response, error: any, context: string) {
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    return res.status(404).json({ message: error.message });
+  }
+  if (CONFLICT_ERRORS.includes(error.message)) {
+    return res.status(409).json({ message: error.message });
+  }
+  if (error.message === "You can only close your own shift") {
+    return res.status(403).json({ message: error.message });
+  }
+  logError(context, error);
+  res.status(500).json({ message: "Internal server error" });
+}
+
+export class ShiftController {
+  async openShift(req: AuthRequest, res: Response) {
+    try {
+      const { openingFloat, notes } = req.body;
+
+      const shift = await shiftService.openShift({
+        orgId: req.user!.orgId,
+        userId: req.user!.userId,
+        openingFloat,
+        notes,
+      });
+      res.status(201).json(shift);
+    } catch (error: any) {
+      handleShiftError(res, error, "Open shift error");
+    }
+  }
+
+  async getCurrentShift(req: AuthRequest, res: Response) {
+    try {
+      const shift = await shiftService.getCurrentShift(
+        req.user!.orgId,
+        req.user!.userId
+      );
+      res.json(shift);
+    } catch (error: any) {
+      handleShiftError(res, error, "Get current shift error");
+    }
+  }
+
+  async getShift(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const shift = await shiftService.getShiftById(id, orgId);
+      res.json(shift);
+    } catch (error: any) {
+      handleShiftError(res, error, "Get shift error");
+    }
+  }
+
+  async closeShift(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { countedCash, notes } = req.body;
+
+      const shift = await shiftService.closeShift(id, orgId, {
+        countedCash,
+        notes,
+        closedBy: req.user!.userId,
+        canCloseForOthers: req.user!.role === "admin",
+      });
+      res.json(shift);
+    } catch (error: any) {
+      handleShiftError(res, error, "Close shift error");
+    }
+  }
+
+  async getShiftReport(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const userId = req.query.userId as string | undefined;
+      const status = req.query.status as ShiftStatus | undefined;
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : undefined;
+      const endDate = req.query.endDate
+        ? new Date(req.query.endDate as string)
+        : undefined;
+      const page = req.query.page
+        ? parseInt(req.query.page as string, 10)
+        : undefined;
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string, 10)
+        : undefined;
+
+      const result = await shiftService.getShiftReport({
+        orgId,
+        userId,
+        status,
+        startDate,
+        endDate,
+        page,
+        limit,
+      });
+      res.json(result);
+    } catch (error: any) {
+      handleShiftError(res, error, "Shift report error");
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { UserService } from "../services/user.service";
+import { UserRole } from "../config/permissions";
+import { logError } from "../utils/logger";
+
+const userService = new UserService();
+
+const CONFLICT_ERRORS = ["Email already in use", "Phone number already in use"];
+
+const BAD_REQUEST_ERRORS = [
+  "You cannot deactivate your own account",
+  "You cannot change your own role",
+  "Organization must keep at least one active admin",
+  "User is already inactive",
+  "User is already active",
+  "User has already accepted the invite",
+];
+
+/**
+ * Map user service errors to HTTP responses
+ */
+function handleUserError(res: Response, error: any, context: string) {
+  if (error.message === "User not found") {
+    return res.status(404).json({ message: error.message });
+  }
+  if (CONFLICT_ERRORS.includes(error.message)) {
+    return res.status(409).json({ message: error.message });
+  }
+  if (BAD_REQUEST_ERRORS.includes(error.message)) {
+    return res.status(400).json({ message: error.message });
+  }
+  logError(context, error);
+  res.status(500).json({ message: "Internal server error" });
+}
+
+export class UserController {
+  async listUsers(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const search = req.query.search as string | undefined;
+      const role = req.query.role as UserRole | undefined;
+      const isActive =
+        req.query.isActive !== undefined
+          ? req.query.isActive === "true"
+          : undefined;
+      const page = req.query.page
+        ? parseInt(req.query.page as string, 10)
+        : undefined;
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string, 10)
+        : undefined;
+
+      const result = await userService.listUsers({
+        orgId,
+        search,
+        role,
+        isActive,
+        page,
+        limit,
+      });
+      res.json(result);
+    } catch (error) {
+      logError("List users error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+
+  async getUser(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const user = await userService.getUserById(id, orgId);
+      res.json(user);
+    } catch (error: any) {
+      handleUserError(res, error, "Get user error");
+    }
+  }
+
+  async createUser(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { name, email, phoneNumber, password, role } = req.body;
+
+      const user = await userService.createUser({
+        orgId,
+        name,
+        email,
+        phoneNumber,
+        password,
+        role,
+      });
+      res.status(201).json(user);
+    } catch (error: any) {
+      handleUserError(res, error, "Create user error");
+    }
+  }
+
+  async inviteUser(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { name, email, phoneNumber, role } = req.body;
+
+      const invite = await userService.inviteUser({
+        orgId,
+        invitedBy: req.user!.userId,
+        name,
+        email,
+        phoneNumber,
+        role,
+      });
+      res.status(201).json(invite);
+    } catch (error: any) {
+      handleUserError(res, error, "Invite user error");
+    }
+  }
+
+  async resendInvite(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const invite = await userService.resendInvite(id, orgId);
+      res.json(invite);
+    } catch (error: any) {
+      handleUserError(res, error, "Resend invite error");
+    }
+  }
+
+  async updateUser(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { name, email, phoneNumber } = req.body;
+
+      const user = await userService.updateUser(id, orgId, {
+        name,
+        email,
+        phoneNumber,
+      });
+      res.json(user);
+    } catch (error: any) {
+      handleUserError(res, error, "Update user error");
+    }
+  }
+
+  async deactivateUser(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const user = await userService.deactivateUser(
+        id,
+        orgId,
+        req.user!.userId
+      );
+      res.json(user);
+    } catch (error: any) {
+      handleUserError(res, error, "Deactivate user error");
+    }
+  }
+
+  async reactivateUser(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const user = await userService.reactivateUser(id, orgId);
+      res.json(user);
+    } catch (error: any) {
+      handleUserError(res, error, "Reactivate user error");
+    }
+  }
+
+  async resetPassword(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { password } = req.body;
+
+      const user = await userService.resetPassword(id, orgId, password);
+      res.json(user);
+    } catch (error: any) {
+      handleUserError(res, error, "Reset password error");
+    }
+  }
+
+  async changeRole(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { role } = req.body;
+
+      const user = await userService.changeRole(
+        id,
+        orgId,
+        role,
+        req.user!.userId
+      );
+      res.json(user);
+    } catch (error: any) {
+      handleUserError(res, error, "Change role error");
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { WaitlistService } from "../services/waitlist.service";
+import { WaitlistStatus } from "../models/WaitlistEntry";
+import { logError } from "../utils/logger";
+
+const waitlistService = new WaitlistService();
+
+const NOT_FOUND_ERRORS = ["Waitlist entry not found", "Product not found"];
+
+const BAD_REQUEST_ERRORS = ["Customer not found", "Customer name is required"];
+
+/**
+ * Map waitlist service errors to HTTP responses
+ */
+function handleWaitlistError(res: Response, error: any, context: string) {
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    return res.status(404).json({ message: error.message });
+  }
+  if (error.message === "Product is available for the selected dates") {
+    return res.status(409).json({ message: error.message });
+  }
+  if (
+    BAD_REQUEST_ERRORS.includes(error.message) ||
+    error.message?.startsWith("Cannot move waitlist entry")
+  ) {
+    return res.status(400).json({ message: error.message });
+  }
+  logError(context, error);
+  res.status(500).json({ message: "Internal server error" });
+}
+
+export class WaitlistController {
+  async listEntries(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const status = req.query.status as WaitlistStatus | undefined;
+      const productId = req.query.productId as string | undefined;
+      const page = req.query.page
+        ? parseInt(req.query.page as string, 10)
+        : undefined;
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string, 10)
+        : undefined;
+
+      const result = await waitlistService.listEntries({
+        orgId,
+        status,
+        productId,
+        page,
+        limit,
+      });
+      res.json(result);
+    } catch (error: any) {
+      handleWaitlistError(res, error, "List waitlist error");
+    }
+  }
+
+  async getEntry(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+
+      const entry = await waitlistService.getEntryById(id, orgId);
+      res.json(entry);
+    } catch (error: any) {
+      handleWaitlistError(res, error, "Get waitlist entry error");
+    }
+  }
+
+  async createEntry(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const {
+        productId,
+        fromDateTime,
+        toDateTime,
+        customerId,
+        customerName,
+        customerPhone,
+        customerEmail,
+        notes,
+        priority,
+      } = req.body;
+
+      const entry = await waitlistService.createEntry({
+        orgId,
+        productId,
+        fromDateTime: new Date(fromDateTime),
+        toDateTime: new Date(toDateTime),
+        customerId,
+        customerName,
+        customerPhone,
+        customerEmail,
+        notes,
+        priority,
+        createdBy: req.user!.userId,
+      });
+      res.status(201).json(entry);
+    } catch (error: any) {
+      handleWaitlistError(res, error, "Create waitlist entry error");
+    }
+  }
+
+  async updateEntry(req: AuthRequest, res: Response) {
+    try {
+      const orgId = req.user!.orgId;
+      const { id } = req.params;
+      const { status, notes, priority } = req.body;
+
+      const entry = await waitlistService.updateEntry(id, orgId, {
+        status,
+        notes,
+        priority,
+        updatedBy: req.user!.userId,
+      });
+      res.json(entry);
+    } catch (error: any) {
+      handleWaitlistError(res, error, "Update waitlist entry error");
+    }
+  }
+}
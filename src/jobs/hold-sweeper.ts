@@ -0,0 +1,38 @@
+import { BookingService } from "../services/booking.service";
+import { logError, logInfo } from "../utils/logger";
+
+const bookingService = new BookingService();
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Periodically release HELD bookings whose hold has expired
+ * A run is skipped while the previous one is still in progress
+ */
+export function startHoldSweeper(
+  intervalMs: number = Number(process.env.HOLD_SWEEP_INTERVAL_MS) ||
+    DEFAULT_INTERVAL_MS
+): NodeJS.Timeout {
+  let running = false;
+
+  const sweep = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const released = await bookingService.releaseExpiredHolds();
+      if (released > 0) {
+        logInfo(`Released ${released} expired hold(s)`);
+      }
+    } catch (error) {
+      logError("Hold sweeper error", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(sweep, intervalMs);
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  void sweep();
+  return timer;
+}
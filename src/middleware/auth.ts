@@ -1,17 +1,25 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { User } from "../models/User";
+import { logError } from "../utils/logger";
 
 interface JwtPayload {
   userId: string;
   orgId: string;
   role: string;
+  sid?: string; // Session (refresh token family) id
+  iat?: number;
 }
 
 export interface AuthRequest extends Request {
   user?: JwtPayload;
 }
 
-export const authMiddleware = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authMiddleware = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     return res.status(401).json({ message: "Unauthorized" });
@@ -23,13 +31,35 @@ export const authMiddleware = (req: AuthRequest, res: Response, next: NextFuncti
     return res.status(500).json({ message: "JWT secret not configured" });
   }
 
+  let payload: JwtPayload;
   try {
-    const payload = jwt.verify(token, secret) as JwtPayload;
-    req.user = payload;
-    next();
+    payload = jwt.verify(token, secret) as JwtPayload;
   } catch (err) {
     return res.status(401).json({ message: "Invalid token" });
   }
-};
 
+  try {
+    // Tokens outlive deactivation and "log out everywhere" unless checked here
+    const user = await User.findById(payload.userId)
+      .select("isActive tokensValidAfter")
+      .lean();
+
+    if (!user || !user.isActive) {
+      return res.status(401).json({ message: "Account is inactive" });
+    }
 
+    // iat has second precision, so compare at second precision too
+    if (
+      user.tokensValidAfter &&
+      (payload.iat ?? 0) < Math.floor(user.tokensValidAfter.getTime() / 1000)
+    ) {
+      return res.status(401).json({ message: "Session has been revoked" });
+    }
+
+    req.user = payload;
+    next();
+  } catch (error) {
+    logError("Auth check error", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
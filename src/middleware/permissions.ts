@@ -0,0 +1,81 @@
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "./auth";
+import { Organization } from "../models/Organization";
+import {
+  Permission,
+  UserRole,
+  getRolePermissions,
+} from "../config/permissions";
+import { logError } from "../utils/logger";
+
+/**
+ * A fixed permission, or one derived from the request (e.g. a refund flag in the body)
+ * Resolvers returning null add no requirement
+ */
+export type PermissionRequirement =
+  | Permission
+  | ((req: AuthRequest) => Permission | null);
+
+/**
+ * Allow only the given roles. Must run after authMiddleware.
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({
+        message: `This action requires the ${roles.join(" or ")} role`,
+        requiredRoles: roles,
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Allow only users whose role holds every required permission in their org's matrix.
+ * Must run after authMiddleware, and after validate() when resolvers read the body.
+ */
+export const requirePermission = (...requirements: PermissionRequirement[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const required = requirements
+      .map((r) => (typeof r === "function" ? r(req) : r))
+      .filter((p): p is Permission => p !== null);
+
+    if (required.length === 0 || req.user.role === "admin") {
+      return next();
+    }
+
+    try {
+      const organization = await Organization.findById(req.user.orgId)
+        .select("staffPermissions")
+        .lean();
+
+      const granted = getRolePermissions(
+        req.user.role,
+        organization?.staffPermissions
+      );
+      const missing = required.filter((p) => !granted.includes(p));
+
+      if (missing.length > 0) {
+        return res.status(403).json({
+          message: `You do not have permission to perform this action (${missing.join(", ")})`,
+          missingPermissions: missing,
+        });
+      }
+
+      next();
+    } catch (error) {
+      logError("Permission check error", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+};
@@ -1,18 +1,88 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { TaxPricingMode } from "./Organization";
 
-export type BookingStatus = "BOOKED" | "ISSUED" | "RETURNED" | "CANCELLED";
+// HELD is a tentative hold that blocks the product only until holdExpiresAt
+export type BookingStatus =
+  | "HELD"
+  | "BOOKED"
+  | "ISSUED"
+  | "RETURNED"
+  | "CANCELLED";
+
+// OVERDUE is derived (ISSUED and past toDateTime), never stored
+export type EffectiveBookingStatus = BookingStatus | "OVERDUE";
 
 export type PaymentType =
   | "ADVANCE"
   | "RENT_REMAINING"
   | "PAYMENT_RECEIVED"
-  | "REFUND";
+  | "REFUND"
+  | "DEPOSIT_COLLECTED"
+  | "DEPOSIT_REFUNDED"
+  | "DEPOSIT_FORFEITED";
+
+// ADJUSTMENT marks bookkeeping entries where no money changes hands
+// (advance moved between bookings, forfeited deposit)
+// STORE_CREDIT refunds add to the customer's credit; STORE_CREDIT payments spend it
+export type PaymentMethod =
+  | "CASH"
+  | "UPI"
+  | "CARD"
+  | "BANK_TRANSFER"
+  | "STORE_CREDIT"
+  | "ADJUSTMENT";
+
+export type DepositStatus =
+  | "NONE"
+  | "HELD"
+  | "REFUNDED"
+  | "PARTIALLY_REFUNDED"
+  | "FORFEITED";
+
+export type ChargeType = "DAMAGE" | "LATE_FEE" | "CLEANING";
+
+export interface IBookingCharge {
+  type: ChargeType;
+  amount: number;
+  description?: string;
+  photoUrl?: string;
+  at: Date;
+}
 
 export interface IPaymentEntry {
+  _id?: mongoose.Types.ObjectId;
   type: PaymentType;
   amount: number;
   at: Date;
+  method: PaymentMethod; // Entries recorded before methods were tracked default to CASH
+  reference?: string; // UPI / card / bank transaction reference
+  collectedBy?: mongoose.Types.ObjectId; // Staff user who took or paid out the money
+  note?: string;
+  receiptNumber?: string; // Assigned when a receipt is first generated
+}
+
+export type BookingHistoryAction =
+  | "EXTENDED"
+  | "EARLY_RETURN"
+  | "PRODUCT_SWAPPED"
+  | "ORDER_CHANGED";
+
+// Audit entry for changes that are not plain edits (extensions, early returns, swaps, moves)
+export interface IBookingHistoryEntry {
+  action: BookingHistoryAction;
+  at: Date;
+  by?: mongoose.Types.ObjectId; // Staff user who made the change
   note?: string;
+  details?: Record<string, any>; // Action-specific values (old/new dates, rates, amounts)
+}
+
+// Recorded when staff refund a different amount than the cancellation policy suggests
+export interface IRefundOverride {
+  suggestedAmount: number;
+  refundAmount: number;
+  reason: string;
+  overriddenBy?: mongoose.Types.ObjectId;
+  at: Date;
 }
 
 export interface IBooking extends Document {
@@ -24,25 +94,101 @@ export interface IBooking extends Document {
   toDateTime: Date;
   productDefaultRent: number;
   decidedRent: number;
+  taxRate?: number; // GST percent fixed at creation; absent when GST was off
+  taxPricingMode?: TaxPricingMode; // EXCLUSIVE adds the GST to the amount due
   advanceAmount: number;
-  remainingAmount: number;
+  remainingAmount: number; // Amount due (rent, charges, exclusive GST) minus paid
   status: BookingStatus;
+  holdExpiresAt?: Date; // Only for HELD bookings
+  holdReleasedAt?: Date; // Set when an expired hold is released by the sweeper
+  issuedAt?: Date; // Actual time the product was handed to the customer
+  issuedBy?: mongoose.Types.ObjectId; // Staff user who issued the product
+  returnedAt?: Date; // Actual time the product came back
+  returnedBy?: mongoose.Types.ObjectId; // Staff user who accepted the return
   isConflictOverridden: boolean;
   additionalItemsDescription?: string;
   payments: IPaymentEntry[];
   pendingRefundAmount?: number; // Amount pending refund when booking is cancelled without refund
+  refundOverride?: IRefundOverride;
+  depositAmount: number; // Security deposit collected at issue (tracked separately from rent)
+  depositStatus: DepositStatus;
+  charges: IBookingCharge[]; // Extra charges assessed at return, added to the amount owed
+  history: IBookingHistoryEntry[];
 }
 
-const PaymentSchema = new Schema<IPaymentEntry>(
+// Payments keep their own _id so receipts and ledgers can reference them
+const PaymentSchema = new Schema<IPaymentEntry>({
+  type: {
+    type: String,
+    enum: [
+      "ADVANCE",
+      "RENT_REMAINING",
+      "PAYMENT_RECEIVED",
+      "REFUND",
+      "DEPOSIT_COLLECTED",
+      "DEPOSIT_REFUNDED",
+      "DEPOSIT_FORFEITED",
+    ],
+    required: true,
+  },
+  amount: { type: Number, required: true },
+  at: { type: Date, required: true, default: Date.now },
+  method: {
+    type: String,
+    enum: [
+      "CASH",
+      "UPI",
+      "CARD",
+      "BANK_TRANSFER",
+      "STORE_CREDIT",
+      "ADJUSTMENT",
+    ],
+    required: true,
+    default: "CASH",
+  },
+  reference: { type: String },
+  collectedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  note: { type: String },
+  receiptNumber: { type: String },
+});
+
+const ChargeSchema = new Schema<IBookingCharge>(
   {
     type: {
       type: String,
-      enum: ["ADVANCE", "RENT_REMAINING", "PAYMENT_RECEIVED", "REFUND"],
+      enum: ["DAMAGE", "LATE_FEE", "CLEANING"],
+      required: true,
+    },
+    amount: { type: Number, required: true, min: 0 },
+    description: { type: String },
+    photoUrl: { type: String },
+    at: { type: Date, required: true, default: Date.now },
+  },
+  { _id: false }
+);
+
+const RefundOverrideSchema = new Schema<IRefundOverride>(
+  {
+    suggestedAmount: { type: Number, required: true },
+    refundAmount: { type: Number, required: true },
+    reason: { type: String, required: true },
+    overriddenBy: { type: Schema.Types.ObjectId, ref: "User" },
+    at: { type: Date, required: true, default: Date.now },
+  },
+  { _id: false }
+);
+
+const HistoryEntrySchema = new Schema<IBookingHistoryEntry>(
+  {
+    action: {
+      type: String,
+      enum: ["EXTENDED", "EARLY_RETURN", "PRODUCT_SWAPPED", "ORDER_CHANGED"],
       required: true,
     },
-    amount: { type: Number, required: true },
     at: { type: Date, required: true, default: Date.now },
+    by: { type: Schema.Types.ObjectId, ref: "User" },
     note: { type: String },
+    details: { type: Schema.Types.Mixed },
   },
   { _id: false }
 );
@@ -57,22 +203,40 @@ const BookingSchema = new Schema<IBooking>(
     toDateTime: { type: Date, required: true },
     productDefaultRent: { type: Number, required: true },
     decidedRent: { type: Number, required: true },
+    taxRate: { type: Number, min: 0, max: 100 },
+    taxPricingMode: { type: String, enum: ["EXCLUSIVE", "INCLUSIVE"] },
     advanceAmount: { type: Number, required: true },
     remainingAmount: { type: Number, required: true },
     status: {
       type: String,
-      enum: ["BOOKED", "ISSUED", "RETURNED", "CANCELLED"],
+      enum: ["HELD", "BOOKED", "ISSUED", "RETURNED", "CANCELLED"],
       default: "BOOKED",
     },
+    holdExpiresAt: { type: Date },
+    holdReleasedAt: { type: Date },
+    issuedAt: { type: Date },
+    issuedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    returnedAt: { type: Date },
+    returnedBy: { type: Schema.Types.ObjectId, ref: "User" },
     isConflictOverridden: { type: Boolean, default: false },
     additionalItemsDescription: { type: String },
     payments: { type: [PaymentSchema], default: [] },
     pendingRefundAmount: { type: Number, default: 0 },
+    refundOverride: { type: RefundOverrideSchema },
+    depositAmount: { type: Number, default: 0 },
+    depositStatus: {
+      type: String,
+      enum: ["NONE", "HELD", "REFUNDED", "PARTIALLY_REFUNDED", "FORFEITED"],
+      default: "NONE",
+    },
+    charges: { type: [ChargeSchema], default: [] },
+    history: { type: [HistoryEntrySchema], default: [] },
   },
   { timestamps: true }
 );
 
 BookingSchema.index({ orgId: 1, productId: 1, fromDateTime: 1, toDateTime: 1 });
 BookingSchema.index({ orderId: 1 });
+BookingSchema.index({ status: 1, holdExpiresAt: 1 }); // Hold expiry sweeper
 
 export const Booking = mongoose.model<IBooking>("Booking", BookingSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type BookingRequestStatus = "PENDING" | "ACCEPTED" | "REJECTED";
+
+export interface IBookingRequest extends Document {
+  orgId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  customerName: string;
+  customerPhone: string; // E.164 - used to find or create the Customer on accept
+  customerEmail?: string;
+  fromDateTime: Date;
+  toDateTime: Date;
+  message?: string;
+  status: BookingRequestStatus;
+  decidedBy?: mongoose.Types.ObjectId;
+  decidedAt?: Date;
+  rejectionReason?: string;
+  orderId?: mongoose.Types.ObjectId; // Set once accepted
+  bookingId?: mongoose.Types.ObjectId; // Set once accepted
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BookingRequestSchema = new Schema<IBookingRequest>(
+  {
+    orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    customerName: { type: String, required: true },
+    customerPhone: { type: String, required: true },
+    customerEmail: { type: String },
+    fromDateTime: { type: Date, required: true },
+    toDateTime: { type: Date, required: true },
+    message: { type: String },
+    status: {
+      type: String,
+      enum: ["PENDING", "ACCEPTED", "REJECTED"],
+      default: "PENDING",
+    },
+    decidedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    decidedAt: { type: Date },
+    rejectionReason: { type: String },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    bookingId: { type: Schema.Types.ObjectId, ref: "Booking" },
+  },
+  { timestamps: true }
+);
+
+BookingRequestSchema.index({ orgId: 1, status: 1, createdAt: -1 });
+
+export const BookingRequest = mongoose.model<IBookingRequest>(
+  "BookingRequest",
+  BookingRequestSchema
+);
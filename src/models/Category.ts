@@ -4,6 +4,9 @@ export interface ICategory extends Document {
   orgId: mongoose.Types.ObjectId;
   name: string;
   description?: string;
+  turnaroundBufferHours: number; // Minimum gap between consecutive rentals of a product (cleaning, alterations)
+  hsnSacCode?: string; // Printed on GST invoices
+  gstRate?: number; // GST percent; falls back to the organization's default rate
   isActive: boolean;
 }
 
@@ -12,6 +15,9 @@ const CategorySchema = new Schema<ICategory>(
     orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
     name: { type: String, required: true },
     description: { type: String },
+    turnaroundBufferHours: { type: Number, default: 0, min: 0 },
+    hsnSacCode: { type: String },
+    gstRate: { type: Number, min: 0, max: 100 },
     isActive: { type: Boolean, default: true },
   },
   { timestamps: true }
@@ -0,0 +1,20 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ICounter extends Document {
+  orgId: mongoose.Types.ObjectId;
+  name: string; // Sequence name, e.g. "invoice" or "receipt"
+  seq: number; // Last issued value - only ever incremented
+}
+
+const CounterSchema = new Schema<ICounter>(
+  {
+    orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    name: { type: String, required: true },
+    seq: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+CounterSchema.index({ orgId: 1, name: 1 }, { unique: true });
+
+export const Counter = mongoose.model<ICounter>("Counter", CounterSchema);
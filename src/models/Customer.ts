@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ICustomer extends Document {
+  orgId: mongoose.Types.ObjectId;
+  name: string;
+  phone?: string; // E.164, normalized with normalizePhoneNumber - unique per org
+  email?: string;
+  notes?: string;
+  storeCreditBalance: number; // Running total of the StoreCreditEntry ledger
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomerSchema = new Schema<ICustomer>(
+  {
+    orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    name: { type: String, required: true },
+    phone: { type: String },
+    email: { type: String },
+    notes: { type: String },
+    storeCreditBalance: { type: Number, default: 0, min: 0 },
+  },
+  { timestamps: true }
+);
+
+// Phone is the customer's identity within an org; customers without phone are allowed
+CustomerSchema.index(
+  { orgId: 1, phone: 1 },
+  { unique: true, partialFilterExpression: { phone: { $type: "string" } } }
+);
+CustomerSchema.index({ orgId: 1, name: 1 });
+
+export const Customer = mongoose.model<ICustomer>("Customer", CustomerSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type MaintenanceStatus = "SCHEDULED" | "IN_PROGRESS" | "DONE";
+
+export interface IMaintenanceBlock extends Document {
+  orgId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  fromDateTime: Date;
+  toDateTime: Date; // Expected back in circulation
+  reason: string; // e.g. dry cleaning, repair, photoshoot
+  notes?: string;
+  status: MaintenanceStatus;
+  createdBy?: mongoose.Types.ObjectId;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MaintenanceBlockSchema = new Schema<IMaintenanceBlock>(
+  {
+    orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    fromDateTime: { type: Date, required: true },
+    toDateTime: { type: Date, required: true },
+    reason: { type: String, required: true },
+    notes: { type: String },
+    status: {
+      type: String,
+      enum: ["SCHEDULED", "IN_PROGRESS", "DONE"],
+      default: "SCHEDULED",
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+MaintenanceBlockSchema.index({ orgId: 1, productId: 1, fromDateTime: 1 });
+MaintenanceBlockSchema.index({ orgId: 1, status: 1 });
+
+export const MaintenanceBlock = mongoose.model<IMaintenanceBlock>(
+  "MaintenanceBlock",
+  MaintenanceBlockSchema
+);
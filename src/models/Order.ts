@@ -1,25 +1,50 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { IRefundOverride } from "./Booking";
+import { InvoiceTax } from "../utils/gst";
 
 export type OrderStatus = "INITIATED" | "IN_PROGRESS" | "PARTIALLY_DONE" | "FULLY_DONE" | "CANCELLED";
 
 export interface IOrder extends Document {
   orgId: mongoose.Types.ObjectId;
-  customerName: string;
-  customerPhone?: string;
+  customerId?: mongoose.Types.ObjectId; // Reference to Customer
+  customerName: string; // Snapshot of customer name at order time
+  customerPhone?: string; // Snapshot of customer phone at order time
+  customerGstin?: string; // For B2B tax invoices
+  placeOfSupply?: string; // 2-digit GST state code; IGST applies when it differs from the org's state
   status: OrderStatus;
-  totalAmount: number; // Sum of all active bookings' decidedRent
+  totalAmount: number; // Sum of all active bookings' decidedRent plus extra charges and exclusive GST
   totalReceived: number; // Sum of all payments received
   remainingAmount: number; // totalAmount - totalReceived
   bookings: mongoose.Types.ObjectId[]; // Array of booking IDs
+  invoiceNumber?: string; // Sequential per org, assigned on first invoice and never reused
+  invoicedAt?: Date;
+  invoiceTax?: InvoiceTax; // GST as billed, stored once every booking is returned
+  refundOverride?: IRefundOverride; // Set when an order cancellation refund deviates from policy
+  mergedIntoOrderId?: mongoose.Types.ObjectId; // Set (with status CANCELLED) when merged into another order
+  mergedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const RefundOverrideSchema = new Schema<IRefundOverride>(
+  {
+    suggestedAmount: { type: Number, required: true },
+    refundAmount: { type: Number, required: true },
+    reason: { type: String, required: true },
+    overriddenBy: { type: Schema.Types.ObjectId, ref: "User" },
+    at: { type: Date, required: true, default: Date.now },
+  },
+  { _id: false }
+);
+
 const OrderSchema = new Schema<IOrder>(
   {
     orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "Customer" },
     customerName: { type: String, required: true },
     customerPhone: { type: String },
+    customerGstin: { type: String },
+    placeOfSupply: { type: String },
     status: {
       type: String,
       enum: ["INITIATED", "IN_PROGRESS", "PARTIALLY_DONE", "FULLY_DONE", "CANCELLED"],
@@ -29,12 +54,24 @@ const OrderSchema = new Schema<IOrder>(
     totalReceived: { type: Number, default: 0 },
     remainingAmount: { type: Number, default: 0 },
     bookings: [{ type: Schema.Types.ObjectId, ref: "Booking" }],
+    invoiceNumber: { type: String },
+    invoicedAt: { type: Date },
+    invoiceTax: { type: Schema.Types.Mixed },
+    refundOverride: { type: RefundOverrideSchema },
+    mergedIntoOrderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    mergedAt: { type: Date },
   },
   { timestamps: true }
 );
 
 OrderSchema.index({ orgId: 1, status: 1 });
 OrderSchema.index({ orgId: 1, createdAt: -1 });
+OrderSchema.index({ orgId: 1, customerId: 1 });
+OrderSchema.index({ orgId: 1, invoicedAt: 1 }); // Monthly GST summary
+OrderSchema.index(
+  { orgId: 1, invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $type: "string" } } }
+);
 
 export const Order = mongoose.model<IOrder>("Order", OrderSchema);
 
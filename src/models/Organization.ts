@@ -1,4 +1,35 @@
 import mongoose, { Schema, Document } from "mongoose";
+import {
+  PERMISSIONS,
+  Permission,
+  DEFAULT_STAFF_PERMISSIONS,
+} from "../config/permissions";
+
+export interface IRentalSettings {
+  lateFeePerDay: number; // Late fee charged per started day past toDateTime
+  lateFeeGraceHours: number; // Hours after toDateTime before late fee applies
+}
+
+export interface ICancellationTier {
+  minDaysBefore: number; // Applies when cancelled at least this many days before fromDateTime
+  refundPercent: number; // Share of the rent paid to refund (0-100)
+}
+
+export interface ICancellationPolicy {
+  tiers: ICancellationTier[]; // Empty means no policy - the full amount paid is refundable
+}
+
+// EXCLUSIVE: GST is added on top of rent and charges; INCLUSIVE: amounts already include it
+export type TaxPricingMode = "EXCLUSIVE" | "INCLUSIVE";
+
+export interface ITaxSettings {
+  enabled: boolean;
+  gstin?: string;
+  stateCode?: string; // 2-digit GST state code; defaults to the first two digits of the GSTIN
+  pricingMode: TaxPricingMode;
+  defaultRate: number; // GST percent for categories without their own rate
+  defaultHsnSacCode?: string;
+}
 
 export interface IOrganization extends Document {
   name: string;
@@ -9,10 +40,53 @@ export interface IOrganization extends Document {
   contact?: string;
   address?: string;
   location?: string;
+  rentalSettings: IRentalSettings;
+  cancellationPolicy: ICancellationPolicy;
+  taxSettings: ITaxSettings;
+  staffPermissions: Permission[]; // Actions staff users may perform; admins may do everything
   createdAt: Date;
   updatedAt: Date;
 }
 
+const RentalSettingsSchema = new Schema<IRentalSettings>(
+  {
+    lateFeePerDay: { type: Number, default: 0, min: 0 },
+    lateFeeGraceHours: { type: Number, default: 0, min: 0 },
+  },
+  { _id: false }
+);
+
+const CancellationTierSchema = new Schema<ICancellationTier>(
+  {
+    minDaysBefore: { type: Number, required: true, min: 0 },
+    refundPercent: { type: Number, required: true, min: 0, max: 100 },
+  },
+  { _id: false }
+);
+
+const CancellationPolicySchema = new Schema<ICancellationPolicy>(
+  {
+    tiers: { type: [CancellationTierSchema], default: [] },
+  },
+  { _id: false }
+);
+
+const TaxSettingsSchema = new Schema<ITaxSettings>(
+  {
+    enabled: { type: Boolean, default: false },
+    gstin: { type: String },
+    stateCode: { type: String },
+    pricingMode: {
+      type: String,
+      enum: ["EXCLUSIVE", "INCLUSIVE"],
+      default: "EXCLUSIVE",
+    },
+    defaultRate: { type: Number, default: 0, min: 0, max: 100 },
+    defaultHsnSacCode: { type: String },
+  },
+  { _id: false }
+);
+
 const OrganizationSchema = new Schema<IOrganization>(
   {
     name: { type: String, required: true },
@@ -23,6 +97,16 @@ const OrganizationSchema = new Schema<IOrganization>(
     contact: { type: String, required: false },
     address: { type: String, required: false },
     location: { type: String, required: false },
+    rentalSettings: { type: RentalSettingsSchema, default: () => ({}) },
+    cancellationPolicy: {
+      type: CancellationPolicySchema,
+      default: () => ({}),
+    },
+    taxSettings: { type: TaxSettingsSchema, default: () => ({}) },
+    staffPermissions: {
+      type: [{ type: String, enum: PERMISSIONS }],
+      default: () => [...DEFAULT_STAFF_PERMISSIONS],
+    },
   },
   { timestamps: true }
 );
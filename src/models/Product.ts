@@ -12,6 +12,7 @@ export interface IProduct extends Document {
   imageUrl?: string;
   isActive: boolean;
   featuredOrder?: number;
+  turnaroundBufferHours?: number; // Overrides the category buffer when set
 }
 
 const ProductSchema = new Schema<IProduct>(
@@ -27,6 +28,7 @@ const ProductSchema = new Schema<IProduct>(
     imageUrl: { type: String },
     isActive: { type: Boolean, default: true },
     featuredOrder: { type: Number, required: false },
+    turnaroundBufferHours: { type: Number, required: false, min: 0 },
   },
   { timestamps: true }
 );
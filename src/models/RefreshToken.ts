@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IRefreshToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  orgId: mongoose.Types.ObjectId;
+  tokenHash: string; // SHA-256 of the token handed to the client
+  familyId: string; // Shared by every rotation of one login session (one device)
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  replacedByHash?: string; // Set when rotated - a reused rotated token revokes the family
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    familyId: { type: String, required: true },
+    deviceName: { type: String, required: false },
+    userAgent: { type: String, required: false },
+    ipAddress: { type: String, required: false },
+    expiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date, required: false },
+    revokedAt: { type: Date, required: false },
+    replacedByHash: { type: String, required: false },
+  },
+  { timestamps: true }
+);
+
+RefreshTokenSchema.index({ userId: 1, revokedAt: 1 });
+RefreshTokenSchema.index({ familyId: 1 });
+// Let MongoDB purge tokens once they can no longer be used
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>(
+  "RefreshToken",
+  RefreshTokenSchema
+);
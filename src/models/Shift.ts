@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { PaymentMethod } from "./Booking";
+
+export type ShiftStatus = "OPEN" | "CLOSED";
+
+export interface IShiftMethodTotal {
+  method: PaymentMethod;
+  received: number;
+  refunded: number;
+  depositsCollected: number;
+  depositsRefunded: number;
+  net: number;
+}
+
+export interface IShift extends Document {
+  orgId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // Staff member whose drawer this is
+  status: ShiftStatus;
+  openedAt: Date;
+  openingFloat: number;
+  openingNotes?: string;
+  closedAt?: Date;
+  closedBy?: mongoose.Types.ObjectId; // Differs from userId when an admin closes the shift
+  countedCash?: number;
+  expectedCash?: number; // Opening float plus net cash, frozen at close
+  variance?: number; // Counted minus expected; negative means the drawer is short
+  paymentsByMethod: IShiftMethodTotal[]; // Frozen at close
+  closingNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShiftMethodTotalSchema = new Schema<IShiftMethodTotal>(
+  {
+    method: {
+      type: String,
+      enum: [
+        "CASH",
+        "UPI",
+        "CARD",
+        "BANK_TRANSFER",
+        "STORE_CREDIT",
+        "ADJUSTMENT",
+      ],
+      required: true,
+    },
+    received: { type: Number, default: 0 },
+    refunded: { type: Number, default: 0 },
+    depositsCollected: { type: Number, default: 0 },
+    depositsRefunded: { type: Number, default: 0 },
+    net: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const ShiftSchema = new Schema<IShift>(
+  {
+    orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    status: {
+      type: String,
+      enum: ["OPEN", "CLOSED"],
+      default: "OPEN",
+    },
+    openedAt: { type: Date, required: true },
+    openingFloat: { type: Number, required: true, min: 0 },
+    openingNotes: { type: String },
+    closedAt: { type: Date },
+    closedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    countedCash: { type: Number, min: 0 },
+    expectedCash: { type: Number },
+    variance: { type: Number },
+    paymentsByMethod: { type: [ShiftMethodTotalSchema], default: [] },
+    closingNotes: { type: String },
+  },
+  { timestamps: true }
+);
+
+// One open drawer per staff member
+ShiftSchema.index(
+  { orgId: 1, userId: 1 },
+  { unique: true, partialFilterExpression: { status: "OPEN" } }
+);
+ShiftSchema.index({ orgId: 1, openedAt: -1 });
+
+export const Shift = mongoose.model<IShift>("Shift", ShiftSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// CREDIT: money kept back for the customer; DEBIT: credit spent on a booking
+export type StoreCreditEntryType = "CREDIT" | "DEBIT";
+
+export interface IStoreCreditEntry extends Document {
+  orgId: mongoose.Types.ObjectId;
+  customerId: mongoose.Types.ObjectId;
+  type: StoreCreditEntryType;
+  amount: number;
+  balanceAfter: number; // Customer balance once this entry was applied
+  bookingId: mongoose.Types.ObjectId; // Booking the credit came from or was spent on
+  orderId: mongoose.Types.ObjectId;
+  paymentId?: mongoose.Types.ObjectId; // Matching entry in the booking's payments
+  note?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StoreCreditEntrySchema = new Schema<IStoreCreditEntry>(
+  {
+    orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: "Customer",
+      required: true,
+    },
+    type: { type: String, enum: ["CREDIT", "DEBIT"], required: true },
+    amount: { type: Number, required: true, min: 0 },
+    balanceAfter: { type: Number, required: true },
+    bookingId: { type: Schema.Types.ObjectId, ref: "Booking", required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    paymentId: { type: Schema.Types.ObjectId },
+    note: { type: String },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+StoreCreditEntrySchema.index({ orgId: 1, customerId: 1, createdAt: -1 });
+StoreCreditEntrySchema.index({ bookingId: 1 });
+
+export const StoreCreditEntry = mongoose.model<IStoreCreditEntry>(
+  "StoreCreditEntry",
+  StoreCreditEntrySchema
+);
@@ -5,9 +5,15 @@ export interface IUser extends Document {
   name: string;
   email: string;
   phoneNumber?: string;
-  passwordHash: string;
+  passwordHash?: string; // Unset until an invited user accepts their invite
   role: "admin" | "staff";
   isActive: boolean;
+  invitedBy?: mongoose.Types.ObjectId;
+  inviteTokenHash?: string; // SHA-256 of the invite token, cleared once accepted
+  inviteExpiresAt?: Date;
+  deactivatedAt?: Date;
+  passwordChangedAt?: Date;
+  tokensValidAfter?: Date; // Access tokens issued before this are rejected
 }
 
 const UserSchema = new Schema<IUser>(
@@ -16,11 +22,19 @@ const UserSchema = new Schema<IUser>(
     name: { type: String, required: true },
     email: { type: String, required: true, unique: true },
     phoneNumber: { type: String, required: false, sparse: true },
-    passwordHash: { type: String, required: true },
+    passwordHash: { type: String, required: false },
     role: { type: String, enum: ["admin", "staff"], default: "staff" },
     isActive: { type: Boolean, default: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: "User", required: false },
+    inviteTokenHash: { type: String, required: false },
+    inviteExpiresAt: { type: Date, required: false },
+    deactivatedAt: { type: Date, required: false },
+    passwordChangedAt: { type: Date, required: false },
+    tokensValidAfter: { type: Date, required: false },
   },
   { timestamps: true }
 );
 
+UserSchema.index({ inviteTokenHash: 1 }, { sparse: true });
+
 export const User = mongoose.model<IUser>("User", UserSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// NOTIFIABLE: the product freed up for this window and the customer should be contacted
+export type WaitlistStatus =
+  | "WAITING"
+  | "NOTIFIABLE"
+  | "NOTIFIED"
+  | "FULFILLED"
+  | "CANCELLED";
+
+export interface IWaitlistEntry extends Document {
+  orgId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  customerId?: mongoose.Types.ObjectId;
+  customerName: string;
+  customerPhone?: string; // E.164
+  customerEmail?: string;
+  fromDateTime: Date;
+  toDateTime: Date;
+  notes?: string;
+  priority: number; // Lower is served first; defaults to position in the product's queue
+  status: WaitlistStatus;
+  createdBy?: mongoose.Types.ObjectId;
+  notifiableAt?: Date;
+  releasedByBookingId?: mongoose.Types.ObjectId; // Cancelled booking that freed the window
+  notifiedAt?: Date;
+  notifiedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>(
+  {
+    orgId: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "Customer" },
+    customerName: { type: String, required: true },
+    customerPhone: { type: String },
+    customerEmail: { type: String },
+    fromDateTime: { type: Date, required: true },
+    toDateTime: { type: Date, required: true },
+    notes: { type: String },
+    priority: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ["WAITING", "NOTIFIABLE", "NOTIFIED", "FULFILLED", "CANCELLED"],
+      default: "WAITING",
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+    notifiableAt: { type: Date },
+    releasedByBookingId: { type: Schema.Types.ObjectId, ref: "Booking" },
+    notifiedAt: { type: Date },
+    notifiedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+WaitlistEntrySchema.index({ orgId: 1, productId: 1, status: 1, priority: 1 });
+WaitlistEntrySchema.index({ orgId: 1, status: 1, notifiableAt: 1 });
+
+export const WaitlistEntry = mongoose.model<IWaitlistEntry>(
+  "WaitlistEntry",
+  WaitlistEntrySchema
+);
@@ -1,7 +1,14 @@
 import { Router } from "express";
 import { authMiddleware } from "../middleware/auth";
-import { validate } from "../middleware/validate";
-import { loginSchema } from "../validators/auth.validator";
+import { validate, validateParams } from "../middleware/validate";
+import {
+  loginSchema,
+  changePasswordSchema,
+  acceptInviteSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  sessionParamsSchema,
+} from "../validators/auth.validator";
 import { AuthController } from "../controllers/auth.controller";
 
 const router = Router();
@@ -10,8 +17,35 @@ const authController = new AuthController();
 router.post("/login", validate(loginSchema), (req, res) =>
   authController.login(req, res)
 );
+router.post("/refresh", validate(refreshTokenSchema), (req, res) =>
+  authController.refresh(req, res)
+);
+router.post("/accept-invite", validate(acceptInviteSchema), (req, res) =>
+  authController.acceptInvite(req, res)
+);
 router.get("/me", authMiddleware, (req, res) =>
   authController.getCurrentUser(req, res)
 );
+router.post(
+  "/change-password",
+  authMiddleware,
+  validate(changePasswordSchema),
+  (req, res) => authController.changePassword(req, res)
+);
+router.post("/logout", authMiddleware, validate(logoutSchema), (req, res) =>
+  authController.logout(req, res)
+);
+router.post("/logout-all", authMiddleware, (req, res) =>
+  authController.logoutAll(req, res)
+);
+router.get("/sessions", authMiddleware, (req, res) =>
+  authController.listSessions(req, res)
+);
+router.delete(
+  "/sessions/:sessionId",
+  authMiddleware,
+  validateParams(sessionParamsSchema),
+  (req, res) => authController.revokeSession(req, res)
+);
 
 export default router;
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import {
+  validate,
+  validateQuery,
+  validateParams,
+} from "../middleware/validate";
+import {
+  acceptBookingRequestSchema,
+  rejectBookingRequestSchema,
+  getBookingRequestParamsSchema,
+  listBookingRequestsQuerySchema,
+} from "../validators/booking-request.validator";
+import { BookingRequestController } from "../controllers/booking-request.controller";
+
+const router = Router();
+const bookingRequestController = new BookingRequestController();
+
+router.use(authMiddleware);
+
+router.get(
+  "/",
+  validateQuery(listBookingRequestsQuerySchema),
+  requirePermission("bookings:read"),
+  (req, res) => bookingRequestController.listRequests(req, res)
+);
+
+router.get(
+  "/:id",
+  validateParams(getBookingRequestParamsSchema),
+  requirePermission("bookings:read"),
+  (req, res) => bookingRequestController.getRequest(req, res)
+);
+
+router.post(
+  "/:id/accept",
+  validateParams(getBookingRequestParamsSchema),
+  validate(acceptBookingRequestSchema),
+  requirePermission("orders:write", (req) =>
+    req.body.advanceAmount > 0 ? "payments:collect" : null
+  ),
+  (req, res) => bookingRequestController.acceptRequest(req, res)
+);
+
+router.post(
+  "/:id/reject",
+  validateParams(getBookingRequestParamsSchema),
+  validate(rejectBookingRequestSchema),
+  requirePermission("orders:write"),
+  (req, res) => bookingRequestController.rejectRequest(req, res)
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
 import {
   validate,
   validateQuery,
@@ -13,9 +14,16 @@ import {
   listBookingsQuerySchema,
   issueProductSchema,
   returnProductSchema,
+  earlyReturnSchema,
+  extendBookingSchema,
   cancelBookingSchema,
+  convertHoldSchema,
+  swapProductSchema,
+  paymentReceiptParamsSchema,
+  documentFormatQuerySchema,
 } from "../validators/booking.validator";
 import { BookingController } from "../controllers/booking.controller";
+import { upload } from "../middleware/upload";
 
 const router = Router();
 const bookingController = new BookingController();
@@ -23,29 +31,67 @@ const bookingController = new BookingController();
 router.use(authMiddleware);
 
 // Specific routes must come before parameterized routes
-router.post("/check-conflicts", validate(checkConflictsSchema), (req, res) =>
-  bookingController.checkConflicts(req, res)
+router.post(
+  "/check-conflicts",
+  validate(checkConflictsSchema),
+  requirePermission("bookings:read"),
+  (req, res) => bookingController.checkConflicts(req, res)
 );
 
-router.get("/", validateQuery(listBookingsQuerySchema), (req, res) =>
-  bookingController.listBookings(req, res)
+router.get(
+  "/",
+  validateQuery(listBookingsQuerySchema),
+  requirePermission("bookings:read"),
+  (req, res) => bookingController.listBookings(req, res)
 );
 
-router.get("/:id", validateParams(getBookingParamsSchema), (req, res) =>
-  bookingController.getBooking(req, res)
+router.get(
+  "/:id",
+  validateParams(getBookingParamsSchema),
+  requirePermission("bookings:read"),
+  (req, res) => bookingController.getBooking(req, res)
 );
 
 router.put(
   "/:id",
   validateParams(getBookingParamsSchema),
   validate(updateBookingSchema),
+  // A changed advance is recorded as a payment or refund of the difference
+  requirePermission(
+    "bookings:write",
+    (req) => (req.body.advanceAmount > 0 ? "payments:collect" : null),
+    (req) => (req.body.advanceAmount !== undefined ? "payments:refund" : null)
+  ),
   (req, res) => bookingController.updateBooking(req, res)
 );
 
+router.post(
+  "/:id/convert-hold",
+  validateParams(getBookingParamsSchema),
+  validate(convertHoldSchema),
+  requirePermission("bookings:write", (req) =>
+    req.body.advanceAmount > 0 ? "payments:collect" : null
+  ),
+  (req, res) => bookingController.convertHold(req, res)
+);
+
+router.post(
+  "/:id/swap-product",
+  validateParams(getBookingParamsSchema),
+  validate(swapProductSchema),
+  requirePermission("bookings:write"),
+  (req, res) => bookingController.swapProduct(req, res)
+);
+
 router.post(
   "/:id/issue",
   validateParams(getBookingParamsSchema),
   validate(issueProductSchema),
+  requirePermission("bookings:issue", (req) =>
+    req.body.paymentAmount > 0 || req.body.depositAmount > 0
+      ? "payments:collect"
+      : null
+  ),
   (req, res) => bookingController.issueProduct(req, res)
 );
 
@@ -53,13 +99,71 @@ router.post(
   "/:id/return",
   validateParams(getBookingParamsSchema),
   validate(returnProductSchema),
+  // Any held deposit is refunded in full unless depositRefundAmount says otherwise
+  requirePermission(
+    "bookings:return",
+    (req) => (req.body.paymentAmount > 0 ? "payments:collect" : null),
+    (req) => (req.body.depositRefundAmount === 0 ? null : "payments:refund")
+  ),
   (req, res) => bookingController.returnProduct(req, res)
 );
 
+router.post(
+  "/:id/early-return",
+  validateParams(getBookingParamsSchema),
+  validate(earlyReturnSchema),
+  // Any held deposit is refunded in full unless depositRefundAmount says otherwise
+  requirePermission(
+    "bookings:return",
+    (req) => (req.body.paymentAmount > 0 ? "payments:collect" : null),
+    (req) =>
+      req.body.refundAmount > 0 || req.body.depositRefundAmount !== 0
+        ? "payments:refund"
+        : null
+  ),
+  (req, res) => bookingController.earlyReturn(req, res)
+);
+
+router.get(
+  "/:id/preview-early-return",
+  validateParams(getBookingParamsSchema),
+  requirePermission("bookings:read"),
+  (req, res) => bookingController.previewEarlyReturn(req, res)
+);
+
+router.post(
+  "/:id/extend",
+  validateParams(getBookingParamsSchema),
+  validate(extendBookingSchema),
+  requirePermission("bookings:write", (req) =>
+    req.body.paymentAmount > 0 ? "payments:collect" : null
+  ),
+  (req, res) => bookingController.extendBooking(req, res)
+);
+
+router.get(
+  "/:id/late-fee",
+  validateParams(getBookingParamsSchema),
+  requirePermission("bookings:read"),
+  (req, res) => bookingController.previewLateFee(req, res)
+);
+
+router.post(
+  "/:id/charge-photos",
+  validateParams(getBookingParamsSchema),
+  requirePermission("bookings:return"),
+  upload.single("image"),
+  (req, res) => bookingController.uploadChargePhoto(req, res)
+);
+
 router.post(
   "/:id/cancel",
   validateParams(getBookingParamsSchema),
   validate(cancelBookingSchema),
+  // Cancellation refunds by default unless shouldRefund is explicitly false
+  requirePermission("bookings:cancel", (req) =>
+    req.body.shouldRefund === false ? null : "payments:refund"
+  ),
   (req, res) => bookingController.cancelBooking(req, res)
 );
 
@@ -67,12 +171,24 @@ router.post(
   "/:id/payments",
   validateParams(getBookingParamsSchema),
   validate(addPaymentSchema),
+  requirePermission((req) =>
+    req.body.type === "REFUND" ? "payments:refund" : "payments:collect"
+  ),
   (req, res) => bookingController.addPayment(req, res)
 );
 
+router.get(
+  "/:id/payments/:paymentId/receipt",
+  validateParams(paymentReceiptParamsSchema),
+  validateQuery(documentFormatQuerySchema),
+  requirePermission("bookings:read"),
+  (req, res) => bookingController.getPaymentReceipt(req, res)
+);
+
 router.get(
   "/:id/preview-cancellation-refund",
   validateParams(getBookingParamsSchema),
+  requirePermission("bookings:read"),
   (req, res) => bookingController.previewCancellationRefund(req, res)
 );
 
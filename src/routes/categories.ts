@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
 import {
   validate,
   validateQuery,
@@ -18,31 +19,47 @@ const categoryController = new CategoryController();
 
 router.use(authMiddleware);
 
-router.get("/", validateQuery(listCategoriesQuerySchema), (req, res) =>
-  categoryController.listCategories(req, res)
+router.get(
+  "/",
+  validateQuery(listCategoriesQuerySchema),
+  requirePermission("categories:read"),
+  (req, res) => categoryController.listCategories(req, res)
 );
 
-router.get("/:id", validateParams(getCategoryParamsSchema), (req, res) =>
-  categoryController.getCategory(req, res)
+router.get(
+  "/:id",
+  validateParams(getCategoryParamsSchema),
+  requirePermission("categories:read"),
+  (req, res) => categoryController.getCategory(req, res)
 );
 
-router.post("/", validate(createCategorySchema), (req, res) =>
-  categoryController.createCategory(req, res)
+router.post(
+  "/",
+  validate(createCategorySchema),
+  requirePermission("categories:write"),
+  (req, res) => categoryController.createCategory(req, res)
 );
 
 router.put(
   "/:id",
   validateParams(getCategoryParamsSchema),
   validate(updateCategorySchema),
+  requirePermission("categories:write"),
   (req, res) => categoryController.updateCategory(req, res)
 );
 
-router.delete("/:id", validateParams(getCategoryParamsSchema), (req, res) =>
-  categoryController.deleteCategory(req, res)
+router.delete(
+  "/:id",
+  validateParams(getCategoryParamsSchema),
+  requirePermission("categories:delete"),
+  (req, res) => categoryController.deleteCategory(req, res)
 );
 
-router.post("/:id/restore", validateParams(getCategoryParamsSchema), (req, res) =>
-  categoryController.restoreCategory(req, res)
+router.post(
+  "/:id/restore",
+  validateParams(getCategoryParamsSchema),
+  requirePermission("categories:delete"),
+  (req, res) => categoryController.restoreCategory(req, res)
 );
 
 export default router;
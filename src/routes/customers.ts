@@ -0,0 +1,69 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import {
+  validate,
+  validateQuery,
+  validateParams,
+} from "../middleware/validate";
+import {
+  createCustomerSchema,
+  updateCustomerSchema,
+  getCustomerParamsSchema,
+  listCustomersQuerySchema,
+  getCustomerBookingsQuerySchema,
+  getStoreCreditQuerySchema,
+} from "../validators/customer.validator";
+import { CustomerController } from "../controllers/customer.controller";
+
+const router = Router();
+const customerController = new CustomerController();
+
+router.use(authMiddleware);
+
+router.get(
+  "/",
+  validateQuery(listCustomersQuerySchema),
+  requirePermission("customers:read"),
+  (req, res) => customerController.listCustomers(req, res)
+);
+
+router.post(
+  "/",
+  validate(createCustomerSchema),
+  requirePermission("customers:write"),
+  (req, res) => customerController.createCustomer(req, res)
+);
+
+router.get(
+  "/:id",
+  validateParams(getCustomerParamsSchema),
+  requirePermission("customers:read"),
+  (req, res) => customerController.getCustomer(req, res)
+);
+
+router.put(
+  "/:id",
+  validateParams(getCustomerParamsSchema),
+  validate(updateCustomerSchema),
+  requirePermission("customers:write"),
+  (req, res) => customerController.updateCustomer(req, res)
+);
+
+router.get(
+  "/:id/bookings",
+  validateParams(getCustomerParamsSchema),
+  validateQuery(getCustomerBookingsQuerySchema),
+  requirePermission("customers:read"),
+  (req, res) => customerController.getCustomerBookings(req, res)
+);
+
+router.get(
+  "/:id/store-credit",
+  validateParams(getCustomerParamsSchema),
+  validateQuery(getStoreCreditQuerySchema),
+  requirePermission("customers:read"),
+  (req, res) => customerController.getStoreCredit(req, res)
+);
+
+export default router;
@@ -1,9 +1,11 @@
 import { Router } from "express";
 import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
 import { validateQuery } from "../middleware/validate";
 import {
   dashboardStatsQuerySchema,
   dashboardBookingsQuerySchema,
+  dashboardPaymentsQuerySchema,
   dashboardRecentBookingsQuerySchema,
   dashboardCustomerPickupsQuerySchema,
   dashboardCustomerReturnsQuerySchema,
@@ -14,6 +16,7 @@ const router = Router();
 const dashboardController = new DashboardController();
 
 router.use(authMiddleware);
+router.use(requirePermission("dashboard:view"));
 
 router.get("/stats", validateQuery(dashboardStatsQuerySchema), (req, res) =>
   dashboardController.getStats(req, res)
@@ -25,6 +28,12 @@ router.get(
   (req, res) => dashboardController.getBookings(req, res)
 );
 
+router.get(
+  "/payments-by-method",
+  validateQuery(dashboardPaymentsQuerySchema),
+  (req, res) => dashboardController.getPaymentsByMethod(req, res)
+);
+
 router.get(
   "/recent-bookings",
   validateQuery(dashboardRecentBookingsQuerySchema),
@@ -43,6 +52,18 @@ router.get(
   (req, res) => dashboardController.getCustomerReturns(req, res)
 );
 
+router.get("/overdue", (req, res) =>
+  dashboardController.getOverdueBookings(req, res)
+);
+
+router.get("/maintenance", (req, res) =>
+  dashboardController.getMaintenanceItems(req, res)
+);
+
+router.get("/waitlist", (req, res) =>
+  dashboardController.getNotifiableWaitlist(req, res)
+);
+
 router.get("/top-products", (req, res) =>
   dashboardController.getTopProducts(req, res)
 );
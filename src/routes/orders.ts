@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
 import {
   validate,
   validateQuery,
@@ -12,6 +13,12 @@ import {
   cancelOrderSchema,
   getOrderParamsSchema,
   listOrdersQuerySchema,
+  invoiceQuerySchema,
+  orderBookingParamsSchema,
+  moveBookingSchema,
+  mergeOrdersSchema,
+  orderPaymentSchema,
+  orderReceiptParamsSchema,
 } from "../validators/order.validator";
 import { OrderController } from "../controllers/order.controller";
 
@@ -20,22 +27,36 @@ const orderController = new OrderController();
 
 router.use(authMiddleware);
 
-router.get("/", validateQuery(listOrdersQuerySchema), (req, res) =>
-  orderController.listOrders(req, res)
+router.get(
+  "/",
+  validateQuery(listOrdersQuerySchema),
+  requirePermission("orders:read"),
+  (req, res) => orderController.listOrders(req, res)
 );
 
-router.post("/", validate(createOrderSchema), (req, res) =>
-  orderController.createOrder(req, res)
+router.post(
+  "/",
+  validate(createOrderSchema),
+  requirePermission("orders:write", (req) =>
+    req.body.bookings?.some((b: any) => b.advanceAmount > 0)
+      ? "payments:collect"
+      : null
+  ),
+  (req, res) => orderController.createOrder(req, res)
 );
 
-router.get("/:id", validateParams(getOrderParamsSchema), (req, res) =>
-  orderController.getOrder(req, res)
+router.get(
+  "/:id",
+  validateParams(getOrderParamsSchema),
+  requirePermission("orders:read"),
+  (req, res) => orderController.getOrder(req, res)
 );
 
 router.put(
   "/:id",
   validateParams(getOrderParamsSchema),
   validate(updateOrderSchema),
+  requirePermission("orders:write"),
   (req, res) => orderController.updateOrder(req, res)
 );
 
@@ -43,12 +64,48 @@ router.post(
   "/:id/bookings",
   validateParams(getOrderParamsSchema),
   validate(addBookingToOrderSchema),
+  requirePermission("orders:write", (req) =>
+    req.body.advanceAmount > 0 ? "payments:collect" : null
+  ),
   (req, res) => orderController.addBooking(req, res)
 );
 
+router.post(
+  "/:id/bookings/:bookingId/move",
+  validateParams(orderBookingParamsSchema),
+  validate(moveBookingSchema),
+  requirePermission("orders:write"),
+  (req, res) => orderController.moveBooking(req, res)
+);
+
+router.post(
+  "/:id/merge",
+  validateParams(getOrderParamsSchema),
+  validate(mergeOrdersSchema),
+  requirePermission("orders:write"),
+  (req, res) => orderController.mergeOrders(req, res)
+);
+
+router.post(
+  "/:id/payments",
+  validateParams(getOrderParamsSchema),
+  validate(orderPaymentSchema),
+  requirePermission("payments:collect"),
+  (req, res) => orderController.addPayment(req, res)
+);
+
+router.get(
+  "/:id/receipts/:receiptNumber",
+  validateParams(orderReceiptParamsSchema),
+  validateQuery(invoiceQuerySchema),
+  requirePermission("orders:read"),
+  (req, res) => orderController.getPaymentReceipt(req, res)
+);
+
 router.get(
   "/:id/preview-cancellation-refund",
   validateParams(getOrderParamsSchema),
+  requirePermission("orders:read"),
   (req, res) => orderController.previewCancellationRefund(req, res)
 );
 
@@ -56,11 +113,19 @@ router.post(
   "/:id/cancel",
   validateParams(getOrderParamsSchema),
   validate(cancelOrderSchema),
+  // Without a refundAmount the policy-suggested refund is paid out
+  requirePermission("orders:cancel", (req) =>
+    req.body.refundAmount === 0 ? null : "payments:refund"
+  ),
   (req, res) => orderController.cancelOrder(req, res)
 );
 
-router.get("/:id/invoice", validateParams(getOrderParamsSchema), (req, res) =>
-  orderController.generateInvoice(req, res)
+router.get(
+  "/:id/invoice",
+  validateParams(getOrderParamsSchema),
+  validateQuery(invoiceQuerySchema),
+  requirePermission("orders:read"),
+  (req, res) => orderController.generateInvoice(req, res)
 );
 
 export default router;
@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { requireRole } from "../middleware/permissions";
+import { validate } from "../middleware/validate";
+import { updateOrganizationSettingsSchema } from "../validators/organization.validator";
+import { OrganizationController } from "../controllers/organization.controller";
+
+const router = Router();
+const organizationController = new OrganizationController();
+
+router.use(authMiddleware);
+
+router.get("/", (req, res) => organizationController.getOrganization(req, res));
+
+router.get("/permissions", (req, res) =>
+  organizationController.getPermissionMatrix(req, res)
+);
+
+router.put(
+  "/settings",
+  requireRole("admin"),
+  validate(updateOrganizationSettingsSchema),
+  (req, res) => organizationController.updateSettings(req, res)
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
 import {
   validate,
   validateQuery,
@@ -13,26 +14,41 @@ import {
   getProductBookingsQuerySchema,
   bulkUpdateProductOrderSchema,
 } from "../validators/product.validator";
+import {
+  createMaintenanceBlockSchema,
+  updateMaintenanceBlockSchema,
+  maintenanceBlockParamsSchema,
+  listMaintenanceBlocksQuerySchema,
+} from "../validators/maintenance.validator";
 import { ProductController } from "../controllers/product.controller";
+import { MaintenanceController } from "../controllers/maintenance.controller";
 import { upload } from "../middleware/upload";
 
 const router = Router();
 const productController = new ProductController();
+const maintenanceController = new MaintenanceController();
 
 router.use(authMiddleware);
 
-router.get("/", validateQuery(listProductsQuerySchema), (req, res) =>
-  productController.listProducts(req, res)
+router.get(
+  "/",
+  validateQuery(listProductsQuerySchema),
+  requirePermission("products:read"),
+  (req, res) => productController.listProducts(req, res)
 );
 
-router.get("/:id", validateParams(getProductParamsSchema), (req, res) =>
-  productController.getProduct(req, res)
+router.get(
+  "/:id",
+  validateParams(getProductParamsSchema),
+  requirePermission("products:read"),
+  (req, res) => productController.getProduct(req, res)
 );
 
 router.post(
   "/",
   upload.single("image"),
   validate(createProductSchema),
+  requirePermission("products:write"),
   (req, res) => productController.createProduct(req, res)
 );
 
@@ -41,16 +57,21 @@ router.put(
   validateParams(getProductParamsSchema),
   upload.single("image"),
   validate(updateProductSchema),
+  requirePermission("products:write"),
   (req, res) => productController.updateProduct(req, res)
 );
 
-router.delete("/:id", validateParams(getProductParamsSchema), (req, res) =>
-  productController.deleteProduct(req, res)
+router.delete(
+  "/:id",
+  validateParams(getProductParamsSchema),
+  requirePermission("products:delete"),
+  (req, res) => productController.deleteProduct(req, res)
 );
 
 router.post(
   "/:id/restore",
   validateParams(getProductParamsSchema),
+  requirePermission("products:delete"),
   (req, res) => productController.restoreProduct(req, res)
 );
 
@@ -58,12 +79,52 @@ router.get(
   "/:id/bookings",
   validateParams(getProductParamsSchema),
   validateQuery(getProductBookingsQuerySchema),
+  requirePermission("products:read"),
   (req, res) => productController.getProductBookings(req, res)
 );
 
+router.get(
+  "/:id/maintenance",
+  validateParams(getProductParamsSchema),
+  validateQuery(listMaintenanceBlocksQuerySchema),
+  requirePermission("products:read"),
+  (req, res) => maintenanceController.listBlocks(req, res)
+);
+
+router.post(
+  "/:id/maintenance",
+  validateParams(getProductParamsSchema),
+  validate(createMaintenanceBlockSchema),
+  requirePermission("products:write"),
+  (req, res) => maintenanceController.createBlock(req, res)
+);
+
+router.get(
+  "/:id/maintenance/:blockId",
+  validateParams(maintenanceBlockParamsSchema),
+  requirePermission("products:read"),
+  (req, res) => maintenanceController.getBlock(req, res)
+);
+
+router.put(
+  "/:id/maintenance/:blockId",
+  validateParams(maintenanceBlockParamsSchema),
+  validate(updateMaintenanceBlockSchema),
+  requirePermission("products:write"),
+  (req, res) => maintenanceController.updateBlock(req, res)
+);
+
+router.delete(
+  "/:id/maintenance/:blockId",
+  validateParams(maintenanceBlockParamsSchema),
+  requirePermission("products:write"),
+  (req, res) => maintenanceController.deleteBlock(req, res)
+);
+
 router.post(
   "/bulk-update-order",
   validate(bulkUpdateProductOrderSchema),
+  requirePermission("products:reorder"),
   (req, res) => productController.bulkUpdateProductOrder(req, res)
 );
 
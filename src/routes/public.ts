@@ -1,4 +1,14 @@
 import { Router } from "express";
+import {
+  validate,
+  validateQuery,
+  validateParams,
+} from "../middleware/validate";
+import {
+  publicProductParamsSchema,
+  productAvailabilityQuerySchema,
+  createBookingRequestSchema,
+} from "../validators/public.validator";
 import { PublicController } from "../controllers/public.controller";
 
 const router = Router();
@@ -7,6 +17,17 @@ const publicController = new PublicController();
 // Public routes - no authentication required
 router.get("/org", (req, res) => publicController.getOrg(req, res));
 router.get("/products", (req, res) => publicController.getProducts(req, res));
+router.get(
+  "/products/:id/availability",
+  validateParams(publicProductParamsSchema),
+  validateQuery(productAvailabilityQuerySchema),
+  (req, res) => publicController.getProductAvailability(req, res)
+);
+router.post(
+  "/booking-requests",
+  validate(createBookingRequestSchema),
+  (req, res) => publicController.submitBookingRequest(req, res)
+);
 router.get("/categories", (req, res) =>
   publicController.getCategories(req, res)
 );
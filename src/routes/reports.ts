@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import { validateQuery } from "../middleware/validate";
+import { gstSummaryQuerySchema } from "../validators/report.validator";
+import { ReportController } from "../controllers/report.controller";
+
+const router = Router();
+const reportController = new ReportController();
+
+router.use(authMiddleware);
+
+router.get(
+  "/gst-summary",
+  validateQuery(gstSummaryQuerySchema),
+  requirePermission("reports:tax"),
+  (req, res) => reportController.getGstSummary(req, res)
+);
+
+export default router;
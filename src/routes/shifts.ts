@@ -0,0 +1,55 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import {
+  validate,
+  validateQuery,
+  validateParams,
+} from "../middleware/validate";
+import {
+  openShiftSchema,
+  closeShiftSchema,
+  getShiftParamsSchema,
+  shiftReportQuerySchema,
+} from "../validators/shift.validator";
+import { ShiftController } from "../controllers/shift.controller";
+
+const router = Router();
+const shiftController = new ShiftController();
+
+router.use(authMiddleware);
+
+router.post(
+  "/open",
+  validate(openShiftSchema),
+  requirePermission("shifts:operate"),
+  (req, res) => shiftController.openShift(req, res)
+);
+
+router.get("/current", requirePermission("shifts:operate"), (req, res) =>
+  shiftController.getCurrentShift(req, res)
+);
+
+router.get(
+  "/report",
+  validateQuery(shiftReportQuerySchema),
+  requirePermission("shifts:report"),
+  (req, res) => shiftController.getShiftReport(req, res)
+);
+
+router.get(
+  "/:id",
+  validateParams(getShiftParamsSchema),
+  requirePermission("shifts:report"),
+  (req, res) => shiftController.getShift(req, res)
+);
+
+router.post(
+  "/:id/close",
+  validateParams(getShiftParamsSchema),
+  validate(closeShiftSchema),
+  requirePermission("shifts:operate"),
+  (req, res) => shiftController.closeShift(req, res)
+);
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { requireRole } from "../middleware/permissions";
+import {
+  validate,
+  validateQuery,
+  validateParams,
+} from "../middleware/validate";
+import {
+  createUserSchema,
+  inviteUserSchema,
+  updateUserSchema,
+  resetPasswordSchema,
+  changeRoleSchema,
+  getUserParamsSchema,
+  listUsersQuerySchema,
+} from "../validators/user.validator";
+import { UserController } from "../controllers/user.controller";
+
+const router = Router();
+const userController = new UserController();
+
+router.use(authMiddleware);
+router.use(requireRole("admin"));
+
+router.get("/", validateQuery(listUsersQuerySchema), (req, res) =>
+  userController.listUsers(req, res)
+);
+
+router.post("/", validate(createUserSchema), (req, res) =>
+  userController.createUser(req, res)
+);
+
+// Specific routes must come before parameterized routes
+router.post("/invite", validate(inviteUserSchema), (req, res) =>
+  userController.inviteUser(req, res)
+);
+
+router.get("/:id", validateParams(getUserParamsSchema), (req, res) =>
+  userController.getUser(req, res)
+);
+
+router.put(
+  "/:id",
+  validateParams(getUserParamsSchema),
+  validate(updateUserSchema),
+  (req, res) => userController.updateUser(req, res)
+);
+
+router.post(
+  "/:id/resend-invite",
+  validateParams(getUserParamsSchema),
+  (req, res) => userController.resendInvite(req, res)
+);
+
+router.post(
+  "/:id/deactivate",
+  validateParams(getUserParamsSchema),
+  (req, res) => userController.deactivateUser(req, res)
+);
+
+router.post(
+  "/:id/reactivate",
+  validateParams(getUserParamsSchema),
+  (req, res) => userController.reactivateUser(req, res)
+);
+
+router.post(
+  "/:id/reset-password",
+  validateParams(getUserParamsSchema),
+  validate(resetPasswordSchema),
+  (req, res) => userController.resetPassword(req, res)
+);
+
+router.put(
+  "/:id/role",
+  validateParams(getUserParamsSchema),
+  validate(changeRoleSchema),
+  (req, res) => userController.changeRole(req, res)
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import {
+  validate,
+  validateQuery,
+  validateParams,
+} from "../middleware/validate";
+import {
+  createWaitlistEntrySchema,
+  updateWaitlistEntrySchema,
+  getWaitlistEntryParamsSchema,
+  listWaitlistQuerySchema,
+} from "../validators/waitlist.validator";
+import { WaitlistController } from "../controllers/waitlist.controller";
+
+const router = Router();
+const waitlistController = new WaitlistController();
+
+router.use(authMiddleware);
+
+router.get(
+  "/",
+  validateQuery(listWaitlistQuerySchema),
+  requirePermission("bookings:read"),
+  (req, res) => waitlistController.listEntries(req, res)
+);
+
+router.post(
+  "/",
+  validate(createWaitlistEntrySchema),
+  requirePermission("bookings:write"),
+  (req, res) => waitlistController.createEntry(req, res)
+);
+
+router.get(
+  "/:id",
+  validateParams(getWaitlistEntryParamsSchema),
+  requirePermission("bookings:read"),
+  (req, res) => waitlistController.getEntry(req, res)
+);
+
+router.put(
+  "/:id",
+  validateParams(getWaitlistEntryParamsSchema),
+  validate(updateWaitlistEntrySchema),
+  requirePermission("bookings:write"),
+  (req, res) => waitlistController.updateEntry(req, res)
+);
+
+export default router;
@@ -0,0 +1,52 @@
+/**
+ * One-off migration: give every booking payment entry a stable _id.
+ *
+ * Payment entries used to be stored without _id. Receipts (and anything else
+ * that references a single payment) need a stable identifier, so assign one
+ * to every legacy entry that lacks it.
+ *
+ * Safe to re-run: only entries without _id are touched.
+ *
+ * Usage: npm run migrate:payment-ids
+ */
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { Booking } from "../models/Booking";
+import { logError, logInfo } from "../utils/logger";
+
+dotenv.config();
+
+const MONGODB_URI =
+  process.env.MONGODB_URI || "mongodb://localhost:27017/4dcholi";
+
+async function backfillPaymentIds(): Promise<void> {
+  await mongoose.connect(MONGODB_URI);
+  logInfo("Connected to MongoDB");
+
+  let updatedBookings = 0;
+
+  // Use the raw collection so mongoose doesn't invent ids on hydration
+  const cursor = Booking.collection.find({
+    payments: { $elemMatch: { _id: { $exists: false } } },
+  });
+
+  for await (const booking of cursor) {
+    const payments = (booking.payments || []).map((payment: any) =>
+      payment._id ? payment : { _id: new mongoose.Types.ObjectId(), ...payment }
+    );
+    await Booking.collection.updateOne(
+      { _id: booking._id },
+      { $set: { payments } }
+    );
+    updatedBookings++;
+  }
+
+  logInfo(`Payment id backfill complete: ${updatedBookings} bookings updated`);
+}
+
+backfillPaymentIds()
+  .catch((error) => {
+    logError("Payment id backfill failed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
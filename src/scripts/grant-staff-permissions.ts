@@ -0,0 +1,52 @@
+/**
+ * One-off migration: grant staff the permissions added to the defaults after
+ * organizations started storing their own staff matrix.
+ *
+ * Organizations with a stored staffPermissions list never pick up new default
+ * permissions, so staff there cannot e.g. open a cash drawer shift. This adds
+ * the new defaults to every stored list; orgs without a list already use them.
+ *
+ * Run once after deploying. Re-running is harmless, but it would re-grant a
+ * permission an admin has since revoked.
+ *
+ * Usage: npm run migrate:staff-permissions
+ */
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { Organization } from "../models/Organization";
+import { Permission } from "../config/permissions";
+import { logError, logInfo } from "../utils/logger";
+
+dotenv.config();
+
+const MONGODB_URI =
+  process.env.MONGODB_URI || "mongodb://localhost:27017/4dcholi";
+
+// Default staff permissions introduced after the permission matrix shipped
+const NEW_STAFF_PERMISSIONS: Permission[] = ["shifts:operate"];
+
+async function grantStaffPermissions(): Promise<void> {
+  await mongoose.connect(MONGODB_URI);
+  logInfo("Connected to MongoDB");
+
+  const result = await Organization.updateMany(
+    {
+      staffPermissions: {
+        $type: "array",
+        $not: { $all: NEW_STAFF_PERMISSIONS },
+      },
+    },
+    { $addToSet: { staffPermissions: { $each: NEW_STAFF_PERMISSIONS } } }
+  );
+
+  logInfo(
+    `Staff permission migration complete: ${result.modifiedCount} organizations updated`
+  );
+}
+
+grantStaffPermissions()
+  .catch((error) => {
+    logError("Staff permission migration failed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,88 @@
+/**
+ * One-off migration: create Customer records from the free-text customer
+ * fields on existing orders and link each order to its customer.
+ *
+ * - Orders with a phone number are deduplicated by normalized (E.164) phone
+ * - Phones that cannot be normalized are kept as entered and logged for review
+ * - Orders without a phone are deduplicated by case-insensitive name
+ * - The most recent order's name wins as the customer's name
+ *
+ * Safe to re-run: orders that already have a customerId are skipped.
+ *
+ * Usage: npm run migrate:customers
+ */
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { Order } from "../models/Order";
+import { Customer } from "../models/Customer";
+import { normalizePhoneNumber } from "../utils/phone";
+import { logError, logInfo, logWarn } from "../utils/logger";
+
+dotenv.config();
+
+const MONGODB_URI =
+  process.env.MONGODB_URI || "mongodb://localhost:27017/4dcholi";
+
+async function migrateCustomers(): Promise<void> {
+  await mongoose.connect(MONGODB_URI);
+  logInfo("Connected to MongoDB");
+
+  // Make sure the unique (orgId, phone) index exists before inserting
+  await Customer.syncIndexes();
+
+  let linkedOrders = 0;
+  let createdCustomers = 0;
+
+  // Oldest first so later orders overwrite the customer name
+  const cursor = Order.find({ customerId: { $exists: false } })
+    .sort({ createdAt: 1 })
+    .cursor();
+
+  for await (const order of cursor) {
+    const name = (order.customerName || "").trim() || "Unknown";
+    const rawPhone = (order.customerPhone || "").trim() || null;
+    let phone = rawPhone ? normalizePhoneNumber(rawPhone) : null;
+    if (rawPhone && !phone) {
+      logWarn(
+        `Order ${order._id}: could not normalize phone "${rawPhone}", keeping it as entered`
+      );
+      phone = rawPhone;
+    }
+
+    let customer = phone
+      ? await Customer.findOne({ orgId: order.orgId, phone })
+      : await Customer.findOne({
+          orgId: order.orgId,
+          phone: { $exists: false },
+          name,
+        }).collation({ locale: "en", strength: 2 });
+
+    if (!customer) {
+      customer = await Customer.create({
+        orgId: order.orgId,
+        name,
+        phone: phone || undefined,
+      });
+      createdCustomers++;
+    } else if (customer.name !== name) {
+      customer.name = name;
+      await customer.save();
+    }
+
+    order.customerId = customer._id;
+    order.customerPhone = phone || undefined;
+    await order.save();
+    linkedOrders++;
+  }
+
+  logInfo(
+    `Customer migration complete: ${createdCustomers} customers created, ${linkedOrders} orders linked`
+  );
+}
+
+migrateCustomers()
+  .catch((error) => {
+    logError("Customer migration failed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
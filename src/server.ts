@@ -10,6 +10,13 @@ import "./models/Category";
 import "./models/Product";
 import "./models/Order";
 import "./models/Booking";
+import "./models/Customer";
+import "./models/RefreshToken";
+import "./models/BookingRequest";
+import "./models/MaintenanceBlock";
+import "./models/WaitlistEntry";
+import "./models/Shift";
+import "./models/StoreCreditEntry";
 
 import authRoutes from "./routes/auth";
 import categoryRoutes from "./routes/categories";
@@ -18,8 +25,16 @@ import orderRoutes from "./routes/orders";
 import bookingRoutes from "./routes/bookings";
 import dashboardRoutes from "./routes/dashboard";
 import publicRoutes from "./routes/public";
+import organizationRoutes from "./routes/organization";
+import customerRoutes from "./routes/customers";
+import userRoutes from "./routes/users";
+import bookingRequestRoutes from "./routes/booking-requests";
+import waitlistRoutes from "./routes/waitlist";
+import shiftRoutes from "./routes/shifts";
+import reportRoutes from "./routes/reports";
 
 import { createDatabaseIndexes } from "./config/database-indexes";
+import { startHoldSweeper } from "./jobs/hold-sweeper";
 import { logError, logInfo } from "./utils/logger";
 
 dotenv.config();
@@ -40,6 +55,7 @@ mongoose
     logInfo("Connected to MongoDB");
     // Create database indexes for optimal query performance
     await createDatabaseIndexes();
+    startHoldSweeper();
   })
   .catch((err) => {
     logError("MongoDB connection error", err);
@@ -57,6 +73,13 @@ app.use("/api/orders", orderRoutes);
 app.use("/api/bookings", bookingRoutes);
 app.use("/api/dashboard", dashboardRoutes);
 app.use("/api/public", publicRoutes);
+app.use("/api/organization", organizationRoutes);
+app.use("/api/customers", customerRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/booking-requests", bookingRequestRoutes);
+app.use("/api/waitlist", waitlistRoutes);
+app.use("/api/shifts", shiftRoutes);
+app.use("/api/reports", reportRoutes);
 
 // Global error handler middleware - catches all errors
 app.use(
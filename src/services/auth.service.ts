@@ -1,18 +1,31 @@
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { Request } from "express";
-import { User } from "../models/User";
+import { User, IUser } from "../models/User";
 import { Organization } from "../models/Organization";
+import { RefreshToken } from "../models/RefreshToken";
 import { extractSubdomain } from "../utils/subdomain";
+import { getRolePermissions } from "../config/permissions";
+import { generateToken, hashPassword, hashToken } from "../utils/tokens";
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = 30;
 
 export interface LoginCredentials {
   email?: string;
   phoneNumber?: string;
   password: string;
+  deviceName?: string;
+}
+
+export interface SessionTokens {
+  token: string; // Short-lived access token
+  expiresIn: number; // Access token lifetime in seconds
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
 }
 
-export interface AuthResult {
-  token: string;
+export interface AuthResult extends SessionTokens {
   user: {
     id: string;
     name: string;
@@ -27,7 +40,7 @@ export class AuthService {
     req: Request,
     credentials: LoginCredentials
   ): Promise<AuthResult> {
-    const { email, phoneNumber, password } = credentials;
+    const { email, phoneNumber, password, deviceName } = credentials;
 
     // Extract subdomain from request
     const subdomain = extractSubdomain(req);
@@ -42,8 +55,6 @@ export class AuthService {
       throw new Error("Invalid credentials");
     }
 
-    const orgIdStr = String(organization._id);
-
     // Determine which identifier was provided
     // Note: phoneNumber is already normalized by Joi validator
     let user;
@@ -64,7 +75,8 @@ export class AuthService {
       });
     }
 
-    if (!user) {
+    // Invited users cannot log in until they set a password
+    if (!user || !user.passwordHash) {
       throw new Error("Invalid credentials");
     }
 
@@ -74,20 +86,7 @@ export class AuthService {
       throw new Error("Invalid credentials");
     }
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error("JWT secret not configured");
-    }
-
-    const token = jwt.sign(
-      {
-        userId: user._id.toString(),
-        orgId: orgIdStr,
-        role: user.role,
-      },
-      secret,
-      { expiresIn: "8h" }
-    );
+    const tokens = await this.createSession(user, req, deviceName);
 
     const userWithOrg = await User.findById(user._id).populate("orgId");
     if (!userWithOrg) {
@@ -95,7 +94,7 @@ export class AuthService {
     }
 
     return {
-      token,
+      ...tokens,
       user: {
         id: userWithOrg._id.toString(),
         name: userWithOrg.name,
@@ -115,12 +114,278 @@ export class AuthService {
       throw new Error("User not found");
     }
 
+    const organization = user.orgId as any;
+
+    return {
+      id: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      orgId: user.orgId,
+      permissions: getRolePermissions(
+        user.role,
+        organization?.staffPermissions
+      ),
+    };
+  }
+
+  /**
+   * Self-service password change for the logged-in user
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string
+  ) {
+    const user = await User.findOne({ _id: userId, isActive: true });
+    if (!user || !user.passwordHash) {
+      throw new Error("User not found");
+    }
+
+    const isMatch = await bcrypt.compare(currentPassword, user.passwordHash);
+    if (!isMatch) {
+      throw new Error("Current password is incorrect");
+    }
+
+    if (currentPassword === newPassword) {
+      throw new Error("New password must be different from current password");
+    }
+
+    user.passwordHash = await hashPassword(newPassword);
+    user.passwordChangedAt = new Date();
+    await user.save();
+
+    // Sign out every other device; the current session stays logged in
+    await RefreshToken.updateMany(
+      {
+        userId: user._id,
+        revokedAt: { $exists: false },
+        ...(currentSessionId ? { familyId: { $ne: currentSessionId } } : {}),
+      },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Set the password for an invited user and activate their login
+   */
+  async acceptInvite(token: string, password: string) {
+    const user = await User.findOne({
+      inviteTokenHash: hashToken(token),
+      isActive: true,
+    });
+    if (!user || !user.inviteExpiresAt || user.inviteExpiresAt < new Date()) {
+      throw new Error("Invalid or expired invite");
+    }
+
+    user.passwordHash = await hashPassword(password);
+    user.passwordChangedAt = new Date();
+    user.inviteTokenHash = undefined;
+    user.inviteExpiresAt = undefined;
+    await user.save();
+
     return {
       id: user._id.toString(),
       name: user.name,
       email: user.email,
       role: user.role,
+    };
+  }
+
+  /**
+   * Sign a short-lived access token; sid ties it to its refresh token family
+   */
+  private signAccessToken(user: IUser, sessionId: string): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error("JWT secret not configured");
+    }
+
+    return jwt.sign(
+      {
+        userId: user._id.toString(),
+        orgId: String(user.orgId),
+        role: user.role,
+        sid: sessionId,
+      },
+      secret,
+      { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+    );
+  }
+
+  private async issueRefreshToken(
+    user: IUser,
+    familyId: string,
+    device: { deviceName?: string; userAgent?: string; ipAddress?: string }
+  ) {
+    const refreshToken = generateToken(48);
+    const refreshTokenExpiresAt = new Date(
+      Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    await RefreshToken.create({
+      userId: user._id,
       orgId: user.orgId,
+      tokenHash: hashToken(refreshToken),
+      familyId,
+      deviceName: device.deviceName,
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      expiresAt: refreshTokenExpiresAt,
+    });
+
+    return { refreshToken, refreshTokenExpiresAt };
+  }
+
+  /**
+   * Start a new session (one refresh token family per login/device)
+   */
+  private async createSession(
+    user: IUser,
+    req: Request,
+    deviceName?: string
+  ): Promise<SessionTokens> {
+    const familyId = generateToken(16);
+    const { refreshToken, refreshTokenExpiresAt } =
+      await this.issueRefreshToken(user, familyId, {
+        deviceName,
+        userAgent: req.get("user-agent"),
+        ipAddress: req.ip,
+      });
+
+    return {
+      token: this.signAccessToken(user, familyId),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      refreshToken,
+      refreshTokenExpiresAt,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a rotated refresh token
+   * Presenting an already-rotated token revokes the whole session
+   */
+  async refreshSession(
+    req: Request,
+    refreshToken: string
+  ): Promise<SessionTokens> {
+    const tokenHash = hashToken(refreshToken);
+    const now = new Date();
+
+    // Claim the token atomically so concurrent refreshes cannot both rotate it
+    const existing = await RefreshToken.findOneAndUpdate(
+      { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+      { $set: { revokedAt: now, lastUsedAt: now } }
+    );
+
+    if (!existing) {
+      const stale = await RefreshToken.findOne({ tokenHash });
+      if (stale?.replacedByHash) {
+        // Reuse of a rotated token - assume it was stolen and end the session
+        await this.revokeFamily(stale.familyId);
+      }
+      throw new Error("Invalid refresh token");
+    }
+
+    const user = await User.findOne({ _id: existing.userId, isActive: true });
+    if (!user) {
+      await this.revokeFamily(existing.familyId);
+      throw new Error("Invalid refresh token");
+    }
+
+    const { refreshToken: nextToken, refreshTokenExpiresAt } =
+      await this.issueRefreshToken(user, existing.familyId, {
+        deviceName: existing.deviceName,
+        userAgent: req.get("user-agent") || existing.userAgent,
+        ipAddress: req.ip || existing.ipAddress,
+      });
+
+    await RefreshToken.updateOne(
+      { _id: existing._id },
+      { $set: { replacedByHash: hashToken(nextToken) } }
+    );
+
+    return {
+      token: this.signAccessToken(user, existing.familyId),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      refreshToken: nextToken,
+      refreshTokenExpiresAt,
     };
   }
+
+  private async revokeFamily(familyId: string) {
+    await RefreshToken.updateMany(
+      { familyId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Log out the current session
+   * The access token stays valid until it expires (at most 15 minutes)
+   */
+  async logout(userId: string, sessionId?: string, refreshToken?: string) {
+    let familyId = sessionId;
+
+    if (!familyId && refreshToken) {
+      const token = await RefreshToken.findOne({
+        tokenHash: hashToken(refreshToken),
+        userId,
+      });
+      familyId = token?.familyId;
+    }
+
+    if (familyId) {
+      await RefreshToken.updateMany(
+        { userId, familyId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+      );
+    }
+  }
+
+  /**
+   * Revoke every session of a user and invalidate outstanding access tokens
+   * Used for "log out everywhere", deactivation and admin password resets
+   */
+  async revokeAllSessions(userId: string) {
+    const now = new Date();
+    await Promise.all([
+      RefreshToken.updateMany(
+        { userId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: now } }
+      ),
+      User.updateOne({ _id: userId }, { $set: { tokensValidAfter: now } }),
+    ]);
+  }
+
+  async listSessions(userId: string, currentSessionId?: string) {
+    const tokens = await RefreshToken.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    return tokens.map((t) => ({
+      id: t.familyId,
+      deviceName: t.deviceName,
+      userAgent: t.userAgent,
+      ipAddress: t.ipAddress,
+      lastUsedAt: t.lastUsedAt || t.createdAt,
+      expiresAt: t.expiresAt,
+      isCurrent: t.familyId === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    const result = await RefreshToken.updateMany(
+      { userId, familyId: sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    if (result.modifiedCount === 0) {
+      throw new Error("Session not found");
+    }
+  }
 }
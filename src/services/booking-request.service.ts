@@ -0,0 +1,244 @@
+import {
+  BookingRequest,
+  BookingRequestStatus,
+} from "../models/BookingRequest";
+import { Product } from "../models/Product";
+import { PaymentMethod } from "../models/Booking";
+import { PaginationHelper, PaginatedResponse } from "../types/pagination";
+import {
+  findBookingConflicts,
+  hasAnyConflict,
+} from "../utils/booking-conflicts";
+import { OrderService } from "./order.service";
+
+const orderService = new OrderService();
+
+export interface CreateBookingRequestData {
+  orgId: string;
+  productId: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  fromDateTime: Date;
+  toDateTime: Date;
+  message?: string;
+}
+
+export interface AcceptBookingRequestData {
+  decidedBy: string;
+  decidedRent?: number; // Defaults to the product's default rent
+  advanceAmount?: number;
+  advanceMethod?: PaymentMethod;
+  advanceReference?: string;
+  overrideConflicts?: boolean;
+}
+
+export interface ListBookingRequestsFilters {
+  orgId: string;
+  status?: BookingRequestStatus;
+  page?: number;
+  limit?: number;
+}
+
+export class BookingRequestService {
+  /**
+   * Store a booking request submitted from the public storefront
+   */
+  async createRequest(data: CreateBookingRequestData) {
+    const { orgId, productId, fromDateTime, toDateTime } = data;
+
+    const product = await Product.findOne({
+      _id: productId,
+      orgId,
+      isActive: { $ne: false },
+    });
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    // Availability is public already, so this reveals nothing new
+    const conflicts = await findBookingConflicts(
+      orgId,
+      productId,
+      new Date(fromDateTime),
+      new Date(toDateTime)
+    );
+    if (hasAnyConflict(conflicts)) {
+      throw new Error("Product is not available for the selected dates");
+    }
+
+    return await BookingRequest.create({
+      orgId,
+      productId,
+      customerName: data.customerName,
+      customerPhone: data.customerPhone,
+      customerEmail: data.customerEmail || undefined,
+      fromDateTime,
+      toDateTime,
+      message: data.message || undefined,
+      status: "PENDING",
+    });
+  }
+
+  async listRequests(
+    filters: ListBookingRequestsFilters
+  ): Promise<PaginatedResponse<any>> {
+    const { orgId, status, page: rawPage, limit: rawLimit } = filters;
+
+    const { page, limit } = PaginationHelper.validateParams(rawPage, rawLimit);
+    const skip = PaginationHelper.getSkip(page, limit);
+
+    const query: any = { orgId };
+    if (status) {
+      query.status = status;
+    }
+
+    const [total, requests] = await Promise.all([
+      BookingRequest.countDocuments(query),
+      BookingRequest.find(query)
+        .populate("productId", "title code imageUrl defaultRent")
+        .populate("decidedBy", "name")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+    ]);
+
+    return {
+      data: requests,
+      pagination: PaginationHelper.getMeta(page, limit, total),
+    };
+  }
+
+  async getRequestById(id: string, orgId: string) {
+    const request = await BookingRequest.findOne({ _id: id, orgId })
+      .populate("productId", "title code imageUrl defaultRent")
+      .populate("decidedBy", "name")
+      .lean();
+    if (!request) {
+      throw new Error("Booking request not found");
+    }
+    return request;
+  }
+
+  /**
+   * Turn a pending request into an Order + Booking via OrderService.createOrder
+   * The request is claimed first so two staff members cannot accept it twice
+   */
+  async acceptRequest(
+    id: string,
+    orgId: string,
+    data: AcceptBookingRequestData
+  ) {
+    const request = await BookingRequest.findOneAndUpdate(
+      { _id: id, orgId, status: "PENDING" },
+      {
+        $set: {
+          status: "ACCEPTED",
+          decidedBy: data.decidedBy,
+          decidedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+
+    if (!request) {
+      const existing = await BookingRequest.exists({ _id: id, orgId });
+      throw new Error(
+        existing
+          ? "Booking request has already been decided"
+          : "Booking request not found"
+      );
+    }
+
+    try {
+      const product = await Product.findOne({
+        _id: request.productId,
+        orgId,
+      });
+      if (!product) {
+        throw new Error("Product not found");
+      }
+
+      // Check before creating the order so a conflict doesn't leave an empty order behind
+      if (!data.overrideConflicts) {
+        const conflicts = await findBookingConflicts(
+          orgId,
+          request.productId,
+          request.fromDateTime,
+          request.toDateTime
+        );
+        if (hasAnyConflict(conflicts)) {
+          throw new Error("CONFLICT");
+        }
+      }
+
+      const order = await orderService.createOrder({
+        orgId,
+        customerName: request.customerName,
+        customerPhone: request.customerPhone,
+        bookings: [
+          {
+            productId: request.productId.toString(),
+            fromDateTime: request.fromDateTime,
+            toDateTime: request.toDateTime,
+            decidedRent: data.decidedRent ?? product.defaultRent,
+            advanceAmount: data.advanceAmount ?? 0,
+            advanceMethod: data.advanceMethod,
+            advanceReference: data.advanceReference,
+            collectedBy: data.decidedBy,
+            additionalItemsDescription: request.message,
+            overrideConflicts: data.overrideConflicts,
+          },
+        ],
+      });
+
+      request.orderId = order._id;
+      request.bookingId = (order.bookings[0] as any)?._id;
+      await request.save();
+
+      return { request, order };
+    } catch (error) {
+      // Release the claim so the request can be retried or rejected
+      await BookingRequest.updateOne(
+        { _id: request._id },
+        {
+          $set: { status: "PENDING" },
+          $unset: { decidedBy: 1, decidedAt: 1 },
+        }
+      );
+      throw error;
+    }
+  }
+
+  async rejectRequest(
+    id: string,
+    orgId: string,
+    decidedBy: string,
+    reason?: string
+  ) {
+    const request = await BookingRequest.findOneAndUpdate(
+      { _id: id, orgId, status: "PENDING" },
+      {
+        $set: {
+          status: "REJECTED",
+          decidedBy,
+          decidedAt: new Date(),
+          rejectionReason: reason || undefined,
+        },
+      },
+      { new: true }
+    );
+
+    if (!request) {
+      const existing = await BookingRequest.exists({ _id: id, orgId });
+      throw new Error(
+        existing
+          ? "Booking request has already been decided"
+          : "Booking request not found"
+      );
+    }
+
+    return request;
+  }
+}
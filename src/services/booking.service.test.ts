@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import { Booking } from "../models/Booking";
+import { BookingService } from "./booking.service";
+import {
+  calculateAmountDue,
+  calculateAmountPaid,
+} from "../utils/booking-amounts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Issued 10-day booking at Rs.1000 plus 18% GST on top, paid in full
+ */
+function issuedExclusiveGstBooking() {
+  const from = new Date("2026-01-01T10:00:00Z");
+  return new Booking({
+    orgId: new mongoose.Types.ObjectId(),
+    orderId: new mongoose.Types.ObjectId(),
+    productId: new mongoose.Types.ObjectId(),
+    fromDateTime: from,
+    toDateTime: new Date(from.getTime() + 10 * DAY_MS),
+    productDefaultRent: 1000,
+    decidedRent: 1000,
+    taxRate: 18,
+    taxPricingMode: "EXCLUSIVE",
+    advanceAmount: 1180,
+    remainingAmount: 0,
+    status: "ISSUED",
+    payments: [{ type: "ADVANCE", amount: 1180, at: from, method: "CASH" }],
+  });
+}
+
+test("early return on an exclusive-GST booking refunds rent with its GST", () => {
+  const bookingService = new BookingService();
+  const booking = issuedExclusiveGstBooking();
+  const returnedAt = new Date(booking.fromDateTime.getTime() + 5 * DAY_MS);
+
+  const assessment = bookingService["assessEarlyReturn"](booking, returnedAt);
+  assert.equal(assessment.maxRefund, 1180);
+  assert.equal(assessment.suggestedRefund, 590); // 5 days at Rs.100 plus 18%
+
+  bookingService["applyEarlyReturn"](
+    booking,
+    returnedAt,
+    { refundAmount: assessment.suggestedRefund },
+    { method: "CASH" }
+  );
+
+  assert.equal(booking.decidedRent, 500);
+  assert.equal(calculateAmountDue(booking), 590);
+  assert.equal(calculateAmountPaid(booking.payments), 590);
+});
+
+test("early return refund cannot exceed the rent paid with its GST", () => {
+  const bookingService = new BookingService();
+  const booking = issuedExclusiveGstBooking();
+  const returnedAt = new Date(booking.fromDateTime.getTime() + 5 * DAY_MS);
+
+  assert.throws(
+    () =>
+      bookingService["applyEarlyReturn"](
+        booking,
+        returnedAt,
+        { refundAmount: 1180.01 },
+        { method: "CASH" }
+      ),
+    /cannot exceed rent paid/
+  );
+});
@@ -3,13 +3,41 @@ import {
   Booking,
   IBooking,
   BookingStatus,
+  EffectiveBookingStatus,
+  ChargeType,
   PaymentType,
+  PaymentMethod,
+  IPaymentEntry,
 } from "../models/Booking";
 import { Product } from "../models/Product";
-import { OrderService } from "./order.service";
+import { Organization } from "../models/Organization";
+import { MaintenanceStatus } from "../models/MaintenanceBlock";
+import {
+  calculateAmountDue,
+  calculateAmountPaid,
+  calculateLateFee,
+  calculatePerDayRate,
+  countRentalDays,
+  paymentDetailFields,
+  PaymentDetails,
+} from "../utils/booking-amounts";
+import { getNextSequence, formatDocumentNumber } from "../utils/sequence";
+import {
+  addExclusiveTax,
+  removeExclusiveTax,
+  resolveBookingTaxTerms,
+} from "../utils/gst";
+import {
+  findBookingConflicts,
+  findUnavailableProductIds,
+  hasAnyConflict,
+} from "../utils/booking-conflicts";
+import { OrderService, RefundOverrideOptions } from "./order.service";
+import { StoreCreditService } from "./store-credit.service";
 import { PaginationHelper, PaginatedResponse } from "../types/pagination";
 
 const orderService = new OrderService();
+const storeCreditService = new StoreCreditService();
 
 export interface BookingConflict {
   bookingId: string;
@@ -19,6 +47,34 @@ export interface BookingConflict {
   status: BookingStatus;
 }
 
+export interface MaintenanceConflict {
+  blockId: string;
+  reason: string;
+  fromDateTime: string;
+  toDateTime: string;
+  status: MaintenanceStatus;
+}
+
+export interface AlternativeProduct {
+  productId: string;
+  title: string;
+  code: string;
+  imageUrl?: string;
+  size?: string;
+  color?: string;
+  defaultRent: number;
+  rentDifference: number; // defaultRent minus the requested product's
+  matchedOn: Array<"size" | "color">;
+}
+
+export interface ConflictCheckResult {
+  conflicts: BookingConflict[]; // Hard overlaps
+  bufferConflicts: BookingConflict[]; // Too close to another rental for turnaround
+  maintenanceConflicts: MaintenanceConflict[];
+  turnaroundBufferHours: number;
+  alternatives: AlternativeProduct[]; // Only filled when something conflicts
+}
+
 export interface CheckConflictsData {
   orgId: string;
   productId: string;
@@ -34,13 +90,42 @@ export interface UpdateBookingData {
   toDateTime?: Date;
   decidedRent?: number;
   advanceAmount?: number;
+  advanceMethod?: PaymentMethod; // Needed when the advance changes
+  advanceReference?: string;
+  collectedBy?: string; // Staff user recording any change to the advance
   additionalItemsDescription?: string;
   overrideConflicts?: boolean;
+  holdExpiresAt?: Date; // HELD bookings only
+}
+
+export interface ConvertHoldData extends PaymentDetails {
+  advanceAmount: number;
+  note?: string;
+}
+
+export interface ExtendBookingData {
+  toDateTime: Date; // New planned return time
+  perDayRate?: number; // Defaults to the booking's decided rent per rental day
+  overrideConflicts?: boolean;
+  paymentAmount?: number; // Optional payment collected with the extension
+  paymentNote?: string;
+  paymentMethod?: PaymentMethod;
+  paymentReference?: string;
+  note?: string;
+  extendedBy?: string;
+}
+
+export interface SwapProductData {
+  productId: string;
+  decidedRent?: number; // Defaults to the new product's default rent
+  overrideConflicts?: boolean;
+  note?: string;
+  swappedBy?: string;
 }
 
 export interface ListBookingsFilters {
   orgId: string;
-  status?: BookingStatus;
+  status?: EffectiveBookingStatus;
   startDate?: string;
   endDate?: string;
   productId?: string;
@@ -49,54 +134,215 @@ export interface ListBookingsFilters {
   limit?: number;
 }
 
-export interface AddPaymentData {
+export interface IssueProductData {
+  issuedBy?: string; // Staff user performing the issue
+  paymentAmount?: number;
+  paymentNote?: string;
+  paymentMethod?: PaymentMethod; // Used for the payment and the deposit
+  paymentReference?: string;
+  depositAmount?: number;
+  depositNote?: string;
+}
+
+export interface ReturnChargeData {
+  type: ChargeType;
+  amount: number;
+  description?: string;
+  photoUrl?: string;
+}
+
+export interface ReturnProductData {
+  returnedBy?: string; // Staff user accepting the return
+  paymentAmount?: number;
+  paymentNote?: string;
+  paymentMethod?: PaymentMethod; // Used for the payment and any money paid back
+  paymentReference?: string;
+  depositRefundAmount?: number;
+  depositNote?: string;
+  charges?: ReturnChargeData[];
+  applyLateFee?: boolean; // Compute late fee from toDateTime and the org's late fee rate
+  earlyReturn?: EarlyReturnOptions; // Set by earlyReturn; rejects returns that are not early
+}
+
+export interface EarlyReturnOptions {
+  refundAmount?: number; // Rent refunded for unused days; nothing is refunded by default
+  refundNote?: string;
+  note?: string;
+}
+
+export interface EarlyReturnData extends ReturnProductData, EarlyReturnOptions {}
+
+export interface EarlyReturnAssessment {
+  dueAt: string;
+  returnedAt: string;
+  rentalDays: number;
+  unusedDays: number; // Whole days left before dueAt
+  perDayRate: number;
+  suggestedRefund: number; // Unused days at the per-day rate plus exclusive GST, capped at maxRefund
+  maxRefund: number; // Rent actually paid, capped at the decided rent and its exclusive GST
+}
+
+export interface LateFeeAssessment {
+  dueAt: string;
+  returnedAt: string;
+  lateDays: number;
+  lateFeePerDay: number;
+  graceHours: number;
+  amount: number;
+}
+
+export interface ReceiptData {
+  receiptNumber: string;
+  issuedAt: Date;
+  organization?: {
+    name: string;
+    code?: string;
+    address?: string;
+    contact?: string;
+    location?: string;
+    instagram?: string;
+    facebook?: string;
+  };
+  customer: {
+    name: string;
+    phone?: string;
+  };
+  booking: {
+    id: string;
+    orderId: string;
+    product: string;
+    productCode?: string;
+    fromDateTime: Date;
+    toDateTime: Date;
+  };
+  payment: {
+    id: string;
+    type: PaymentType;
+    amount: number;
+    at: Date;
+    method: PaymentMethod;
+    reference?: string;
+    note?: string;
+  };
+  balances: {
+    amountDue: number;
+    totalPaid: number;
+    remainingAmount: number;
+  };
+}
+
+export interface AddPaymentData extends PaymentDetails {
   type: PaymentType;
   amount: number;
   note?: string;
 }
 
 export class BookingService {
-  private async hasOverlap(
+  async checkConflicts(data: CheckConflictsData): Promise<ConflictCheckResult> {
+    const { orgId, productId, fromDateTime, toDateTime, excludeBookingId } =
+      data;
+
+    const conflictSet = await findBookingConflicts(
+      orgId,
+      productId,
+      fromDateTime,
+      toDateTime,
+      excludeBookingId ? [excludeBookingId] : []
+    );
+    const { overlaps, bufferConflicts, maintenanceConflicts, bufferHours } =
+      conflictSet;
+
+    return {
+      conflicts: await this.toConflictDetails(overlaps),
+      bufferConflicts: await this.toConflictDetails(bufferConflicts),
+      maintenanceConflicts: maintenanceConflicts.map((m) => ({
+        blockId: m._id.toString(),
+        reason: m.reason,
+        fromDateTime: m.fromDateTime.toISOString(),
+        toDateTime: m.toDateTime.toISOString(),
+        status: m.status,
+      })),
+      turnaroundBufferHours: bufferHours,
+      alternatives: hasAnyConflict(conflictSet)
+        ? await this.findAlternatives(orgId, productId, fromDateTime, toDateTime)
+        : [],
+    };
+  }
+
+  /**
+   * Active products in the same category that share the requested product's size
+   * and/or color and are free for the window, closest defaultRent first
+   */
+  async findAlternatives(
     orgId: string,
     productId: string,
     fromDateTime: Date,
     toDateTime: Date,
-    excludeId?: string
-  ): Promise<IBooking[]> {
+    limit: number = 5
+  ): Promise<AlternativeProduct[]> {
+    const product = await Product.findOne({ _id: productId, orgId }).lean();
+    if (!product || !product.categoryId) {
+      return [];
+    }
+
     const query: any = {
       orgId,
-      productId,
-      status: { $ne: "CANCELLED" },
-      $or: [
-        {
-          fromDateTime: { $lt: toDateTime },
-          toDateTime: { $gt: fromDateTime },
-        },
-      ],
+      _id: { $ne: product._id },
+      categoryId: product.categoryId,
+      isActive: { $ne: false },
     };
-
-    if (excludeId) {
-      query._id = { $ne: excludeId };
+    const attributeMatch: any[] = [];
+    if (product.size) attributeMatch.push({ size: product.size });
+    if (product.color) attributeMatch.push({ color: product.color });
+    if (attributeMatch.length > 0) {
+      query.$or = attributeMatch;
     }
 
-    const bookings = await Booking.find(query);
-    return bookings;
-  }
+    // One availability lookup for the window instead of a conflict check per candidate
+    const [candidates, unavailableIds] = await Promise.all([
+      Product.find(query).lean(),
+      findUnavailableProductIds(orgId, fromDateTime, toDateTime),
+    ]);
+    const unavailable = new Set(unavailableIds.map((id) => id.toString()));
+
+    const available = candidates
+      .filter((candidate) => !unavailable.has(candidate._id.toString()))
+      .sort(
+        (a, b) =>
+          Math.abs(a.defaultRent - product.defaultRent) -
+          Math.abs(b.defaultRent - product.defaultRent)
+      )
+      .slice(0, limit);
+
+    const alternatives: AlternativeProduct[] = [];
+    for (const candidate of available) {
+      const matchedOn: Array<"size" | "color"> = [];
+      if (product.size && candidate.size === product.size) matchedOn.push("size");
+      if (product.color && candidate.color === product.color) {
+        matchedOn.push("color");
+      }
 
-  async checkConflicts(data: CheckConflictsData): Promise<BookingConflict[]> {
-    const { orgId, productId, fromDateTime, toDateTime, excludeBookingId } =
-      data;
+      alternatives.push({
+        productId: candidate._id.toString(),
+        title: candidate.title,
+        code: candidate.code,
+        imageUrl: candidate.imageUrl,
+        size: candidate.size,
+        color: candidate.color,
+        defaultRent: candidate.defaultRent,
+        rentDifference: candidate.defaultRent - product.defaultRent,
+        matchedOn,
+      });
+    }
 
-    const conflicts = await this.hasOverlap(
-      orgId,
-      productId,
-      fromDateTime,
-      toDateTime,
-      excludeBookingId
-    );
+    return alternatives;
+  }
 
+  private async toConflictDetails(
+    bookings: IBooking[]
+  ): Promise<BookingConflict[]> {
     // Populate order to get customerName
-    const conflictsWithOrder = await Booking.populate(conflicts, {
+    const conflictsWithOrder = await Booking.populate(bookings, {
       path: "orderId",
       select: "customerName",
     });
@@ -133,7 +379,11 @@ export class BookingService {
       orgId:
         typeof orgId === "string" ? new mongoose.Types.ObjectId(orgId) : orgId,
     };
-    if (status) {
+    if (status === "OVERDUE") {
+      // Derived state: issued and past the planned return time
+      query.status = "ISSUED";
+      query.toDateTime = { $lt: new Date() };
+    } else if (status) {
       query.status = status;
     }
     if (productId) {
@@ -353,6 +603,19 @@ export class BookingService {
       );
     }
 
+    if (existing.status === "HELD") {
+      if (existing.holdExpiresAt && existing.holdExpiresAt <= new Date()) {
+        throw new Error("Hold has expired");
+      }
+      if (typeof data.advanceAmount === "number" && data.advanceAmount > 0) {
+        throw new Error(
+          "A hold cannot include an advance. Convert the hold to record the advance."
+        );
+      }
+    } else if (data.holdExpiresAt) {
+      throw new Error("Only held bookings have a hold expiry");
+    }
+
     // Handle productId update
     const productIdToUse = data.productId || existing.productId.toString();
 
@@ -362,28 +625,11 @@ export class BookingService {
       const from = new Date(data.fromDateTime || existing.fromDateTime);
       const to = new Date(data.toDateTime || existing.toDateTime);
 
-      const conflicts = await this.hasOverlap(
-        orgId,
-        productIdToUse,
-        from,
-        to,
-        id
+      const hasConflicts = hasAnyConflict(
+        await findBookingConflicts(orgId, productIdToUse, from, to, [id])
       );
 
-      if (conflicts.length > 0 && !data.overrideConflicts) {
-        // Populate order to get customer name for conflicts
-        const conflictsWithOrder = await Booking.populate(conflicts, {
-          path: "orderId",
-          select: "customerName",
-        });
-
-        const conflictDetails = conflictsWithOrder.map((c: any) => ({
-          bookingId: c._id.toString(),
-          customerName: c.orderId?.customerName || "Unknown",
-          fromDateTime: c.fromDateTime.toISOString(),
-          toDateTime: c.toDateTime.toISOString(),
-          status: c.status,
-        }));
+      if (hasConflicts && !data.overrideConflicts) {
         throw new Error("CONFLICT");
       }
 
@@ -392,7 +638,7 @@ export class BookingService {
         existing.toDateTime = to;
       }
       // Set conflict override flag if conflicts were found and overridden
-      if (conflicts.length > 0) {
+      if (hasConflicts) {
         existing.isConflictOverridden = true;
       }
     }
@@ -417,41 +663,52 @@ export class BookingService {
       } else {
         existing.categoryId = undefined;
       }
+      await this.updateTaxRate(existing, orgId);
     }
     if (typeof data.decidedRent === "number") {
       existing.decidedRent = data.decidedRent;
     }
     if (typeof data.advanceAmount === "number") {
-      existing.advanceAmount = data.advanceAmount;
-      // Update advance payment if it exists
-      const advancePayment = existing.payments.find(
-        (p) => p.type === "ADVANCE"
-      );
-      if (advancePayment) {
-        advancePayment.amount = data.advanceAmount;
-      } else {
+      // Recorded payments are never edited (shifts and receipts count them);
+      // a changed advance is recorded as a payment or refund of the difference
+      const difference =
+        Math.round((data.advanceAmount - existing.advanceAmount) * 100) / 100;
+      if (difference !== 0) {
+        const hasAdvance = existing.payments.some((p) => p.type === "ADVANCE");
+        const type: PaymentType =
+          difference < 0
+            ? "REFUND"
+            : hasAdvance
+            ? "PAYMENT_RECEIVED"
+            : "ADVANCE";
         existing.payments.push({
-          type: "ADVANCE",
-          amount: data.advanceAmount,
+          type,
+          amount: Math.abs(difference),
           at: new Date(),
-          note: "Advance on booking",
+          ...paymentDetailFields({
+            method: data.advanceMethod,
+            reference: data.advanceReference,
+            collectedBy: data.collectedBy,
+          }),
+          note:
+            type === "ADVANCE"
+              ? "Advance on booking"
+              : `Advance changed to Rs.${data.advanceAmount.toFixed(2)}`,
         });
       }
+      existing.advanceAmount = data.advanceAmount;
     }
     if (data.additionalItemsDescription !== undefined) {
       existing.additionalItemsDescription = data.additionalItemsDescription;
     }
+    if (data.holdExpiresAt) {
+      existing.holdExpiresAt = data.holdExpiresAt;
+    }
 
     // Recalculate remaining based on all payments
-    const totalPaid =
-      existing.payments
-        .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-        .reduce((sum, p) => sum + p.amount, 0) -
-      existing.payments
-        .filter((p) => p.type === "REFUND")
-        .reduce((sum, p) => sum + p.amount, 0);
+    const totalPaid = calculateAmountPaid(existing.payments);
 
-    existing.remainingAmount = existing.decidedRent - totalPaid;
+    existing.remainingAmount = calculateAmountDue(existing) - totalPaid;
 
     const updated = await existing.save();
     await updated.populate("categoryId");
@@ -482,7 +739,7 @@ export class BookingService {
       transfers?: Array<{ bookingId: string; amount: number }>;
       shouldRefund?: boolean;
       refundAmount?: number;
-    }
+    } & RefundOverrideOptions
   ) {
     const booking = await Booking.findOne({ _id: id, orgId });
     if (!booking) {
@@ -491,10 +748,10 @@ export class BookingService {
 
     const previousStatus = booking.status;
 
-    // Only allow cancellation if booking is in BOOKED status
-    if (previousStatus !== "BOOKED") {
+    // Only allow cancellation before the product is issued (BOOKED, or a HELD hold)
+    if (previousStatus !== "BOOKED" && previousStatus !== "HELD") {
       throw new Error(
-        `Cannot cancel booking. Booking must be in "BOOKED" status to cancel. Current status: ${previousStatus}`
+        `Cannot cancel booking. Booking must be in "BOOKED" status (or HELD) to cancel. Current status: ${previousStatus}`
       );
     }
 
@@ -515,14 +772,113 @@ export class BookingService {
   }
 
   /**
-   * Issue a product - change status to ISSUED and optionally collect payment
+   * Turn a HELD booking into a BOOKED one, recording the advance
+   * The status check is part of the update so a hold cannot be converted after it expires
    */
-  async issueProduct(
-    id: string,
-    orgId: string,
-    paymentAmount?: number,
-    paymentNote?: string
-  ) {
+  async convertHold(id: string, orgId: string, data: ConvertHoldData) {
+    const { advanceAmount, note, ...paymentDetails } = data;
+    const now = new Date();
+
+    const hold = await Booking.findOne({ _id: id, orgId });
+    if (!hold) {
+      throw new Error("Booking not found");
+    }
+    if (hold.status !== "HELD") {
+      throw new Error(
+        `Cannot convert booking. Booking must be in "HELD" status. Current status: ${hold.status}`
+      );
+    }
+
+    const update: any = {
+      $set: {
+        status: "BOOKED",
+        advanceAmount,
+        remainingAmount: calculateAmountDue(hold) - advanceAmount,
+      },
+      $unset: { holdExpiresAt: 1 },
+    };
+    if (advanceAmount > 0) {
+      update.$push = {
+        payments: {
+          type: "ADVANCE",
+          amount: advanceAmount,
+          at: now,
+          ...paymentDetailFields(paymentDetails),
+          note: this.generatePaymentNote(
+            "ADVANCE",
+            advanceAmount,
+            undefined,
+            note
+          ),
+        },
+      };
+    }
+
+    const booking = await Booking.findOneAndUpdate(
+      { _id: id, orgId, status: "HELD", holdExpiresAt: { $gt: now } },
+      update,
+      { new: true }
+    );
+    if (!booking) {
+      throw new Error("Hold has expired");
+    }
+
+    await orderService.refreshOrderTotals(booking.orderId.toString());
+
+    return await Booking.findById(id)
+      .populate("productId")
+      .populate("categoryId")
+      .populate("orderId", "customerName customerPhone");
+  }
+
+  /**
+   * Release every hold past its expiry (run periodically by the hold sweeper)
+   * Each release is a conditional update, so overlapping runs or a hold converted
+   * at the same moment are never double-processed. Order totals are also
+   * recalculated on read, so a run interrupted before the refresh heals itself.
+   *
+   * @returns Number of holds released by this run
+   */
+  async releaseExpiredHolds(now: Date = new Date()): Promise<number> {
+    const expired = await Booking.find({
+      status: "HELD",
+      holdExpiresAt: { $lte: now },
+    })
+      .select("_id")
+      .lean();
+
+    let releasedCount = 0;
+    const orderIds = new Set<string>();
+    for (const { _id } of expired) {
+      const released = await Booking.findOneAndUpdate(
+        { _id, status: "HELD", holdExpiresAt: { $lte: now } },
+        { $set: { status: "CANCELLED", holdReleasedAt: now } },
+        { new: true }
+      );
+      if (released) {
+        releasedCount++;
+        orderIds.add(released.orderId.toString());
+      }
+    }
+
+    for (const orderId of orderIds) {
+      await orderService.refreshOrderTotals(orderId);
+    }
+
+    return releasedCount;
+  }
+
+  /**
+   * Issue a product - change status to ISSUED, optionally collect payment and security deposit
+   */
+  async issueProduct(id: string, orgId: string, data: IssueProductData = {}) {
+    const { issuedBy, paymentAmount, paymentNote, depositAmount, depositNote } =
+      data;
+    const paymentDetails: PaymentDetails = {
+      method: data.paymentMethod,
+      reference: data.paymentReference,
+      collectedBy: issuedBy,
+    };
     const booking = await Booking.findOne({ _id: id, orgId });
     if (!booking) {
       throw new Error("Booking not found");
@@ -538,14 +894,8 @@ export class BookingService {
     // If payment amount is provided, add it as a payment
     if (paymentAmount !== undefined && paymentAmount > 0) {
       // Calculate current remaining amount before adding payment
-      const currentTotalPaid =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((sum, p) => sum + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((sum, p) => sum + p.amount, 0);
-      const currentRemaining = booking.decidedRent - currentTotalPaid;
+      const currentTotalPaid = calculateAmountPaid(booking.payments);
+      const currentRemaining = calculateAmountDue(booking) - currentTotalPaid;
 
       // Prevent overpayment - only allow payment up to remaining amount
       if (currentRemaining <= 0) {
@@ -575,23 +925,37 @@ export class BookingService {
         type: "PAYMENT_RECEIVED",
         amount: allowedPaymentAmount,
         at: new Date(),
+        ...paymentDetailFields(paymentDetails),
         note: paymentNote || defaultNote,
       });
 
       // Recalculate amounts
-      const totalPaid =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((sum, p) => sum + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((sum, p) => sum + p.amount, 0);
+      const totalPaid = calculateAmountPaid(booking.payments);
 
-      booking.remainingAmount = booking.decidedRent - totalPaid;
+      booking.remainingAmount = calculateAmountDue(booking) - totalPaid;
     }
 
-    // Change status to ISSUED
+    // Collect security deposit (kept separate from rent)
+    if (depositAmount !== undefined && depositAmount > 0) {
+      booking.payments.push({
+        type: "DEPOSIT_COLLECTED",
+        amount: depositAmount,
+        at: new Date(),
+        ...paymentDetailFields(paymentDetails),
+        note:
+          depositNote ||
+          `Security deposit collected Rs.${depositAmount.toFixed(2)}`,
+      });
+      booking.depositAmount = depositAmount;
+      booking.depositStatus = "HELD";
+    }
+
+    // Change status to ISSUED and record when and by whom
     booking.status = "ISSUED";
+    booking.issuedAt = new Date();
+    if (issuedBy) {
+      booking.issuedBy = new mongoose.Types.ObjectId(issuedBy);
+    }
 
     const savedBooking = await booking.save();
 
@@ -611,14 +975,24 @@ export class BookingService {
   }
 
   /**
-   * Return a product - change status to RETURNED and optionally collect payment
+   * Return a product - change status to RETURNED, optionally collect payment and settle the deposit
    */
-  async returnProduct(
-    id: string,
-    orgId: string,
-    paymentAmount?: number,
-    paymentNote?: string
-  ) {
+  async returnProduct(id: string, orgId: string, data: ReturnProductData = {}) {
+    const {
+      returnedBy,
+      paymentAmount,
+      paymentNote,
+      depositRefundAmount,
+      depositNote,
+      charges = [],
+      applyLateFee,
+      earlyReturn,
+    } = data;
+    const paymentDetails: PaymentDetails = {
+      method: data.paymentMethod,
+      reference: data.paymentReference,
+      collectedBy: returnedBy,
+    };
     const booking = await Booking.findOne({ _id: id, orgId });
     if (!booking) {
       throw new Error("Booking not found");
@@ -631,17 +1005,48 @@ export class BookingService {
       );
     }
 
+    const returnedAt = new Date();
+
+    if (earlyReturn) {
+      this.applyEarlyReturn(booking, returnedAt, earlyReturn, paymentDetails);
+    }
+
+    // Record itemised charges first so they count towards the amount owed
+    for (const charge of charges) {
+      if (charge.amount <= 0) continue;
+      booking.charges.push({
+        type: charge.type,
+        amount: charge.amount,
+        description: charge.description,
+        photoUrl: charge.photoUrl,
+        at: returnedAt,
+      });
+    }
+
+    // Auto-compute late fee unless staff already entered one explicitly
+    if (applyLateFee && !charges.some((c) => c.type === "LATE_FEE")) {
+      const lateFee = await this.assessLateFee(
+        orgId,
+        booking.toDateTime,
+        returnedAt
+      );
+      if (lateFee.amount > 0) {
+        booking.charges.push({
+          type: "LATE_FEE",
+          amount: lateFee.amount,
+          description: `Late return by ${lateFee.lateDays} day(s) @ Rs.${lateFee.lateFeePerDay.toFixed(
+            2
+          )}/day`,
+          at: returnedAt,
+        });
+      }
+    }
+
     // If payment amount is provided, add it as a payment
     if (paymentAmount !== undefined && paymentAmount > 0) {
       // Calculate current remaining amount before adding payment
-      const currentTotalPaid =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((sum, p) => sum + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((sum, p) => sum + p.amount, 0);
-      const currentRemaining = booking.decidedRent - currentTotalPaid;
+      const currentTotalPaid = calculateAmountPaid(booking.payments);
+      const currentRemaining = calculateAmountDue(booking) - currentTotalPaid;
 
       // Prevent overpayment - only allow payment up to remaining amount
       if (currentRemaining <= 0) {
@@ -671,52 +1076,479 @@ export class BookingService {
         type: "PAYMENT_RECEIVED",
         amount: allowedPaymentAmount,
         at: new Date(),
+        ...paymentDetailFields(paymentDetails),
         note: paymentNote || defaultNote,
       });
 
       // Recalculate amounts
-      const totalPaid =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((sum, p) => sum + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((sum, p) => sum + p.amount, 0);
+      const totalPaid = calculateAmountPaid(booking.payments);
 
-      booking.remainingAmount = booking.decidedRent - totalPaid;
+      booking.remainingAmount = calculateAmountDue(booking) - totalPaid;
     }
 
-    // Change status to RETURNED
+    // Settle security deposit: refund the requested amount (default: all of it), forfeit the rest
+    const depositHeld = this.calculateDepositHeld(booking.payments);
+    if (depositHeld > 0) {
+      const refundAmount =
+        depositRefundAmount !== undefined ? depositRefundAmount : depositHeld;
+
+      if (refundAmount < 0) {
+        throw new Error("Deposit refund amount cannot be negative");
+      }
+      if (refundAmount > depositHeld) {
+        throw new Error(
+          `Deposit refund amount (Rs.${refundAmount.toFixed(
+            2
+          )}) cannot exceed deposit held (Rs.${depositHeld.toFixed(2)}).`
+        );
+      }
+
+      const forfeitAmount = depositHeld - refundAmount;
+
+      if (refundAmount > 0) {
+        booking.payments.push({
+          type: "DEPOSIT_REFUNDED",
+          amount: refundAmount,
+          at: returnedAt,
+          ...paymentDetailFields(paymentDetails),
+          note: `Security deposit refunded Rs.${refundAmount.toFixed(2)}`,
+        });
+      }
+      if (forfeitAmount > 0) {
+        booking.payments.push({
+          type: "DEPOSIT_FORFEITED",
+          amount: forfeitAmount,
+          at: returnedAt,
+          ...paymentDetailFields({
+            method: "ADJUSTMENT",
+            collectedBy: returnedBy,
+          }),
+          note:
+            depositNote ||
+            `Security deposit forfeited Rs.${forfeitAmount.toFixed(2)}`,
+        });
+      }
+
+      booking.depositStatus =
+        forfeitAmount === 0
+          ? "REFUNDED"
+          : refundAmount === 0
+          ? "FORFEITED"
+          : "PARTIALLY_REFUNDED";
+    } else if (depositRefundAmount !== undefined && depositRefundAmount > 0) {
+      throw new Error("No security deposit is held for this booking");
+    }
+
+    // Change status to RETURNED, record when and by whom, and refresh amount owed (rent + charges)
     booking.status = "RETURNED";
+    booking.returnedAt = returnedAt;
+    if (returnedBy) {
+      booking.returnedBy = new mongoose.Types.ObjectId(returnedBy);
+    }
+    booking.remainingAmount =
+      calculateAmountDue(booking) - calculateAmountPaid(booking.payments);
 
     const savedBooking = await booking.save();
 
     // Populate order info before returning
     await savedBooking.populate("orderId", "customerName customerPhone");
 
-    // Update order status after booking status change
+    // Update order status after booking status change; an early return also changes the rent
     if (savedBooking.orderId) {
       const orderIdStr =
         typeof savedBooking.orderId === "string"
           ? savedBooking.orderId
           : (savedBooking.orderId as any)._id.toString();
-      await orderService.updateOrderStatus(orderIdStr);
+      if (earlyReturn) {
+        await orderService.refreshOrderTotals(orderIdStr);
+      } else {
+        await orderService.updateOrderStatus(orderIdStr);
+      }
     }
 
     return savedBooking;
   }
 
   /**
-   * Calculate total paid amount (payments minus refunds)
+   * Return an issued booking before its planned return time
+   * Optionally refunds rent for the unused days; the booking's window is shortened to the
+   * actual return so the product is free again for the rest of the original period
    */
-  private calculateTotalPaid(payments: any[]): number {
-    const paymentsTotal = payments
-      .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
+  async earlyReturn(id: string, orgId: string, data: EarlyReturnData = {}) {
+    const { refundAmount, refundNote, note, ...returnData } = data;
+    return this.returnProduct(id, orgId, {
+      ...returnData,
+      earlyReturn: { refundAmount, refundNote, note },
+    });
+  }
+
+  /**
+   * Rent reduction, refund and audit entry for an early return, applied before the
+   * return's own charges and payments
+   */
+  private applyEarlyReturn(
+    booking: IBooking,
+    returnedAt: Date,
+    options: EarlyReturnOptions,
+    paymentDetails: PaymentDetails
+  ) {
+    if (returnedAt >= booking.toDateTime) {
+      throw new Error("Booking is not being returned early");
+    }
+
+    const assessment = this.assessEarlyReturn(booking, returnedAt);
+    const refundAmount = options.refundAmount ?? 0;
+
+    if (refundAmount > assessment.maxRefund) {
+      throw new Error(
+        `Early return refund (Rs.${refundAmount.toFixed(
+          2
+        )}) cannot exceed rent paid (Rs.${assessment.maxRefund.toFixed(2)}).`
+      );
+    }
+
+    // Refunded rent (and its exclusive GST) is no longer owed, so the balance is unchanged
+    if (refundAmount > 0) {
+      booking.decidedRent -= removeExclusiveTax(refundAmount, booking);
+      booking.payments.push({
+        type: "REFUND",
+        amount: refundAmount,
+        at: returnedAt,
+        ...paymentDetailFields(paymentDetails),
+        note:
+          options.refundNote ||
+          `Early return refund for ${
+            assessment.unusedDays
+          } unused day(s) Rs.${refundAmount.toFixed(2)}`,
+      });
+    }
+
+    booking.history.push({
+      action: "EARLY_RETURN",
+      at: returnedAt,
+      by: paymentDetails.collectedBy
+        ? new mongoose.Types.ObjectId(paymentDetails.collectedBy)
+        : undefined,
+      note: options.note || undefined,
+      details: {
+        previousToDateTime: booking.toDateTime,
+        returnedAt,
+        unusedDays: assessment.unusedDays,
+        perDayRate: assessment.perDayRate,
+        suggestedRefund: assessment.suggestedRefund,
+        refundAmount,
+      },
+    });
+
+    if (returnedAt > booking.fromDateTime) {
+      booking.toDateTime = returnedAt;
+    }
+  }
+
+  /**
+   * Unused days and the pro-rata refund for returning a booking at the given time
+   */
+  private assessEarlyReturn(
+    booking: IBooking,
+    returnedAt: Date
+  ): EarlyReturnAssessment {
+    const perDayRate = calculatePerDayRate(booking);
+    const unusedMs = booking.toDateTime.getTime() - returnedAt.getTime();
+    const unusedDays = Math.max(0, Math.floor(unusedMs / (24 * 60 * 60 * 1000)));
+    // Refunds are gross: rent plus the GST charged on it for exclusive bookings
+    const maxRefund = Math.max(
+      0,
+      Math.min(
+        calculateAmountPaid(booking.payments),
+        addExclusiveTax(booking.decidedRent, booking)
+      )
+    );
+
+    return {
+      dueAt: booking.toDateTime.toISOString(),
+      returnedAt: returnedAt.toISOString(),
+      rentalDays: countRentalDays(booking.fromDateTime, booking.toDateTime),
+      unusedDays,
+      perDayRate,
+      suggestedRefund: Math.min(
+        addExclusiveTax(
+          Math.round(unusedDays * perDayRate * 100) / 100,
+          booking
+        ),
+        maxRefund
+      ),
+      maxRefund,
+    };
+  }
+
+  /**
+   * Preview the refund suggested if the booking were returned early now
+   */
+  async previewEarlyReturn(
+    id: string,
+    orgId: string
+  ): Promise<EarlyReturnAssessment> {
+    const booking = await Booking.findOne({ _id: id, orgId });
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    return this.assessEarlyReturn(booking, new Date());
+  }
+
+  /**
+   * Extend an issued booking's return time
+   * Only the added period is checked for conflicts, and it is billed as extra rent at a
+   * per-day rate (part days count as a full day)
+   */
+  async extendBooking(id: string, orgId: string, data: ExtendBookingData) {
+    const booking = await Booking.findOne({ _id: id, orgId });
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.status !== "ISSUED") {
+      throw new Error(
+        `Cannot extend booking. Booking must be in "ISSUED" status. Current status: ${booking.status}`
+      );
+    }
+
+    const previousToDateTime = booking.toDateTime;
+    const toDateTime = new Date(data.toDateTime);
+    if (toDateTime <= previousToDateTime) {
+      throw new Error(
+        "Cannot extend booking. New return time must be after the current return time."
+      );
+    }
+
+    // The current window is already the customer's; only the added period must be free
+    const hasConflicts = hasAnyConflict(
+      await findBookingConflicts(
+        orgId,
+        booking.productId,
+        previousToDateTime,
+        toDateTime,
+        [id]
+      )
+    );
+    if (hasConflicts && !data.overrideConflicts) {
+      throw new Error("CONFLICT");
+    }
+
+    const perDayRate = data.perDayRate ?? calculatePerDayRate(booking);
+    const extraDays = countRentalDays(previousToDateTime, toDateTime);
+    const extraRent = Math.round(perDayRate * extraDays * 100) / 100;
+    const now = new Date();
+
+    booking.toDateTime = toDateTime;
+    booking.decidedRent += extraRent;
+    if (hasConflicts) {
+      booking.isConflictOverridden = true;
+    }
+
+    booking.history.push({
+      action: "EXTENDED",
+      at: now,
+      by: data.extendedBy
+        ? new mongoose.Types.ObjectId(data.extendedBy)
+        : undefined,
+      note: data.note || undefined,
+      details: {
+        previousToDateTime,
+        toDateTime,
+        extraDays,
+        perDayRate,
+        extraRent,
+      },
+    });
+
+    if (data.paymentAmount !== undefined && data.paymentAmount > 0) {
+      const currentRemaining =
+        calculateAmountDue(booking) -
+        calculateAmountPaid(booking.payments);
+      if (data.paymentAmount > currentRemaining) {
+        throw new Error(
+          `Payment amount (Rs.${data.paymentAmount.toFixed(
+            2
+          )}) exceeds remaining amount (Rs.${currentRemaining.toFixed(
+            2
+          )}). Maximum allowed: Rs.${currentRemaining.toFixed(2)}.`
+        );
+      }
+
+      booking.payments.push({
+        type: "PAYMENT_RECEIVED",
+        amount: data.paymentAmount,
+        at: now,
+        ...paymentDetailFields({
+          method: data.paymentMethod,
+          reference: data.paymentReference,
+          collectedBy: data.extendedBy,
+        }),
+        note:
+          data.paymentNote ||
+          `Payment received for ${extraDays} day(s) extension Rs.${data.paymentAmount.toFixed(
+            2
+          )}`,
+      });
+    }
+
+    booking.remainingAmount =
+      calculateAmountDue(booking) - calculateAmountPaid(booking.payments);
+
+    const savedBooking = await booking.save();
+    await orderService.refreshOrderTotals(savedBooking.orderId.toString());
+    await savedBooking.populate("orderId", "customerName customerPhone");
+
+    return savedBooking;
+  }
+
+  /**
+   * Switch a booked (not yet issued) booking to a different product
+   * Dates and payments stay as they are; rent is re-priced for the new product
+   */
+  async swapProduct(id: string, orgId: string, data: SwapProductData) {
+    const booking = await Booking.findOne({ _id: id, orgId });
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.status !== "BOOKED") {
+      throw new Error(
+        `Cannot swap product. Booking must be in "BOOKED" status. Current status: ${booking.status}`
+      );
+    }
+    if (booking.productId.toString() === data.productId) {
+      throw new Error("Cannot swap product. Booking already uses this product.");
+    }
+
+    const product = await Product.findOne({
+      _id: data.productId,
+      orgId,
+      isActive: { $ne: false },
+    });
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    const hasConflicts = hasAnyConflict(
+      await findBookingConflicts(
+        orgId,
+        product._id,
+        booking.fromDateTime,
+        booking.toDateTime,
+        [id]
+      )
+    );
+    if (hasConflicts && !data.overrideConflicts) {
+      throw new Error("CONFLICT");
+    }
+
+    const previous = {
+      productId: booking.productId,
+      fromDateTime: booking.fromDateTime,
+      toDateTime: booking.toDateTime,
+    };
+    const decidedRent = data.decidedRent ?? product.defaultRent;
+
+    booking.history.push({
+      action: "PRODUCT_SWAPPED",
+      at: new Date(),
+      by: data.swappedBy
+        ? new mongoose.Types.ObjectId(data.swappedBy)
+        : undefined,
+      note: data.note || undefined,
+      details: {
+        previousProductId: previous.productId,
+        productId: product._id,
+        previousProductDefaultRent: booking.productDefaultRent,
+        productDefaultRent: product.defaultRent,
+        previousDecidedRent: booking.decidedRent,
+        decidedRent,
+      },
+    });
+
+    booking.productId = product._id;
+    booking.categoryId = product.categoryId || undefined;
+    await this.updateTaxRate(booking, orgId);
+    booking.productDefaultRent = product.defaultRent;
+    booking.decidedRent = decidedRent;
+    booking.isConflictOverridden = hasConflicts;
+    booking.remainingAmount =
+      calculateAmountDue(booking) - calculateAmountPaid(booking.payments);
+
+    const savedBooking = await booking.save();
+    await orderService.refreshOrderTotals(savedBooking.orderId.toString());
+
+    // The old product is free for these dates now
+    await orderService.releaseWaitlist({
+      _id: savedBooking._id,
+      orgId: savedBooking.orgId,
+      productId: previous.productId,
+      fromDateTime: previous.fromDateTime,
+      toDateTime: previous.toDateTime,
+    });
+
+    await savedBooking.populate("orderId", "customerName customerPhone");
+    return savedBooking;
+  }
+
+  /**
+   * Compute the late fee for a return at the given time using the org's rate
+   */
+  private async assessLateFee(
+    orgId: string,
+    dueAt: Date,
+    returnedAt: Date
+  ): Promise<LateFeeAssessment> {
+    const organization = await Organization.findById(orgId).select(
+      "rentalSettings"
+    );
+    const lateFeePerDay = organization?.rentalSettings?.lateFeePerDay || 0;
+    const graceHours = organization?.rentalSettings?.lateFeeGraceHours || 0;
+
+    const { lateDays, amount } = calculateLateFee(
+      dueAt,
+      returnedAt,
+      lateFeePerDay,
+      graceHours
+    );
+
+    return {
+      dueAt: dueAt.toISOString(),
+      returnedAt: returnedAt.toISOString(),
+      lateDays,
+      lateFeePerDay,
+      graceHours,
+      amount,
+    };
+  }
+
+  /**
+   * Preview the late fee that would be charged if the booking were returned now
+   */
+  async previewLateFee(id: string, orgId: string): Promise<LateFeeAssessment> {
+    const booking = await Booking.findOne({ _id: id, orgId });
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    return this.assessLateFee(orgId, booking.toDateTime, new Date());
+  }
+
+  /**
+   * Calculate security deposit still held (collected minus refunded and forfeited)
+   */
+  private calculateDepositHeld(payments: any[]): number {
+    const collected = payments
+      .filter((p) => p.type === "DEPOSIT_COLLECTED")
       .reduce((sum, p) => sum + p.amount, 0);
-    const refundsTotal = payments
-      .filter((p) => p.type === "REFUND")
+    const settled = payments
+      .filter(
+        (p) => p.type === "DEPOSIT_REFUNDED" || p.type === "DEPOSIT_FORFEITED"
+      )
       .reduce((sum, p) => sum + p.amount, 0);
-    return paymentsTotal - refundsTotal;
+    return Math.max(0, collected - settled);
   }
 
   /**
@@ -732,17 +1564,31 @@ export class BookingService {
     return Math.max(0, advanceTotal - refundsTotal);
   }
 
+  /**
+   * Re-rate a GST-priced booking after its category changes; its pricing mode stays as agreed
+   */
+  private async updateTaxRate(booking: IBooking, orgId: string) {
+    if (!booking.taxPricingMode) return;
+    const { taxRate } = await resolveBookingTaxTerms(orgId, booking.categoryId);
+    if (taxRate !== undefined) {
+      booking.taxRate = taxRate;
+    }
+  }
+
   /**
    * Update booking financial fields and save
    */
-  private async updateBookingAmounts(booking: any): Promise<any> {
-    const totalPaid = this.calculateTotalPaid(booking.payments);
+  private async updateBookingAmounts(
+    booking: any,
+    session?: mongoose.ClientSession
+  ): Promise<any> {
+    const totalPaid = calculateAmountPaid(booking.payments);
     const totalAdvance = this.calculateTotalAdvance(booking.payments);
 
     booking.advanceAmount = totalAdvance;
-    booking.remainingAmount = booking.decidedRent - totalPaid;
+    booking.remainingAmount = calculateAmountDue(booking) - totalPaid;
 
-    const savedBooking = await booking.save();
+    const savedBooking = await booking.save({ session });
     await savedBooking.populate("orderId", "customerName customerPhone");
 
     // Update order status if booking belongs to an order
@@ -753,12 +1599,133 @@ export class BookingService {
         typeof savedBooking.orderId === "string"
           ? savedBooking.orderId
           : (savedBooking.orderId as any)._id.toString();
-      await orderService.updateOrderStatus(orderIdStr);
+      await orderService.updateOrderStatus(orderIdStr, session);
     }
 
     return savedBooking;
   }
 
+  /**
+   * Save a booking with its newest payment entry
+   * A store credit payment moves the customer's balance in the same transaction
+   */
+  private async savePayment(booking: any, createdBy?: string): Promise<any> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      await storeCreditService.applyPayment(
+        booking,
+        booking.payments[booking.payments.length - 1],
+        { createdBy, session }
+      );
+      const savedBooking = await this.updateBookingAmounts(booking, session);
+
+      await session.commitTransaction();
+      return savedBooking;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Build a receipt for a single payment entry
+   * A sequential receipt number is assigned on first request and kept thereafter
+   */
+  async getPaymentReceipt(
+    id: string,
+    paymentId: string,
+    orgId: string
+  ): Promise<ReceiptData> {
+    const booking = await Booking.findOne({ _id: id, orgId });
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const payment = booking.payments.find(
+      (p) => p._id?.toString() === paymentId
+    );
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+
+    const organization = await Organization.findById(orgId);
+
+    let receiptNumber = payment.receiptNumber;
+    if (!receiptNumber) {
+      const seq = await getNextSequence(orgId, "receipt");
+      const candidate = formatDocumentNumber(organization?.code, "RCPT", seq);
+      // Only set if still unassigned so concurrent requests agree on one number
+      await Booking.updateOne(
+        {
+          _id: id,
+          orgId,
+          payments: {
+            $elemMatch: { _id: payment._id, receiptNumber: { $exists: false } },
+          },
+        },
+        { $set: { "payments.$.receiptNumber": candidate } }
+      );
+      const refreshed = await Booking.findById(id).select("payments");
+      receiptNumber =
+        refreshed?.payments.find((p) => p._id?.toString() === paymentId)
+          ?.receiptNumber || candidate;
+    }
+
+    await booking.populate("orderId", "customerName customerPhone");
+    await booking.populate("productId", "title code");
+
+    const order = booking.orderId as any;
+    const product = booking.productId as any;
+    const amountDue = calculateAmountDue(booking);
+    const totalPaid = calculateAmountPaid(booking.payments);
+
+    return {
+      receiptNumber,
+      issuedAt: new Date(),
+      organization: organization
+        ? {
+            name: organization.name,
+            code: organization.code,
+            address: organization.address,
+            contact: organization.contact,
+            location: organization.location,
+            instagram: organization.instagram,
+            facebook: organization.facebook,
+          }
+        : undefined,
+      customer: {
+        name: order?.customerName || "Unknown",
+        phone: order?.customerPhone,
+      },
+      booking: {
+        id: booking._id.toString(),
+        orderId: order?._id?.toString(),
+        product: product?.title || "Unknown",
+        productCode: product?.code,
+        fromDateTime: booking.fromDateTime,
+        toDateTime: booking.toDateTime,
+      },
+      payment: {
+        id: paymentId,
+        type: payment.type,
+        amount: payment.amount,
+        at: payment.at,
+        method: payment.method,
+        reference: payment.reference,
+        note: payment.note,
+      },
+      balances: {
+        amountDue,
+        totalPaid,
+        remainingAmount: amountDue - totalPaid,
+      },
+    };
+  }
+
   /**
    * Generate payment note based on type and amount
    */
@@ -793,8 +1760,14 @@ export class BookingService {
       throw new Error("Booking not found");
     }
 
-    const currentTotalPaid = this.calculateTotalPaid(booking.payments);
-    const currentRemaining = booking.decidedRent - currentTotalPaid;
+    if (booking.status === "HELD") {
+      throw new Error(
+        "Cannot record payments on a hold. Convert the hold to record the advance."
+      );
+    }
+
+    const currentTotalPaid = calculateAmountPaid(booking.payments);
+    const currentRemaining = calculateAmountDue(booking) - currentTotalPaid;
 
     // Handle REFUND type separately
     if (paymentData.type === "REFUND") {
@@ -841,6 +1814,7 @@ export class BookingService {
         type: "REFUND",
         amount: paymentData.amount,
         at: new Date(),
+        ...paymentDetailFields(paymentData),
         note: this.generatePaymentNote(
           "REFUND",
           paymentData.amount,
@@ -848,8 +1822,7 @@ export class BookingService {
           paymentData.note
         ),
       });
-
-      return this.updateBookingAmounts(booking);
+      return this.savePayment(booking, paymentData.collectedBy);
     }
 
     // Handle regular payments (ADVANCE or PAYMENT_RECEIVED)
@@ -872,6 +1845,7 @@ export class BookingService {
       type: paymentType,
       amount: allowedPaymentAmount,
       at: new Date(),
+      ...paymentDetailFields(paymentData),
       note: this.generatePaymentNote(
         paymentType,
         allowedPaymentAmount,
@@ -879,7 +1853,6 @@ export class BookingService {
         paymentData.note
       ),
     });
-
-    return this.updateBookingAmounts(booking);
+    return this.savePayment(booking, paymentData.collectedBy);
   }
 }
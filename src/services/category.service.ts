@@ -5,11 +5,17 @@ export interface CreateCategoryData {
   orgId: string;
   name: string;
   description?: string;
+  turnaroundBufferHours?: number;
+  hsnSacCode?: string;
+  gstRate?: number;
 }
 
 export interface UpdateCategoryData {
   name?: string;
   description?: string;
+  turnaroundBufferHours?: number;
+  hsnSacCode?: string | null;
+  gstRate?: number | null; // null falls back to the organization's default rate
   isActive?: boolean;
 }
 
@@ -54,7 +60,14 @@ export class CategoryService {
   }
 
   async createCategory(data: CreateCategoryData) {
-    const { orgId, name, description } = data;
+    const {
+      orgId,
+      name,
+      description,
+      turnaroundBufferHours,
+      hsnSacCode,
+      gstRate,
+    } = data;
 
     // Check if category with same name exists
     const existing = await Category.findOne({ orgId, name, isActive: { $ne: false } });
@@ -66,6 +79,9 @@ export class CategoryService {
       orgId,
       name,
       description,
+      turnaroundBufferHours,
+      hsnSacCode: hsnSacCode || undefined,
+      gstRate,
     });
 
     return category;
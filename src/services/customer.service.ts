@@ -0,0 +1,319 @@
+import mongoose from "mongoose";
+import { Customer } from "../models/Customer";
+import { Order } from "../models/Order";
+import { Booking } from "../models/Booking";
+import { StoreCreditEntry } from "../models/StoreCreditEntry";
+import { PaginationHelper, PaginatedResponse } from "../types/pagination";
+import { normalizePhoneNumber } from "../utils/phone";
+import {
+  calculateAmountDue,
+  calculateAmountPaid,
+} from "../utils/booking-amounts";
+
+export interface CreateCustomerData {
+  orgId: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  notes?: string;
+}
+
+export interface UpdateCustomerData {
+  name?: string;
+  phone?: string | null;
+  email?: string | null;
+  notes?: string | null;
+}
+
+export interface ListCustomersFilters {
+  orgId: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface StoreCreditQuery {
+  page?: number;
+  limit?: number;
+}
+
+export type CustomerBookingScope = "past" | "upcoming" | "all";
+
+export interface CustomerStats {
+  orderCount: number;
+  bookingCount: number;
+  lifetimeSpend: number; // Net rent paid across all orders (payments minus refunds)
+  outstandingDues: number; // Amount still owed on active bookings
+}
+
+export class CustomerService {
+  /**
+   * Normalize phone to E.164, falling back to the raw value if already normalized
+   */
+  private normalizePhone(phone?: string | null): string | undefined {
+    if (!phone) return undefined;
+    if (phone.startsWith("+")) return phone;
+    return normalizePhoneNumber(phone) || undefined;
+  }
+
+  /**
+   * Find the customer for a phone number within an org, creating one if needed
+   * Customers without a phone number cannot be deduplicated and are always created
+   */
+  async findOrCreateCustomer(
+    orgId: string,
+    name: string,
+    phone?: string | null
+  ) {
+    const normalizedPhone = this.normalizePhone(phone);
+
+    if (normalizedPhone) {
+      const existing = await Customer.findOne({
+        orgId,
+        phone: normalizedPhone,
+      });
+      if (existing) {
+        return existing;
+      }
+    }
+
+    try {
+      return await Customer.create({
+        orgId,
+        name,
+        phone: normalizedPhone,
+      });
+    } catch (error: any) {
+      // Another request created the same phone concurrently - use that one
+      if (error.code === 11000 && normalizedPhone) {
+        const existing = await Customer.findOne({
+          orgId,
+          phone: normalizedPhone,
+        });
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  async listCustomers(
+    filters: ListCustomersFilters
+  ): Promise<PaginatedResponse<any>> {
+    const { orgId, search, page: rawPage, limit: rawLimit } = filters;
+
+    const { page, limit } = PaginationHelper.validateParams(rawPage, rawLimit);
+    const skip = PaginationHelper.getSkip(page, limit);
+
+    const query: any = { orgId };
+
+    if (search && search.trim()) {
+      const searchTerm = search.trim();
+      const searchDigits = searchTerm.replace(/\D/g, "");
+      query.$or = [
+        { name: { $regex: searchTerm, $options: "i" } },
+        { email: { $regex: searchTerm, $options: "i" } },
+      ];
+      if (searchDigits) {
+        query.$or.push({ phone: { $regex: searchDigits } });
+      }
+    }
+
+    const [total, customers] = await Promise.all([
+      Customer.countDocuments(query),
+      Customer.find(query).sort({ name: 1 }).skip(skip).limit(limit).lean(),
+    ]);
+
+    return {
+      data: customers,
+      pagination: PaginationHelper.getMeta(page, limit, total),
+    };
+  }
+
+  async getCustomerById(id: string, orgId: string) {
+    const customer = await Customer.findOne({ _id: id, orgId });
+    if (!customer) {
+      throw new Error("Customer not found");
+    }
+    return customer;
+  }
+
+  async createCustomer(data: CreateCustomerData) {
+    const { orgId, name, phone, email, notes } = data;
+    const normalizedPhone = this.normalizePhone(phone);
+
+    if (normalizedPhone) {
+      const existing = await Customer.findOne({
+        orgId,
+        phone: normalizedPhone,
+      });
+      if (existing) {
+        throw new Error("Customer phone already exists");
+      }
+    }
+
+    return await Customer.create({
+      orgId,
+      name,
+      phone: normalizedPhone,
+      email: email || undefined,
+      notes: notes || undefined,
+    });
+  }
+
+  async updateCustomer(id: string, orgId: string, data: UpdateCustomerData) {
+    const customer = await Customer.findOne({ _id: id, orgId });
+    if (!customer) {
+      throw new Error("Customer not found");
+    }
+
+    if (data.phone !== undefined) {
+      const normalizedPhone = this.normalizePhone(data.phone);
+      if (normalizedPhone && normalizedPhone !== customer.phone) {
+        const existing = await Customer.findOne({
+          orgId,
+          phone: normalizedPhone,
+          _id: { $ne: id },
+        });
+        if (existing) {
+          throw new Error("Customer phone already exists");
+        }
+      }
+      customer.phone = normalizedPhone;
+    }
+    if (data.name) customer.name = data.name;
+    if (data.email !== undefined) customer.email = data.email || undefined;
+    if (data.notes !== undefined) customer.notes = data.notes || undefined;
+
+    const saved = await customer.save();
+
+    // Keep order snapshots in sync so order search keeps finding this customer
+    await Order.updateMany(
+      { orgId, customerId: saved._id },
+      { $set: { customerName: saved.name, customerPhone: saved.phone } }
+    );
+
+    return saved;
+  }
+
+  /**
+   * Customer profile with lifetime spend, outstanding dues and booking history
+   */
+  async getCustomerProfile(id: string, orgId: string) {
+    const customer = await this.getCustomerById(id, orgId);
+
+    const orders = await Order.find({ orgId, customerId: customer._id })
+      .select("_id status createdAt")
+      .lean();
+    const orderIds = orders.map((o) => o._id);
+
+    const bookings = await Booking.find({ orderId: { $in: orderIds } });
+
+    const stats: CustomerStats = {
+      orderCount: orders.length,
+      bookingCount: bookings.length,
+      lifetimeSpend: 0,
+      outstandingDues: 0,
+    };
+
+    bookings.forEach((booking) => {
+      const paid = calculateAmountPaid(booking.payments);
+      stats.lifetimeSpend += paid;
+
+      if (booking.status !== "CANCELLED") {
+        stats.outstandingDues += Math.max(
+          0,
+          calculateAmountDue(booking) - paid
+        );
+      }
+    });
+
+    const [upcomingBookings, pastBookings] = await Promise.all([
+      this.getCustomerBookings(id, orgId, "upcoming"),
+      this.getCustomerBookings(id, orgId, "past"),
+    ]);
+
+    return {
+      customer,
+      stats,
+      upcomingBookings,
+      pastBookings,
+    };
+  }
+
+  /**
+   * Bookings across all of a customer's orders
+   * upcoming = BOOKED or ISSUED, past = RETURNED or CANCELLED
+   */
+  async getCustomerBookings(
+    id: string,
+    orgId: string,
+    scope: CustomerBookingScope = "all"
+  ) {
+    const customer = await this.getCustomerById(id, orgId);
+
+    const orderIds = await Order.find({
+      orgId,
+      customerId: customer._id,
+    }).distinct("_id");
+
+    const query: any = {
+      orgId: new mongoose.Types.ObjectId(orgId),
+      orderId: { $in: orderIds },
+    };
+    if (scope === "upcoming") {
+      query.status = { $in: ["BOOKED", "ISSUED"] };
+    } else if (scope === "past") {
+      query.status = { $in: ["RETURNED", "CANCELLED"] };
+    }
+
+    return await Booking.find(query)
+      .populate("productId", "title code imageUrl defaultRent")
+      .populate("categoryId", "name")
+      .populate("orderId", "status createdAt")
+      .sort({ fromDateTime: scope === "upcoming" ? 1 : -1 })
+      .lean();
+  }
+
+  /**
+   * Store credit balance with the ledger behind it, newest first
+   * Each entry links the booking the credit came from or was spent on
+   */
+  async getStoreCredit(
+    id: string,
+    orgId: string,
+    query: StoreCreditQuery = {}
+  ) {
+    const customer = await this.getCustomerById(id, orgId);
+
+    const { page, limit } = PaginationHelper.validateParams(
+      query.page,
+      query.limit
+    );
+    const skip = PaginationHelper.getSkip(page, limit);
+
+    const filter = { orgId, customerId: customer._id };
+    const [total, entries] = await Promise.all([
+      StoreCreditEntry.countDocuments(filter),
+      StoreCreditEntry.find(filter)
+        .populate({
+          path: "bookingId",
+          select: "productId fromDateTime toDateTime status",
+          populate: { path: "productId", select: "title code" },
+        })
+        .populate("createdBy", "name")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+    ]);
+
+    return {
+      customerId: customer._id,
+      balance: customer.storeCreditBalance ?? 0,
+      entries: {
+        data: entries,
+        pagination: PaginationHelper.getMeta(page, limit, total),
+      },
+    };
+  }
+}
@@ -1,14 +1,25 @@
 import mongoose from "mongoose";
 import { Booking } from "../models/Booking";
+import { MaintenanceBlock } from "../models/MaintenanceBlock";
+import { WaitlistEntry } from "../models/WaitlistEntry";
+import { getOverdueMs, withOverdueInfo } from "../utils/booking-status";
+import {
+  summarizePaymentsByMethod,
+  PaymentMethodBreakdown,
+} from "../utils/booking-amounts";
 
 export interface DashboardStats {
   totalBookings: number;
+  heldCount: number;
   bookedCount: number;
   issuedCount: number;
+  overdueCount: number;
   returnedCount: number;
   cancelledCount: number;
   totalRent: number;
   totalReceived: number;
+  depositsHeld: number;
+  depositsForfeited: number;
 }
 
 export interface TopProduct {
@@ -26,6 +37,12 @@ export interface TopProduct {
   bookingCount: number;
 }
 
+export interface PaymentsByMethod {
+  from: Date;
+  to: Date;
+  methods: PaymentMethodBreakdown[];
+}
+
 export interface GetStatsParams {
   orgId: string;
   date?: string;
@@ -53,6 +70,18 @@ export class DashboardService {
               },
             },
           ],
+          // Issued bookings past their planned return time
+          overdueCount: [
+            {
+              $match: {
+                status: "ISSUED",
+                toDateTime: { $lt: new Date() },
+              },
+            },
+            {
+              $count: "total",
+            },
+          ],
           // Total bookings count
           totalCount: [
             {
@@ -103,23 +132,38 @@ export class DashboardService {
     });
 
     // Calculate total received (payments - refunds)
+    // Security deposits are tracked separately and never counted as rent received
     let totalReceived = 0;
+    let depositsHeld = 0;
+    let depositsForfeited = 0;
     result.totalReceived.forEach((r: any) => {
       if (r._id === "ADVANCE" || r._id === "PAYMENT_RECEIVED") {
         totalReceived += r.total;
       } else if (r._id === "REFUND") {
         totalReceived -= r.total;
+      } else if (r._id === "DEPOSIT_COLLECTED") {
+        depositsHeld += r.total;
+      } else if (r._id === "DEPOSIT_REFUNDED") {
+        depositsHeld -= r.total;
+      } else if (r._id === "DEPOSIT_FORFEITED") {
+        depositsHeld -= r.total;
+        depositsForfeited += r.total;
       }
     });
 
     const stats: DashboardStats = {
       totalBookings: result.totalCount.length > 0 ? result.totalCount[0].total : 0,
+      heldCount: statusMap.get("HELD") || 0,
       bookedCount: statusMap.get("BOOKED") || 0,
       issuedCount: statusMap.get("ISSUED") || 0,
+      overdueCount:
+        result.overdueCount.length > 0 ? result.overdueCount[0].total : 0,
       returnedCount: statusMap.get("RETURNED") || 0,
       cancelledCount: statusMap.get("CANCELLED") || 0,
       totalRent: result.totalRent.length > 0 ? result.totalRent[0].total : 0,
       totalReceived,
+      depositsHeld: Math.max(0, depositsHeld),
+      depositsForfeited,
     };
 
     return stats;
@@ -145,6 +189,40 @@ export class DashboardService {
       .sort({ createdAt: -1 }); // Sort by creation date, newest first
   }
 
+  /**
+   * Money taken and paid out per payment method on a day, for day-end reconciliation
+   */
+  async getPaymentsByMethod(
+    orgId: string,
+    date?: string
+  ): Promise<PaymentsByMethod> {
+    const startDate = date
+      ? new Date(date)
+      : new Date(new Date().setHours(0, 0, 0, 0));
+    startDate.setHours(0, 0, 0, 0);
+    const endDate = new Date(startDate);
+    endDate.setDate(endDate.getDate() + 1);
+
+    const inRange = { $gte: startDate, $lt: endDate };
+    const payments = await Booking.aggregate([
+      {
+        $match: {
+          orgId: new mongoose.Types.ObjectId(orgId),
+          "payments.at": inRange,
+        },
+      },
+      { $unwind: "$payments" },
+      { $match: { "payments.at": inRange } },
+      { $replaceRoot: { newRoot: "$payments" } },
+    ]);
+
+    return {
+      from: startDate,
+      to: endDate,
+      methods: summarizePaymentsByMethod(payments),
+    };
+  }
+
   async getRecentBookings(orgId: string, days: number = 5) {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
@@ -183,8 +261,7 @@ export class DashboardService {
   }
 
   async getCustomerReturns(orgId: string, days: number = 7) {
-    const startDate = new Date();
-    startDate.setHours(0, 0, 0, 0);
+    const now = new Date();
     const endDate = new Date();
     endDate.setDate(endDate.getDate() + days);
     endDate.setHours(23, 59, 59, 999);
@@ -192,7 +269,7 @@ export class DashboardService {
     // Filter by toDateTime (return date) to show products ready to return
     // Show all past ISSUED bookings (overdue returns) plus next 7 days
     // Only show bookings with ISSUED status (items already issued to customers, now due to be returned)
-    return await Booking.find({
+    const bookings = await Booking.find({
       orgId,
       toDateTime: { $lte: endDate }, // Include all past dates and next 7 days
       status: "ISSUED", // Only show ISSUED status (items already with customers)
@@ -200,7 +277,77 @@ export class DashboardService {
       .populate("productId")
       .populate("categoryId")
       .populate("orderId", "customerName customerPhone")
-      .sort({ toDateTime: 1 }); // Sort by return date ascending (earliest first)
+      .populate("issuedBy", "name")
+      .lean();
+
+    // Rank by lateness: most overdue first, then upcoming returns by due date
+    return bookings
+      .sort((a: any, b: any) => {
+        const lateDiff = getOverdueMs(b, now) - getOverdueMs(a, now);
+        if (lateDiff !== 0) return lateDiff;
+        return (
+          new Date(a.toDateTime).getTime() - new Date(b.toDateTime).getTime()
+        );
+      })
+      .map((booking: any) => withOverdueInfo(booking, now));
+  }
+
+  async getOverdueBookings(orgId: string) {
+    const now = new Date();
+
+    // OVERDUE is derived: issued and not back by the planned return time
+    const bookings = await Booking.find({
+      orgId,
+      status: "ISSUED",
+      toDateTime: { $lt: now },
+    })
+      .populate("productId")
+      .populate("categoryId")
+      .populate("orderId", "customerName customerPhone")
+      .populate("issuedBy", "name")
+      .sort({ toDateTime: 1 }) // Earliest due date = most overdue first
+      .lean();
+
+    return bookings.map((booking: any) => withOverdueInfo(booking, now));
+  }
+
+  /**
+   * Products out of circulation right now: blocks in progress, or scheduled
+   * blocks whose window has started
+   */
+  async getMaintenanceItems(orgId: string) {
+    const now = new Date();
+
+    const blocks = await MaintenanceBlock.find({
+      orgId,
+      $or: [
+        { status: "IN_PROGRESS" },
+        {
+          status: "SCHEDULED",
+          fromDateTime: { $lte: now },
+          toDateTime: { $gt: now },
+        },
+      ],
+    })
+      .populate("productId", "title code imageUrl")
+      .populate("createdBy", "name")
+      .sort({ toDateTime: 1 }) // Expected back soonest first
+      .lean();
+
+    return blocks.map((block: any) => ({
+      ...block,
+      isPastExpectedReturn: block.toDateTime < now,
+    }));
+  }
+
+  /**
+   * Waitlisted customers to contact now that their product freed up, in priority order
+   */
+  async getNotifiableWaitlist(orgId: string) {
+    return await WaitlistEntry.find({ orgId, status: "NOTIFIABLE" })
+      .populate("productId", "title code imageUrl")
+      .sort({ productId: 1, priority: 1, createdAt: 1 })
+      .lean();
   }
 
   async getTopProducts(
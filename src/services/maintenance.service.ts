@@ -0,0 +1,211 @@
+import {
+  MaintenanceBlock,
+  MaintenanceStatus,
+} from "../models/MaintenanceBlock";
+import { Product } from "../models/Product";
+import {
+  findBookingConflicts,
+  findMaintenanceOverlaps,
+} from "../utils/booking-conflicts";
+
+// Blocks only move forward; DONE is final
+const ALLOWED_TRANSITIONS: Record<MaintenanceStatus, MaintenanceStatus[]> = {
+  SCHEDULED: ["IN_PROGRESS", "DONE"],
+  IN_PROGRESS: ["DONE"],
+  DONE: [],
+};
+
+export interface CreateMaintenanceBlockData {
+  orgId: string;
+  productId: string;
+  fromDateTime: Date;
+  toDateTime: Date;
+  reason: string;
+  notes?: string;
+  status?: MaintenanceStatus;
+  createdBy?: string;
+  overrideConflicts?: boolean;
+}
+
+export interface UpdateMaintenanceBlockData {
+  fromDateTime?: Date;
+  toDateTime?: Date;
+  reason?: string;
+  notes?: string | null;
+  status?: MaintenanceStatus;
+  overrideConflicts?: boolean;
+}
+
+export class MaintenanceService {
+  private async assertProductExists(productId: string, orgId: string) {
+    const product = await Product.findOne({ _id: productId, orgId })
+      .select("_id")
+      .lean();
+    if (!product) {
+      throw new Error("Product not found");
+    }
+  }
+
+  /**
+   * Refuse windows that clash with another open block, or with bookings unless overridden
+   * Bookings inside the product's turnaround buffer count as clashes too
+   */
+  private async assertWindowAvailable(
+    orgId: string,
+    productId: string,
+    from: Date,
+    to: Date,
+    overrideConflicts?: boolean,
+    excludeBlockId?: string
+  ) {
+    const otherBlocks = await findMaintenanceOverlaps(
+      orgId,
+      productId,
+      from,
+      to,
+      excludeBlockId
+    );
+    if (otherBlocks.length > 0) {
+      throw new Error("Maintenance block overlaps an existing block");
+    }
+
+    if (!overrideConflicts) {
+      // Maintenance clashes were checked above, excluding the block being edited
+      const { overlaps, bufferConflicts } = await findBookingConflicts(
+        orgId,
+        productId,
+        from,
+        to
+      );
+      if (overlaps.length > 0 || bufferConflicts.length > 0) {
+        throw new Error("CONFLICT");
+      }
+    }
+  }
+
+  async listBlocks(
+    productId: string,
+    orgId: string,
+    status?: MaintenanceStatus
+  ) {
+    await this.assertProductExists(productId, orgId);
+
+    const query: any = { orgId, productId };
+    if (status) {
+      query.status = status;
+    }
+
+    return await MaintenanceBlock.find(query)
+      .populate("createdBy", "name")
+      .sort({ fromDateTime: -1 })
+      .lean();
+  }
+
+  async getBlockById(id: string, productId: string, orgId: string) {
+    const block = await MaintenanceBlock.findOne({ _id: id, productId, orgId })
+      .populate("createdBy", "name")
+      .lean();
+    if (!block) {
+      throw new Error("Maintenance block not found");
+    }
+    return block;
+  }
+
+  async createBlock(data: CreateMaintenanceBlockData) {
+    const { orgId, productId, fromDateTime, toDateTime } = data;
+    const from = new Date(fromDateTime);
+    const to = new Date(toDateTime);
+
+    await this.assertProductExists(productId, orgId);
+    await this.assertWindowAvailable(
+      orgId,
+      productId,
+      from,
+      to,
+      data.overrideConflicts
+    );
+
+    const status = data.status || "SCHEDULED";
+    const now = new Date();
+
+    return await MaintenanceBlock.create({
+      orgId,
+      productId,
+      fromDateTime: from,
+      toDateTime: to,
+      reason: data.reason,
+      notes: data.notes || undefined,
+      status,
+      createdBy: data.createdBy,
+      startedAt: status !== "SCHEDULED" ? now : undefined,
+      completedAt: status === "DONE" ? now : undefined,
+    });
+  }
+
+  async updateBlock(
+    id: string,
+    productId: string,
+    orgId: string,
+    data: UpdateMaintenanceBlockData
+  ) {
+    const block = await MaintenanceBlock.findOne({ _id: id, productId, orgId });
+    if (!block) {
+      throw new Error("Maintenance block not found");
+    }
+    if (block.status === "DONE") {
+      throw new Error("Completed maintenance blocks cannot be edited");
+    }
+
+    if (data.fromDateTime || data.toDateTime) {
+      const from = new Date(data.fromDateTime || block.fromDateTime);
+      const to = new Date(data.toDateTime || block.toDateTime);
+      if (to <= from) {
+        throw new Error("To date time must be after from date time");
+      }
+
+      await this.assertWindowAvailable(
+        orgId,
+        productId,
+        from,
+        to,
+        data.overrideConflicts,
+        id
+      );
+      block.fromDateTime = from;
+      block.toDateTime = to;
+    }
+
+    if (data.reason !== undefined) block.reason = data.reason;
+    if (data.notes !== undefined) block.notes = data.notes || undefined;
+
+    if (data.status && data.status !== block.status) {
+      if (!ALLOWED_TRANSITIONS[block.status].includes(data.status)) {
+        throw new Error(
+          `Cannot move maintenance block from ${block.status} to ${data.status}`
+        );
+      }
+      const now = new Date();
+      if (!block.startedAt) block.startedAt = now;
+      if (data.status === "DONE") block.completedAt = now;
+      block.status = data.status;
+    }
+
+    await block.save();
+    return block;
+  }
+
+  async deleteBlock(id: string, productId: string, orgId: string) {
+    const block = await MaintenanceBlock.findOne({ _id: id, productId, orgId });
+    if (!block) {
+      throw new Error("Maintenance block not found");
+    }
+    if (block.status === "IN_PROGRESS") {
+      throw new Error(
+        "Maintenance in progress cannot be deleted; mark it as done instead"
+      );
+    }
+
+    await block.deleteOne();
+    return { message: "Maintenance block deleted" };
+  }
+}
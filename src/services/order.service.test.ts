@@ -0,0 +1,90 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import { Order } from "../models/Order";
+import { Booking } from "../models/Booking";
+import { Organization } from "../models/Organization";
+import { Counter } from "../models/Counter";
+import { OrderService } from "./order.service";
+
+/**
+ * Stand-in for a mongoose query: chainable, resolving to the given result
+ */
+function query<T>(result: T) {
+  const chain: any = {
+    populate: () => chain,
+    sort: () => chain,
+    select: () => chain,
+    session: () => chain,
+    lean: () => chain,
+    then: (resolve: any, reject: any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+}
+
+test("invoice GST follows charges added after the invoice was first viewed", async (t) => {
+  const orgId = new mongoose.Types.ObjectId();
+  const order = new Order({
+    orgId,
+    customerName: "Test Customer",
+    status: "IN_PROGRESS",
+  });
+  const booking = new Booking({
+    orgId,
+    orderId: order._id,
+    productId: new mongoose.Types.ObjectId(),
+    fromDateTime: new Date("2026-01-01T10:00:00Z"),
+    toDateTime: new Date("2026-01-04T10:00:00Z"),
+    productDefaultRent: 1000,
+    decidedRent: 1000,
+    taxRate: 18,
+    taxPricingMode: "EXCLUSIVE",
+    advanceAmount: 0,
+    remainingAmount: 1180,
+    status: "ISSUED",
+  });
+  order.bookings.push(booking._id);
+
+  t.after(() => mock.restoreAll());
+  mock.method(Order, "findOne", () => query(order));
+  const findOneAndUpdate = mock.method(
+    Order,
+    "findOneAndUpdate",
+    (_filter: any, update: any) => {
+      order.set(update.$set);
+      return query(order);
+    }
+  );
+  mock.method(Organization, "findById", () =>
+    query({
+      taxSettings: { enabled: true, pricingMode: "EXCLUSIVE", defaultRate: 18 },
+    })
+  );
+  mock.method(Counter, "findOneAndUpdate", () => query({ seq: 1 }));
+  mock.method(Booking, "find", () => query([booking]));
+
+  const orderService = new OrderService();
+  const first = await orderService.generateInvoice(
+    order._id.toString(),
+    orgId.toString()
+  );
+  assert.equal(first.tax?.totals.totalTax, 180);
+  assert.equal(first.tax?.totals.total, first.totalAmount);
+
+  // Viewing the invoice assigns its number but leaves the tax open
+  const { $set } = findOneAndUpdate.mock.calls[0].arguments[1] as any;
+  assert.deepEqual(Object.keys($set).sort(), ["invoiceNumber", "invoicedAt"]);
+  assert.equal(order.invoiceTax, undefined);
+
+  booking.charges.push({ type: "DAMAGE", amount: 500, at: new Date() });
+
+  const second = await orderService.generateInvoice(
+    order._id.toString(),
+    orgId.toString()
+  );
+  assert.equal(second.invoiceNumber, first.invoiceNumber);
+  assert.equal(second.tax?.totals.totalTax, 270);
+  assert.equal(second.tax?.totals.total, 1770);
+  assert.equal(second.totalAmount, 1770);
+});
@@ -1,14 +1,52 @@
 import mongoose from "mongoose";
 import { Order, OrderStatus } from "../models/Order";
-import { Booking, BookingStatus, PaymentType } from "../models/Booking";
+import {
+  Booking,
+  BookingStatus,
+  PaymentType,
+  PaymentMethod,
+} from "../models/Booking";
 import { Product } from "../models/Product";
 import { Organization } from "../models/Organization";
+import { Customer } from "../models/Customer";
 import { PaginationHelper, PaginatedResponse } from "../types/pagination";
 import { normalizePhoneNumber } from "../utils/phone";
+import { CustomerService } from "./customer.service";
+import { ReleasedBooking, WaitlistService } from "./waitlist.service";
+import { StoreCreditService } from "./store-credit.service";
+import { getNextSequence, formatDocumentNumber } from "../utils/sequence";
+import {
+  findBookingConflicts,
+  hasAnyConflict,
+} from "../utils/booking-conflicts";
+import {
+  calculateAmountDue,
+  calculateAmountPaid,
+  calculateChargesTotal,
+  paymentDetailFields,
+  summarizePaymentsByMethod,
+  PaymentMethodBreakdown,
+} from "../utils/booking-amounts";
+import {
+  calculatePolicyRefund,
+  isSameAmount,
+  PolicyRefund,
+} from "../utils/cancellation-policy";
+import {
+  calculateInvoiceTax,
+  InvoiceTax,
+  resolveBookingTaxTerms,
+} from "../utils/gst";
+import { logError } from "../utils/logger";
+
+const customerService = new CustomerService();
+const waitlistService = new WaitlistService();
+const storeCreditService = new StoreCreditService();
 
 export interface CreateOrderData {
   orgId: string;
-  customerName: string;
+  customerId?: string; // Existing customer; otherwise resolved by phone
+  customerName?: string;
   customerPhone?: string;
   bookings?: CreateOrderBookingData[];
 }
@@ -22,11 +60,75 @@ export interface CreateOrderBookingData {
   advanceAmount: number;
   additionalItemsDescription?: string;
   overrideConflicts?: boolean;
+  holdExpiresAt?: Date; // Creates a tentative HELD booking instead of BOOKED
+  advanceMethod?: PaymentMethod;
+  advanceReference?: string;
+  collectedBy?: string; // Staff user taking the advance
 }
 
 export interface UpdateOrderData {
+  customerId?: string;
   customerName?: string;
   customerPhone?: string;
+  customerGstin?: string | null;
+  placeOfSupply?: string | null; // 2-digit GST state code
+}
+
+export interface MoveBookingData {
+  targetOrderId: string;
+  note?: string;
+  movedBy?: string;
+}
+
+export interface MergeOrdersData {
+  sourceOrderId: string; // Order whose bookings move into the target; it is closed afterwards
+  note?: string;
+  mergedBy?: string;
+}
+
+export type PaymentAllocationStrategy =
+  | "OLDEST_FIRST"
+  | "PROPORTIONAL"
+  | "MANUAL";
+
+export interface OrderPaymentData {
+  amount: number;
+  strategy: PaymentAllocationStrategy;
+  allocations?: Array<{ bookingId: string; amount: number }>; // MANUAL only
+  method?: PaymentMethod;
+  reference?: string;
+  note?: string;
+  collectedBy?: string;
+}
+
+export interface OrderReceiptData {
+  receiptNumber: string;
+  issuedAt: Date;
+  organization?: InvoiceOrganization;
+  customer: {
+    name: string;
+    phone?: string;
+  };
+  orderId: string;
+  payment: {
+    amount: number;
+    at: Date;
+    method: PaymentMethod;
+    reference?: string;
+    note?: string;
+  };
+  allocations: Array<{
+    bookingId: string;
+    paymentId: string;
+    product: string;
+    type: PaymentType;
+    amount: number;
+  }>;
+  balances: {
+    totalAmount: number;
+    totalReceived: number;
+    remainingAmount: number;
+  };
 }
 
 export interface ListOrdersFilters {
@@ -39,31 +141,66 @@ export interface ListOrdersFilters {
   limit?: number;
 }
 
+export interface RefundOverrideOptions {
+  cancelledBy?: string; // Staff user performing the cancellation
+  overrideReason?: string; // Required when the refund differs from the policy suggestion
+  refundMethod?: PaymentMethod; // How the refund is paid out; required when one is made, STORE_CREDIT keeps it as credit
+  refundReference?: string;
+}
+
+export interface DepositTotals {
+  depositCollected: number;
+  depositRefunded: number;
+  depositForfeited: number;
+  depositHeld: number;
+}
+
+export interface InvoiceOrganization {
+  name: string;
+  code?: string;
+  address?: string;
+  contact?: string;
+  location?: string;
+  instagram?: string;
+  facebook?: string;
+}
+
 export interface InvoiceData {
+  invoiceNumber: string;
+  invoiceDate: Date;
   order: any;
   bookings: any[];
   totalAmount: number;
   totalReceived: number;
   remainingAmount: number;
+  totalRent: number;
+  totalCharges: number;
+  charges: any[];
+  deposits: DepositTotals;
   paymentHistory: any[];
-  organization?: {
-    name: string;
-    code?: string;
-  };
+  paymentsByMethod: PaymentMethodBreakdown[];
+  tax?: InvoiceTax; // Present when the organization has GST enabled
+  organization?: InvoiceOrganization;
 }
 
 export class OrderService {
   /**
    * Calculate order totals based on active bookings
+   * totalAmount covers rent plus extra charges assessed at return, plus GST on
+   * tax-exclusive bookings; security deposits are reported separately and never counted as rent
    */
   private async calculateOrderTotals(
     orderId: string,
     session?: mongoose.ClientSession
-  ): Promise<{
-    totalAmount: number;
-    totalReceived: number;
-    remainingAmount: number;
-  }> {
+  ): Promise<
+    {
+      totalAmount: number;
+      totalReceived: number;
+      remainingAmount: number;
+      totalRent: number;
+      totalCharges: number;
+    } & DepositTotals
+  > {
     const bookings = session
       ? await Booking.find({
           orderId,
@@ -74,26 +211,78 @@ export class OrderService {
           status: { $ne: "CANCELLED" },
         });
 
-    const totalAmount = bookings.reduce((sum, b) => sum + b.decidedRent, 0);
+    const totalRent = bookings.reduce((sum, b) => sum + b.decidedRent, 0);
+    const totalCharges = bookings.reduce(
+      (sum, b) => sum + calculateChargesTotal(b.charges),
+      0
+    );
+    const totalAmount = bookings.reduce(
+      (sum, b) => sum + calculateAmountDue(b),
+      0
+    );
+
+    const totalReceived = bookings.reduce(
+
+      (sum, booking) => sum + calculateAmountPaid(booking.payments),
+
+      0
+
+    );
+
+    const sumPayments = (type: PaymentType) =>
+      bookings.reduce(
+        (sum, booking) =>
+          sum +
+          booking.payments
+            .filter((p) => p.type === type)
+            .reduce((s, p) => s + p.amount, 0),
+        0
+      );
 
-    const totalReceived = bookings.reduce((sum, booking) => {
-      const paid =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((s, p) => s + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((s, p) => s + p.amount, 0);
-      return sum + paid;
-    }, 0);
+    const depositCollected = sumPayments("DEPOSIT_COLLECTED");
+    const depositRefunded = sumPayments("DEPOSIT_REFUNDED");
+    const depositForfeited = sumPayments("DEPOSIT_FORFEITED");
 
     return {
       totalAmount,
       totalReceived,
       remainingAmount: totalAmount - totalReceived,
+      totalRent,
+      totalCharges,
+      depositCollected,
+      depositRefunded,
+      depositForfeited,
+      depositHeld: Math.max(
+        0,
+        depositCollected - depositRefunded - depositForfeited
+      ),
     };
   }
 
+  /**
+   * Recalculate and store an order's totals and status after its bookings change
+   * outside the order flows (e.g. a hold released by the sweeper)
+   */
+  async refreshOrderTotals(
+    orderId: string,
+    session?: mongoose.ClientSession
+  ): Promise<void> {
+    const order = session
+      ? await Order.findById(orderId).session(session)
+      : await Order.findById(orderId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const totals = await this.calculateOrderTotals(orderId, session);
+    order.totalAmount = totals.totalAmount;
+    order.totalReceived = totals.totalReceived;
+    order.remainingAmount = totals.remainingAmount;
+    await order.save({ session });
+
+    await this.updateOrderStatus(orderId, session);
+  }
+
   /**
    * Update order status based on bookings and payments
    */
@@ -158,7 +347,17 @@ export class OrderService {
       newStatus = "INITIATED";
     }
 
-    if (newStatus !== order.status) {
+    // Amounts are final once every booking is back; keep the GST as billed from then on
+    let taxChanged = false;
+    if (allReturned && !order.invoiceTax) {
+      order.invoiceTax = await this.calculateOrderInvoiceTax(order, session);
+      taxChanged = !!order.invoiceTax;
+    } else if (!allReturned && order.invoiceTax) {
+      order.invoiceTax = undefined;
+      taxChanged = true;
+    }
+
+    if (newStatus !== order.status || taxChanged) {
       order.status = newStatus;
       await order.save({ session });
     }
@@ -166,23 +365,63 @@ export class OrderService {
     return newStatus;
   }
 
+  /**
+   * GST breakdown of an order's current bookings, or undefined when GST is off
+   */
+  private async calculateOrderInvoiceTax(
+    order: InstanceType<typeof Order>,
+    session?: mongoose.ClientSession
+  ): Promise<InvoiceTax | undefined> {
+    const organization = await Organization.findById(order.orgId)
+      .select("taxSettings")
+      .session(session ?? null)
+      .lean();
+    const bookings = await Booking.find({ orderId: order._id })
+      .populate("productId", "title")
+      .populate("categoryId", "hsnSacCode gstRate")
+      .session(session ?? null);
+    return calculateInvoiceTax(organization?.taxSettings, order, bookings);
+  }
+
   /**
    * Create a new order with optional initial bookings
    */
   async createOrder(data: CreateOrderData) {
-    const { orgId, customerName, customerPhone, bookings = [] } = data;
+    const { orgId, customerId, customerPhone, bookings = [] } = data;
 
     // Phone number is already normalized and validated by Joi validator
     // But we'll do a safety check to ensure it's in E.164 format
-    const normalizedPhone = customerPhone
+    let normalizedPhone = customerPhone
       ? customerPhone.startsWith("+")
         ? customerPhone // Already normalized
         : normalizePhoneNumber(customerPhone) // Fallback normalization
       : null;
+    let customerName = data.customerName;
+
+    // Link the order to a customer: explicit customerId, else find-or-create by phone
+    let customer;
+    if (customerId) {
+      customer = await Customer.findOne({ _id: customerId, orgId });
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+      customerName = customerName || customer.name;
+      normalizedPhone = normalizedPhone || customer.phone || null;
+    } else {
+      if (!customerName) {
+        throw new Error("Customer name is required");
+      }
+      customer = await customerService.findOrCreateCustomer(
+        orgId,
+        customerName,
+        normalizedPhone
+      );
+    }
 
     // Create the order
     const order = await Order.create({
       orgId,
+      customerId: customer._id,
       customerName,
       customerPhone: normalizedPhone || undefined,
       status: "INITIATED",
@@ -316,9 +555,24 @@ export class OrderService {
       throw new Error("Order not found");
     }
 
+    if (data.customerId) {
+      const customer = await Customer.findOne({ _id: data.customerId, orgId });
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+      order.customerId = customer._id;
+      order.customerName = customer.name;
+      order.customerPhone = customer.phone;
+    }
     if (data.customerName) {
       order.customerName = data.customerName;
     }
+    if (data.customerGstin !== undefined) {
+      order.customerGstin = data.customerGstin || undefined;
+    }
+    if (data.placeOfSupply !== undefined) {
+      order.placeOfSupply = data.placeOfSupply || undefined;
+    }
     if (data.customerPhone !== undefined) {
       // Phone number is already normalized and validated by Joi validator
       // But we'll do a safety check to ensure it's in E.164 format
@@ -328,6 +582,16 @@ export class OrderService {
           : normalizePhoneNumber(data.customerPhone) // Fallback normalization
         : null;
       order.customerPhone = normalizedPhone || undefined;
+
+      // A new phone number means a different customer identity - relink
+      if (normalizedPhone && !data.customerId) {
+        const customer = await customerService.findOrCreateCustomer(
+          orgId,
+          order.customerName,
+          normalizedPhone
+        );
+        order.customerId = customer._id;
+      }
     }
 
     return await order.save();
@@ -359,8 +623,21 @@ export class OrderService {
       advanceAmount,
       additionalItemsDescription,
       overrideConflicts,
+      holdExpiresAt,
     } = bookingData;
 
+    // Holds come before any money changes hands; the advance is recorded on conversion
+    if (holdExpiresAt) {
+      if (advanceAmount > 0) {
+        throw new Error(
+          "A hold cannot include an advance. Convert the hold to record the advance."
+        );
+      }
+      if (new Date(holdExpiresAt) <= new Date()) {
+        throw new Error("Hold expiry must be in the future");
+      }
+    }
+
     // Verify product exists
     const product = await Product.findOne({ _id: productId, orgId });
     if (!product) {
@@ -370,36 +647,44 @@ export class OrderService {
     const from = new Date(fromDateTime);
     const to = new Date(toDateTime);
 
-    // Check for conflicts (excluding bookings in this order)
+    // Check for overlaps, turnaround buffer violations and maintenance (excluding bookings in this order)
     const existingBookings = await Booking.find({ orderId });
-    const conflicts = await Booking.find({
-      orgId,
-      productId,
-      status: { $ne: "CANCELLED" },
-      _id: { $nin: existingBookings.map((b) => b._id) },
-      $or: [{ fromDateTime: { $lt: to }, toDateTime: { $gt: from } }],
-    });
+    const hasConflicts = hasAnyConflict(
+      await findBookingConflicts(
+        orgId,
+        productId,
+        from,
+        to,
+        existingBookings.map((b) => b._id)
+      )
+    );
 
-    if (conflicts.length > 0 && !overrideConflicts) {
+    if (hasConflicts && !overrideConflicts) {
       throw new Error("CONFLICT");
     }
 
-    const remainingAmount = decidedRent - advanceAmount;
+    const bookingCategoryId = categoryId || product.categoryId || undefined;
+    // Fix the GST terms now so later settings changes don't reprice the booking
+    const taxTerms = await resolveBookingTaxTerms(orgId, bookingCategoryId);
+    const remainingAmount =
+      calculateAmountDue({ decidedRent, ...taxTerms }) - advanceAmount;
 
     // Create booking
     const booking = await Booking.create({
       orgId,
       orderId: order._id,
       productId,
-      categoryId: categoryId || product.categoryId || undefined,
+      categoryId: bookingCategoryId,
+      ...taxTerms,
       fromDateTime: from,
       toDateTime: to,
       productDefaultRent: product.defaultRent,
       decidedRent,
       advanceAmount,
       remainingAmount,
-      status: "BOOKED",
-      isConflictOverridden: conflicts.length > 0,
+      status: holdExpiresAt ? "HELD" : "BOOKED",
+      holdExpiresAt: holdExpiresAt ? new Date(holdExpiresAt) : undefined,
+      isConflictOverridden: hasConflicts,
       additionalItemsDescription,
       payments:
         advanceAmount > 0
@@ -408,6 +693,11 @@ export class OrderService {
                 type: "ADVANCE" as PaymentType,
                 amount: advanceAmount,
                 at: new Date(),
+                ...paymentDetailFields({
+                  method: bookingData.advanceMethod,
+                  reference: bookingData.advanceReference,
+                  collectedBy: bookingData.collectedBy,
+                }),
                 note: `Advance received Rs.${advanceAmount.toFixed(2)}`,
               },
             ]
@@ -430,6 +720,42 @@ export class OrderService {
     return booking;
   }
 
+  /**
+   * Apply the org's cancellation policy to each active booking of an order
+   */
+  private async calculateOrderPolicyRefunds(
+    orgId: string,
+    bookings: Array<InstanceType<typeof Booking>>
+  ) {
+    const organization = await Organization.findById(orgId).select(
+      "cancellationPolicy"
+    );
+
+    const perBooking = bookings
+      .filter((b) => b.status !== "CANCELLED")
+      .map((booking) => {
+        const paid = calculateAmountPaid(booking.payments);
+
+        return {
+          bookingId: booking._id.toString(),
+          paid,
+          ...calculatePolicyRefund(
+            organization?.cancellationPolicy,
+            paid,
+            booking.fromDateTime
+          ),
+        };
+      });
+
+    return {
+      suggestedRefund:
+        Math.round(
+          perBooking.reduce((sum, b) => sum + b.suggestedRefund, 0) * 100
+        ) / 100,
+      bookings: perBooking,
+    };
+  }
+
   /**
    * Handle booking cancellation and redistribute advance if needed
    */
@@ -441,7 +767,7 @@ export class OrderService {
       transfers?: Array<{ bookingId: string; amount: number }>;
       shouldRefund?: boolean;
       refundAmount?: number;
-    }
+    } & RefundOverrideOptions
   ) {
     const session = await mongoose.startSession();
     session.startTransaction();
@@ -461,13 +787,7 @@ export class OrderService {
       }
 
       // Calculate total advance paid for this booking
-      const bookingAdvance =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((sum, p) => sum + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((sum, p) => sum + p.amount, 0);
+      const bookingAdvance = calculateAmountPaid(booking.payments);
 
       // Get active bookings (excluding the one being cancelled) for validation
       const activeBookings = await Booking.find({
@@ -478,6 +798,15 @@ export class OrderService {
         .populate("productId")
         .session(session);
 
+      const organization = await Organization.findById(orgId)
+        .select("cancellationPolicy")
+        .session(session);
+      const policy = calculatePolicyRefund(
+        organization?.cancellationPolicy,
+        bookingAdvance,
+        booking.fromDateTime
+      );
+
       // Default values
       const shouldTransfer = options?.shouldTransfer ?? false;
       const transfers = options?.transfers || [];
@@ -512,15 +841,8 @@ export class OrderService {
 
           // Calculate how much this booking needs
           const bookingRemaining =
-            targetBooking.decidedRent -
-            (targetBooking.payments
-              .filter(
-                (p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED"
-              )
-              .reduce((sum, p) => sum + p.amount, 0) -
-              targetBooking.payments
-                .filter((p) => p.type === "REFUND")
-                .reduce((sum, p) => sum + p.amount, 0));
+            calculateAmountDue(targetBooking) -
+            calculateAmountPaid(targetBooking.payments);
 
           // Validate transfer amount doesn't exceed what booking needs
           if (transfer.amount > bookingRemaining) {
@@ -552,24 +874,21 @@ export class OrderService {
             type: "ADVANCE" as PaymentType,
             amount: transfer.amount,
             at: new Date(),
+            ...paymentDetailFields({
+              method: "ADJUSTMENT",
+              collectedBy: options?.cancelledBy,
+            }),
             note: `Advance redistributed from cancelled booking #${bookingId}`,
           });
 
-          const totalPaid =
-            targetBooking.payments
-              .filter(
-                (p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED"
-              )
-              .reduce((sum, p) => sum + p.amount, 0) -
-            targetBooking.payments
-              .filter((p) => p.type === "REFUND")
-              .reduce((sum, p) => sum + p.amount, 0);
+          const totalPaid = calculateAmountPaid(targetBooking.payments);
 
           targetBooking.advanceAmount = Math.max(
             targetBooking.advanceAmount,
             totalPaid
           );
-          targetBooking.remainingAmount = targetBooking.decidedRent - totalPaid;
+          targetBooking.remainingAmount =
+            calculateAmountDue(targetBooking) - totalPaid;
 
           await targetBooking.save({ session });
 
@@ -578,6 +897,10 @@ export class OrderService {
             type: "REFUND" as PaymentType,
             amount: transfer.amount,
             at: new Date(),
+            ...paymentDetailFields({
+              method: "ADJUSTMENT",
+              collectedBy: options?.cancelledBy,
+            }),
             note: `Rs.${transfer.amount.toFixed(
               2
             )} transferred to ${productTitle}`,
@@ -588,6 +911,12 @@ export class OrderService {
         }
       }
 
+      // Policy refund, capped by what is left after transfers
+      const suggestedRefund = Math.max(
+        0,
+        Math.min(policy.suggestedRefund, remainingAfterTransfer)
+      );
+
       // Calculate final refund amount
       let finalRefundAmount = 0;
       let pendingRefundAmount = 0;
@@ -596,9 +925,30 @@ export class OrderService {
         // User wants to provide refund
         if (requestedRefundAmount !== undefined) {
           finalRefundAmount = requestedRefundAmount;
+
+          if (!isSameAmount(finalRefundAmount, suggestedRefund)) {
+            if (!options?.overrideReason) {
+              throw new Error(
+                `Refund amount (Rs.${finalRefundAmount.toFixed(
+                  2
+                )}) differs from the cancellation policy suggestion (Rs.${suggestedRefund.toFixed(
+                  2
+                )}). An override reason is required.`
+              );
+            }
+            booking.refundOverride = {
+              suggestedAmount: suggestedRefund,
+              refundAmount: finalRefundAmount,
+              reason: options.overrideReason,
+              overriddenBy: options.cancelledBy
+                ? new mongoose.Types.ObjectId(options.cancelledBy)
+                : undefined,
+              at: new Date(),
+            };
+          }
         } else {
-          // Default to remaining after transfer
-          finalRefundAmount = remainingAfterTransfer;
+          // Default to the cancellation policy suggestion
+          finalRefundAmount = suggestedRefund;
         }
 
         // Validate refund amount
@@ -621,23 +971,27 @@ export class OrderService {
             type: "REFUND" as PaymentType,
             amount: finalRefundAmount,
             at: new Date(),
+            ...paymentDetailFields({
+              method: options?.refundMethod,
+              reference: options?.refundReference,
+              collectedBy: options?.cancelledBy,
+            }),
             note: "Refund for cancelled booking",
           });
+          await storeCreditService.applyPayment(
+            booking,
+            booking.payments[booking.payments.length - 1],
+            { createdBy: options?.cancelledBy, session }
+          );
         }
       } else {
-        // User doesn't want to provide refund - mark as pending
-        pendingRefundAmount = remainingAfterTransfer;
+        // User doesn't want to provide refund - mark what the policy allows as pending
+        pendingRefundAmount = suggestedRefund;
         booking.pendingRefundAmount = pendingRefundAmount;
       }
 
       // Recalculate booking amounts after all transfers and refunds
-      const totalPaidAfterRefund =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((sum, p) => sum + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((sum, p) => sum + p.amount, 0);
+      const totalPaidAfterRefund = calculateAmountPaid(booking.payments);
 
       booking.advanceAmount = Math.max(0, totalPaidAfterRefund);
       booking.remainingAmount = booking.decidedRent - totalPaidAfterRefund;
@@ -659,10 +1013,15 @@ export class OrderService {
       // Commit transaction
       await session.commitTransaction();
 
+      await this.releaseWaitlist(booking);
+
       return {
         refundAmount: Math.max(0, finalRefundAmount),
         redistributed: totalTransferred,
         pendingRefundAmount: pendingRefundAmount,
+        suggestedRefund,
+        refundPercent: policy.refundPercent,
+        isOverridden: !!booking.refundOverride,
       };
     } catch (error) {
       // Abort transaction on error
@@ -674,6 +1033,192 @@ export class OrderService {
     }
   }
 
+  /**
+   * Move a booking to another order of the same organization
+   * Both orders' booking lists, totals and statuses are updated in one transaction
+   */
+  async moveBooking(
+    orderId: string,
+    bookingId: string,
+    orgId: string,
+    data: MoveBookingData
+  ) {
+    const { targetOrderId } = data;
+    if (orderId === targetOrderId) {
+      throw new Error(
+        "Cannot move booking. Source and target order are the same."
+      );
+    }
+
+    const session = await mongoose.startSession();
+
+    try {
+      session.startTransaction();
+
+      const order = await Order.findOne({ _id: orderId, orgId }).session(
+        session
+      );
+      const target = await Order.findOne({ _id: targetOrderId, orgId }).session(
+        session
+      );
+      if (!order || !target) {
+        throw new Error("Order not found");
+      }
+      if (target.status === "CANCELLED") {
+        throw new Error("Cannot move booking to a cancelled order");
+      }
+
+      const booking = await Booking.findOne({
+        _id: bookingId,
+        orderId,
+        orgId,
+      }).session(session);
+      if (!booking) {
+        throw new Error("Booking not found");
+      }
+      if (booking.status === "CANCELLED") {
+        throw new Error("Cannot move booking. Booking is cancelled.");
+      }
+
+      // An order left with only cancelled bookings would be cancelled; merge instead
+      const remaining = await Booking.countDocuments({
+        orderId,
+        _id: { $ne: booking._id },
+        status: { $ne: "CANCELLED" },
+      }).session(session);
+      if (remaining === 0) {
+        throw new Error(
+          "Cannot move booking. It is the only active booking of its order; merge the orders instead."
+        );
+      }
+
+      booking.orderId = target._id;
+      booking.history.push({
+        action: "ORDER_CHANGED",
+        at: new Date(),
+        by: data.movedBy
+          ? new mongoose.Types.ObjectId(data.movedBy)
+          : undefined,
+        note: data.note || undefined,
+        details: { previousOrderId: order._id, orderId: target._id },
+      });
+      await booking.save({ session });
+
+      order.bookings = order.bookings.filter(
+        (id) => id.toString() !== bookingId
+      );
+      target.bookings.push(booking._id);
+      // Stored GST no longer matches; it is worked out again with the status
+      order.invoiceTax = undefined;
+      target.invoiceTax = undefined;
+      await order.save({ session });
+      await target.save({ session });
+
+      await this.refreshOrderTotals(orderId, session);
+      await this.refreshOrderTotals(targetOrderId, session);
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    return {
+      order: await this.getOrderById(targetOrderId, orgId),
+      sourceOrder: await this.getOrderById(orderId, orgId),
+    };
+  }
+
+  /**
+   * Merge another order's bookings into this one in a single transaction
+   * The emptied source order is closed as CANCELLED and points at the order it was merged into
+   */
+  async mergeOrders(orderId: string, orgId: string, data: MergeOrdersData) {
+    const { sourceOrderId } = data;
+    if (orderId === sourceOrderId) {
+      throw new Error("Cannot merge an order into itself");
+    }
+
+    const session = await mongoose.startSession();
+
+    try {
+      session.startTransaction();
+
+      const target = await Order.findOne({ _id: orderId, orgId }).session(
+        session
+      );
+      const source = await Order.findOne({ _id: sourceOrderId, orgId }).session(
+        session
+      );
+      if (!target || !source) {
+        throw new Error("Order not found");
+      }
+      if (target.status === "CANCELLED" || source.status === "CANCELLED") {
+        throw new Error("Cannot merge cancelled orders");
+      }
+
+      const now = new Date();
+      await Booking.updateMany(
+        { orderId: source._id, orgId },
+        {
+          $set: { orderId: target._id },
+          $push: {
+            history: {
+              action: "ORDER_CHANGED",
+              at: now,
+              by: data.mergedBy
+                ? new mongoose.Types.ObjectId(data.mergedBy)
+                : undefined,
+              note: data.note || undefined,
+              details: {
+                previousOrderId: source._id,
+                orderId: target._id,
+                merged: true,
+              },
+            },
+          },
+        },
+        { session }
+      );
+
+      target.bookings.push(...source.bookings);
+      // Stored GST no longer matches; it is worked out again with the status
+      target.invoiceTax = undefined;
+      source.bookings = [];
+      source.status = "CANCELLED";
+      source.mergedIntoOrderId = target._id;
+      source.mergedAt = now;
+      await target.save({ session });
+      await source.save({ session });
+
+      await this.refreshOrderTotals(orderId, session);
+      await this.refreshOrderTotals(sourceOrderId, session);
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    return await this.getOrderById(orderId, orgId);
+  }
+
+  /**
+   * Mark waitlist entries notifiable once a booking's window frees up
+   * Runs after the cancellation or swap is saved; a failure here must not undo it
+   */
+  async releaseWaitlist(booking: ReleasedBooking) {
+    try {
+      await waitlistService.releaseForCancelledBooking(booking);
+    } catch (error) {
+      logError("Waitlist release error", error);
+    }
+  }
+
   /**
    * Preview refund amount for a booking cancellation (without actually cancelling)
    */
@@ -690,6 +1235,7 @@ export class OrderService {
       amount: number;
       maxTransferable: number;
     }>;
+    policy: PolicyRefund;
   }> {
     const booking = await Booking.findOne({ _id: bookingId, orgId });
     if (!booking) {
@@ -703,13 +1249,7 @@ export class OrderService {
     }
 
     // Calculate total advance paid for this booking
-    const bookingAdvance =
-      booking.payments
-        .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-        .reduce((sum, p) => sum + p.amount, 0) -
-      booking.payments
-        .filter((p) => p.type === "REFUND")
-        .reduce((sum, p) => sum + p.amount, 0);
+    const bookingAdvance = calculateAmountPaid(booking.payments);
 
     // Get active bookings (excluding the one being cancelled)
     const activeBookings = await Booking.find({
@@ -740,15 +1280,8 @@ export class OrderService {
 
         // Calculate how much this booking needs
         const bookingRemaining =
-          activeBooking.decidedRent -
-          (activeBooking.payments
-            .filter(
-              (p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED"
-            )
-            .reduce((sum, p) => sum + p.amount, 0) -
-            activeBooking.payments
-              .filter((p) => p.type === "REFUND")
-              .reduce((sum, p) => sum + p.amount, 0));
+          calculateAmountDue(activeBooking) -
+          calculateAmountPaid(activeBooking.payments);
 
         // Only transfer what the booking actually needs (must be positive), up to what we have left
         if (bookingRemaining > 0 && remainingToDistribute > 0) {
@@ -772,11 +1305,21 @@ export class OrderService {
     // Calculate total redistributed from transfers
     const totalRedistributed = transfers.reduce((sum, t) => sum + t.amount, 0);
 
+    const organization = await Organization.findById(orgId).select(
+      "cancellationPolicy"
+    );
+    const policy = calculatePolicyRefund(
+      organization?.cancellationPolicy,
+      bookingAdvance,
+      booking.fromDateTime
+    );
+
     return {
       refundAmount: Math.max(0, refundAmount),
       redistributed: totalRedistributed,
       bookingAdvance,
       transfers,
+      policy,
     };
   }
 
@@ -789,6 +1332,8 @@ export class OrderService {
   ): Promise<{
     refundAmount: number;
     totalPaid: number;
+    suggestedRefund: number;
+    bookings: Array<{ bookingId: string; paid: number } & PolicyRefund>;
   }> {
     const order = await Order.findOne({ _id: orderId, orgId });
     if (!order) {
@@ -804,33 +1349,35 @@ export class OrderService {
 
     // Check if any booking is not in BOOKED status
     const nonBookedBookings = bookings.filter(
-      (b) => b.status !== "BOOKED" && b.status !== "CANCELLED"
+      (b) =>
+        b.status !== "BOOKED" && b.status !== "HELD" && b.status !== "CANCELLED"
     );
     if (nonBookedBookings.length > 0) {
       const statuses = nonBookedBookings.map((b) => b.status).join(", ");
       throw new Error(
-        `Cannot cancel order. Some bookings are not in "BOOKED" status. Found statuses: ${statuses}. Only bookings in "BOOKED" status can be cancelled.`
+        `Cannot cancel order. Some bookings are not in "BOOKED" status. Found statuses: ${statuses}. Only BOOKED or HELD bookings can be cancelled.`
       );
     }
 
     // Calculate total amount paid across all bookings
-    const totalPaid = bookings.reduce((sum, booking) => {
-      const bookingPaid =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((s, p) => s + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((s, p) => s + p.amount, 0);
-      return sum + bookingPaid;
-    }, 0);
+    const totalPaid = bookings.reduce(
+      (sum, booking) => sum + calculateAmountPaid(booking.payments),
+      0
+    );
 
     // Total refund amount is the total paid (since all bookings will be cancelled)
     const refundAmount = Math.max(0, totalPaid);
 
+    const policyRefunds = await this.calculateOrderPolicyRefunds(
+      orgId,
+      bookings
+    );
+
     return {
       refundAmount,
       totalPaid,
+      suggestedRefund: policyRefunds.suggestedRefund,
+      bookings: policyRefunds.bookings,
     };
   }
 
@@ -841,168 +1388,494 @@ export class OrderService {
     orderId: string,
     orgId: string,
     refundAmount?: number,
-    refundNote?: string
+    refundNote?: string,
+    override?: RefundOverrideOptions
   ) {
-    const order = await Order.findOne({ _id: orderId, orgId });
-    if (!order) {
-      throw new Error("Order not found");
-    }
+    const session = await mongoose.startSession();
+    session.startTransaction();
 
-    if (order.status === "CANCELLED") {
-      throw new Error("Order is already cancelled");
-    }
+    try {
+      const order = await Order.findOne({ _id: orderId, orgId }).session(
+        session
+      );
+      if (!order) {
+        throw new Error("Order not found");
+      }
 
-    // Get all bookings in the order
-    const bookings = await Booking.find({ orderId });
+      if (order.status === "CANCELLED") {
+        throw new Error("Order is already cancelled");
+      }
 
-    // Check if any booking is not in BOOKED status (excluding already cancelled)
-    const nonBookedBookings = bookings.filter(
-      (b) => b.status !== "BOOKED" && b.status !== "CANCELLED"
-    );
-    if (nonBookedBookings.length > 0) {
-      const statuses = nonBookedBookings.map((b) => b.status).join(", ");
-      throw new Error(
-        `Cannot cancel order. Some bookings are not in "BOOKED" status. Found statuses: ${statuses}. Only bookings in "BOOKED" status can be cancelled.`
+      // Get all bookings in the order
+      const bookings = await Booking.find({ orderId }).session(session);
+      const bookingsToRelease = bookings.filter(
+        (b) => b.status !== "CANCELLED"
       );
-    }
 
-    // Calculate total amount paid across all bookings
-    const totalPaid = bookings.reduce((sum, booking) => {
-      const bookingPaid =
-        booking.payments
-          .filter((p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED")
-          .reduce((s, p) => s + p.amount, 0) -
-        booking.payments
-          .filter((p) => p.type === "REFUND")
-          .reduce((s, p) => s + p.amount, 0);
-      return sum + bookingPaid;
-    }, 0);
-
-    // Default refund amount is total paid if not provided
-    const actualRefundAmount =
-      refundAmount !== undefined ? refundAmount : Math.max(0, totalPaid);
-
-    // Validate refund amount
-    if (actualRefundAmount < 0) {
-      throw new Error("Refund amount cannot be negative");
-    }
-    if (actualRefundAmount > totalPaid) {
-      throw new Error(
-        `Refund amount (Rs.${actualRefundAmount.toFixed(
-          2
-        )}) cannot exceed total paid (Rs.${totalPaid.toFixed(2)})`
+      // Check if any booking is not in BOOKED status (excluding already cancelled)
+      const nonBookedBookings = bookings.filter(
+        (b) =>
+          b.status !== "BOOKED" &&
+          b.status !== "HELD" &&
+          b.status !== "CANCELLED"
       );
-    }
+      if (nonBookedBookings.length > 0) {
+        const statuses = nonBookedBookings.map((b) => b.status).join(", ");
+        throw new Error(
+          `Cannot cancel order. Some bookings are not in "BOOKED" status. Found statuses: ${statuses}. Only BOOKED or HELD bookings can be cancelled.`
+        );
+      }
 
-    // Calculate refund distribution across bookings proportionally
-    let remainingRefund = actualRefundAmount;
-    const refundDistributions: Array<{ bookingId: string; amount: number }> =
-      [];
+      // Calculate total amount paid across all bookings
+      const totalPaid = bookings.reduce(
+        (sum, booking) => sum + calculateAmountPaid(booking.payments),
+        0
+      );
 
-    if (actualRefundAmount > 0 && totalPaid > 0) {
-      for (let i = 0; i < bookings.length; i++) {
-        const booking = bookings[i];
+      const { suggestedRefund } = await this.calculateOrderPolicyRefunds(
+        orgId,
+        bookings
+      );
 
-        // Calculate how much this booking has paid
-        const bookingPaid =
-          booking.payments
-            .filter(
-              (p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED"
-            )
-            .reduce((s, p) => s + p.amount, 0) -
-          booking.payments
-            .filter((p) => p.type === "REFUND")
-            .reduce((s, p) => s + p.amount, 0);
-
-        if (bookingPaid > 0) {
-          // Calculate proportional refund amount
-          const bookingRefundPercentage = bookingPaid / totalPaid;
-          const calculatedRefund =
-            i === bookings.length - 1
-              ? remainingRefund // Last booking gets remaining to avoid rounding issues
-              : Math.round(actualRefundAmount * bookingRefundPercentage * 100) /
-                100;
-
-          const distributedRefund = Math.min(
-            calculatedRefund,
-            bookingPaid,
-            remainingRefund
-          );
+      // Default refund amount is the cancellation policy suggestion if not provided
+      const actualRefundAmount =
+        refundAmount !== undefined ? refundAmount : suggestedRefund;
 
-          if (distributedRefund > 0) {
-            // Add refund entry to booking
-            booking.payments.push({
-              type: "REFUND" as PaymentType,
-              amount: distributedRefund,
-              at: new Date(),
-              note:
-                refundNote ||
-                `Order cancellation refund (Rs.${distributedRefund.toFixed(
-                  2
-                )} of Rs.${actualRefundAmount.toFixed(2)})`,
-            });
-
-            // Update booking amounts
-            const totalPaidAfterRefund =
-              booking.payments
-                .filter(
-                  (p) => p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED"
-                )
-                .reduce((s, p) => s + p.amount, 0) -
-              booking.payments
-                .filter((p) => p.type === "REFUND")
-                .reduce((s, p) => s + p.amount, 0);
-
-            booking.advanceAmount = Math.max(0, totalPaidAfterRefund);
-            booking.remainingAmount =
-              booking.decidedRent - totalPaidAfterRefund;
-
-            // Cancel booking
-            booking.status = "CANCELLED";
-            await booking.save();
+      if (
+        refundAmount !== undefined &&
+        !isSameAmount(refundAmount, suggestedRefund)
+      ) {
+        if (!override?.overrideReason) {
+          throw new Error(
+            `Refund amount (Rs.${refundAmount.toFixed(
+              2
+            )}) differs from the cancellation policy suggestion (Rs.${suggestedRefund.toFixed(
+              2
+            )}). An override reason is required.`
+          );
+        }
+        order.refundOverride = {
+          suggestedAmount: suggestedRefund,
+          refundAmount,
+          reason: override.overrideReason,
+          overriddenBy: override.cancelledBy
+            ? new mongoose.Types.ObjectId(override.cancelledBy)
+            : undefined,
+          at: new Date(),
+        };
+      }
 
-            refundDistributions.push({
-              bookingId: booking._id.toString(),
-              amount: distributedRefund,
-            });
+      // Validate refund amount
+      if (actualRefundAmount < 0) {
+        throw new Error("Refund amount cannot be negative");
+      }
+      if (actualRefundAmount > totalPaid) {
+        throw new Error(
+          `Refund amount (Rs.${actualRefundAmount.toFixed(
+            2
+          )}) cannot exceed total paid (Rs.${totalPaid.toFixed(2)})`
+        );
+      }
+      // Calculate refund distribution across bookings proportionally
+      let remainingRefund = actualRefundAmount;
+      const refundDistributions: Array<{ bookingId: string; amount: number }> =
+        [];
+
+      if (actualRefundAmount > 0 && totalPaid > 0) {
+        for (let i = 0; i < bookings.length; i++) {
+          const booking = bookings[i];
+
+          // Calculate how much this booking has paid
+          const bookingPaid = calculateAmountPaid(booking.payments);
+
+          if (bookingPaid > 0) {
+            // Calculate proportional refund amount
+            const bookingRefundPercentage = bookingPaid / totalPaid;
+            const calculatedRefund =
+              i === bookings.length - 1
+                ? remainingRefund // Last booking gets remaining to avoid rounding issues
+                : Math.round(
+                    actualRefundAmount * bookingRefundPercentage * 100
+                  ) / 100;
+
+            const distributedRefund = Math.min(
+              calculatedRefund,
+              bookingPaid,
+              remainingRefund
+            );
 
-            remainingRefund -= distributedRefund;
+            if (distributedRefund > 0) {
+              // Add refund entry to booking
+              booking.payments.push({
+                type: "REFUND" as PaymentType,
+                amount: distributedRefund,
+                at: new Date(),
+                ...paymentDetailFields({
+                  method: override?.refundMethod,
+                  reference: override?.refundReference,
+                  collectedBy: override?.cancelledBy,
+                }),
+                note:
+                  refundNote ||
+                  `Order cancellation refund (Rs.${distributedRefund.toFixed(
+                    2
+                  )} of Rs.${actualRefundAmount.toFixed(2)})`,
+              });
+              await storeCreditService.applyPayment(
+                booking,
+                booking.payments[booking.payments.length - 1],
+                { createdBy: override?.cancelledBy, session }
+              );
+
+              // Update booking amounts
+              const totalPaidAfterRefund =
+                calculateAmountPaid(booking.payments);
+
+              booking.advanceAmount = Math.max(0, totalPaidAfterRefund);
+              booking.remainingAmount =
+                booking.decidedRent - totalPaidAfterRefund;
+
+              // Cancel booking
+              booking.status = "CANCELLED";
+              await booking.save({ session });
+
+              refundDistributions.push({
+                bookingId: booking._id.toString(),
+                amount: distributedRefund,
+              });
+
+              remainingRefund -= distributedRefund;
+            } else {
+              // Still cancel the booking even if no refund
+              booking.status = "CANCELLED";
+              await booking.save({ session });
+            }
           } else {
-            // Still cancel the booking even if no refund
+            // Cancel booking even if no payment was made
             booking.status = "CANCELLED";
-            await booking.save();
+            await booking.save({ session });
+          }
+        }
+      } else {
+        // Cancel all bookings without refund
+        for (const booking of bookings) {
+          if (booking.status !== "CANCELLED") {
+            booking.status = "CANCELLED";
+            await booking.save({ session });
           }
-        } else {
-          // Cancel booking even if no payment was made
-          booking.status = "CANCELLED";
-          await booking.save();
         }
       }
-    } else {
-      // Cancel all bookings without refund
-      for (const booking of bookings) {
-        if (booking.status !== "CANCELLED") {
-          booking.status = "CANCELLED";
-          await booking.save();
+
+      // Update order status
+      order.status = "CANCELLED";
+      await order.save({ session });
+
+      // Recalculate totals
+      const totals = await this.calculateOrderTotals(orderId, session);
+      order.totalAmount = totals.totalAmount;
+      order.totalReceived = totals.totalReceived;
+      order.remainingAmount = totals.remainingAmount;
+      await order.save({ session });
+
+      await session.commitTransaction();
+
+      for (const booking of bookingsToRelease) {
+        await this.releaseWaitlist(booking);
+      }
+
+      return {
+        order,
+        refundAmount: actualRefundAmount,
+        suggestedRefund,
+        refundDistributions,
+      };
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Split an order-level payment across bookings
+   * OLDEST_FIRST fills the earliest-created bookings first, PROPORTIONAL splits by each
+   * booking's balance, MANUAL uses the given split. No booking is paid beyond its balance.
+   */
+  private allocateOrderPayment(
+    amount: number,
+    strategy: PaymentAllocationStrategy,
+    balances: Array<{ bookingId: string; balance: number }>,
+    manual: Array<{ bookingId: string; amount: number }> = []
+  ): Map<string, number> {
+    const allocation = new Map<string, number>();
+
+    if (strategy === "MANUAL") {
+      const balanceById = new Map(balances.map((b) => [b.bookingId, b.balance]));
+      for (const item of manual) {
+        const balance = balanceById.get(item.bookingId);
+        if (balance === undefined) {
+          throw new Error(
+            `Booking ${item.bookingId} is not an active booking with a balance on this order`
+          );
+        }
+        const total = (allocation.get(item.bookingId) || 0) + item.amount;
+        if (total > balance + 0.005) {
+          throw new Error(
+            `Allocation for booking ${item.bookingId} (Rs.${total.toFixed(
+              2
+            )}) exceeds its balance (Rs.${balance.toFixed(2)})`
+          );
         }
+        allocation.set(item.bookingId, total);
+      }
+      const allocated = [...allocation.values()].reduce((s, a) => s + a, 0);
+      if (!isSameAmount(allocated, amount)) {
+        throw new Error(
+          `Allocations (Rs.${allocated.toFixed(
+            2
+          )}) must add up to the payment amount (Rs.${amount.toFixed(2)})`
+        );
       }
+      return allocation;
     }
 
-    // Update order status
-    order.status = "CANCELLED";
-    await order.save();
+    if (strategy === "PROPORTIONAL") {
+      const totalBalance = balances.reduce((s, b) => s + b.balance, 0);
+      let remaining = amount;
+      balances.forEach((b, i) => {
+        // Last booking takes what is left so rounding never loses a paisa
+        const share =
+          i === balances.length - 1
+            ? remaining
+            : Math.round(((amount * b.balance) / totalBalance) * 100) / 100;
+        const applied = Math.min(share, b.balance, remaining);
+        if (applied > 0) {
+          allocation.set(b.bookingId, applied);
+          remaining = Math.round((remaining - applied) * 100) / 100;
+        }
+      });
+      // A capped rounding remainder goes to the first booking with room left
+      for (const b of balances) {
+        if (remaining <= 0) break;
+        const current = allocation.get(b.bookingId) || 0;
+        const extra = Math.min(b.balance - current, remaining);
+        if (extra > 0) {
+          allocation.set(b.bookingId, Math.round((current + extra) * 100) / 100);
+          remaining = Math.round((remaining - extra) * 100) / 100;
+        }
+      }
+      return allocation;
+    }
 
-    // Recalculate totals
+    let remaining = amount;
+    for (const b of balances) {
+      if (remaining <= 0) break;
+      const applied = Math.min(b.balance, remaining);
+      allocation.set(b.bookingId, applied);
+      remaining = Math.round((remaining - applied) * 100) / 100;
+    }
+    return allocation;
+  }
+
+  /**
+   * Record one payment for a whole order, allocated across its active bookings
+   * All entries are written in one transaction and share a single receipt number
+   */
+  async addOrderPayment(
+    orderId: string,
+    orgId: string,
+    data: OrderPaymentData
+  ): Promise<OrderReceiptData> {
+    const { amount, strategy } = data;
+
+    const organization = await Organization.findById(orgId);
+    let receiptNumber = "";
+
+    const session = await mongoose.startSession();
+
+    try {
+      session.startTransaction();
+
+      const order = await Order.findOne({ _id: orderId, orgId }).session(
+        session
+      );
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      if (order.status === "CANCELLED") {
+        throw new Error("Cannot record payment on a cancelled order");
+      }
+
+      // Holds take no payments until converted
+      const bookings = await Booking.find({
+        orderId,
+        status: { $nin: ["CANCELLED", "HELD"] },
+      })
+        .sort({ createdAt: 1, _id: 1 })
+        .session(session);
+
+      const balances = bookings
+        .map((b) => ({
+          bookingId: b._id.toString(),
+          balance:
+            Math.round(
+              (calculateAmountDue(b) - calculateAmountPaid(b.payments)) * 100
+            ) / 100,
+        }))
+        .filter((b) => b.balance > 0);
+      const orderBalance = balances.reduce((s, b) => s + b.balance, 0);
+
+      if (orderBalance <= 0) {
+        throw new Error(
+          "Order is already fully paid. No additional payment needed."
+        );
+      }
+      if (amount > orderBalance + 0.005) {
+        throw new Error(
+          `Payment amount (Rs.${amount.toFixed(
+            2
+          )}) exceeds order balance (Rs.${orderBalance.toFixed(
+            2
+          )}). Maximum allowed: Rs.${orderBalance.toFixed(2)}.`
+        );
+      }
+
+      const allocation = this.allocateOrderPayment(
+        amount,
+        strategy,
+        balances,
+        data.allocations
+      );
+
+      const seq = await getNextSequence(orgId, "receipt", session);
+      receiptNumber = formatDocumentNumber(organization?.code, "RCPT", seq);
+      const at = new Date();
+
+      for (const booking of bookings) {
+        const allocated = allocation.get(booking._id.toString());
+        if (!allocated) continue;
+
+        // Same rule as a booking payment: before issue it counts as advance
+        const type: PaymentType =
+          booking.status === "BOOKED" ? "ADVANCE" : "PAYMENT_RECEIVED";
+        booking.payments.push({
+          type,
+          amount: allocated,
+          at,
+          ...paymentDetailFields(data),
+          note:
+            data.note ||
+            `Order payment Rs.${allocated.toFixed(2)} of Rs.${amount.toFixed(
+              2
+            )}`,
+          receiptNumber,
+        });
+        await storeCreditService.applyPayment(
+          booking,
+          booking.payments[booking.payments.length - 1],
+          { createdBy: data.collectedBy, session }
+        );
+
+        const paid = calculateAmountPaid(booking.payments);
+        booking.advanceAmount = Math.max(
+          0,
+          booking.payments
+            .filter((p) => p.type === "ADVANCE")
+            .reduce((s, p) => s + p.amount, 0) -
+            booking.payments
+              .filter((p) => p.type === "REFUND")
+              .reduce((s, p) => s + p.amount, 0)
+        );
+        booking.remainingAmount = calculateAmountDue(booking) - paid;
+        await booking.save({ session });
+      }
+
+      await this.refreshOrderTotals(orderId, session);
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    return this.getOrderPaymentReceipt(orderId, receiptNumber, orgId);
+  }
+
+  /**
+   * Receipt for an order-level payment: every booking entry sharing the receipt number
+   */
+  async getOrderPaymentReceipt(
+    orderId: string,
+    receiptNumber: string,
+    orgId: string
+  ): Promise<OrderReceiptData> {
+    const order = await Order.findOne({ _id: orderId, orgId });
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const bookings = await Booking.find({
+      orderId,
+      "payments.receiptNumber": receiptNumber,
+    }).populate("productId", "title code");
+
+    const allocations: OrderReceiptData["allocations"] = [];
+    let first: any;
+    for (const booking of bookings) {
+      for (const p of booking.payments) {
+        if (p.receiptNumber !== receiptNumber) continue;
+        first = first || p;
+        allocations.push({
+          bookingId: booking._id.toString(),
+          paymentId: p._id!.toString(),
+          product: (booking.productId as any)?.title || "Unknown",
+          type: p.type,
+          amount: p.amount,
+        });
+      }
+    }
+    if (!first) {
+      throw new Error("Receipt not found");
+    }
+
+    const organization = await Organization.findById(orgId);
     const totals = await this.calculateOrderTotals(orderId);
-    order.totalAmount = totals.totalAmount;
-    order.totalReceived = totals.totalReceived;
-    order.remainingAmount = totals.remainingAmount;
-    await order.save();
 
     return {
-      order,
-      refundAmount: actualRefundAmount,
-      refundDistributions,
+      receiptNumber,
+      issuedAt: first.at,
+      organization: organization
+        ? {
+            name: organization.name,
+            code: organization.code,
+            address: organization.address,
+            contact: organization.contact,
+            location: organization.location,
+            instagram: organization.instagram,
+            facebook: organization.facebook,
+          }
+        : undefined,
+      customer: {
+        name: order.customerName,
+        phone: order.customerPhone,
+      },
+      orderId: order._id.toString(),
+      payment: {
+        amount: allocations.reduce((s, a) => s + a.amount, 0),
+        at: first.at,
+        method: first.method,
+        reference: first.reference,
+        note: first.note,
+      },
+      allocations,
+      balances: {
+        totalAmount: totals.totalAmount,
+        totalReceived: totals.totalReceived,
+        remainingAmount: totals.remainingAmount,
+      },
     };
   }
 
@@ -1019,21 +1892,47 @@ export class OrderService {
       throw new Error("Order not found");
     }
 
+    // Fetch organization data
+    const organization = await Organization.findById(orgId);
+
     const bookings = await Booking.find({ orderId })
       .populate("productId")
       .populate("categoryId")
       .sort({ createdAt: 1 });
 
+    // Assign a sequential invoice number the first time an invoice is generated
+    // The number is reserved atomically, so it is never reused even on races
+    if (!order.invoiceNumber) {
+      const seq = await getNextSequence(orgId, "invoice");
+      const invoiceNumber = formatDocumentNumber(
+        organization?.code,
+        "INV",
+        seq
+      );
+      const assigned = await Order.findOneAndUpdate(
+        { _id: orderId, orgId, invoiceNumber: { $exists: false } },
+        { $set: { invoiceNumber, invoicedAt: new Date() } },
+        { new: true }
+      );
+      // If another request assigned a number first, use theirs
+      const current = assigned || (await Order.findById(orderId));
+      order.invoiceNumber = current?.invoiceNumber;
+      order.invoicedAt = current?.invoicedAt;
+    }
+
     // Collect all payment entries from all bookings
     const paymentHistory: any[] = [];
     bookings.forEach((booking) => {
       booking.payments.forEach((payment) => {
         paymentHistory.push({
+          paymentId: payment._id?.toString(),
           bookingId: booking._id.toString(),
           product: (booking.productId as any)?.title || "Unknown",
           type: payment.type,
           amount: payment.amount,
           at: payment.at,
+          method: payment.method,
+          reference: payment.reference,
           note: payment.note,
         });
       });
@@ -1044,22 +1943,60 @@ export class OrderService {
       (a, b) => new Date(b.at).getTime() - new Date(a.at).getTime()
     );
 
-    const totals = await this.calculateOrderTotals(orderId);
+    // Collect extra charges (damage, late fee, cleaning) from active bookings
+    const charges: any[] = [];
+    bookings
+      .filter((booking) => booking.status !== "CANCELLED")
+      .forEach((booking) => {
+        booking.charges.forEach((charge) => {
+          charges.push({
+            bookingId: booking._id.toString(),
+            product: (booking.productId as any)?.title || "Unknown",
+            type: charge.type,
+            amount: charge.amount,
+            description: charge.description,
+            photoUrl: charge.photoUrl,
+            at: charge.at,
+          });
+        });
+      });
 
-    // Fetch organization data
-    const organization = await Organization.findById(orgId);
+    const totals = await this.calculateOrderTotals(orderId);
 
     return {
+      invoiceNumber: order.invoiceNumber!,
+      invoiceDate: order.invoicedAt || new Date(),
       order: order.toObject(),
       bookings: bookings.map((b) => b.toObject()),
       totalAmount: totals.totalAmount,
       totalReceived: totals.totalReceived,
       remainingAmount: totals.remainingAmount,
+      totalRent: totals.totalRent,
+      totalCharges: totals.totalCharges,
+      charges,
+      deposits: {
+        depositCollected: totals.depositCollected,
+        depositRefunded: totals.depositRefunded,
+        depositForfeited: totals.depositForfeited,
+        depositHeld: totals.depositHeld,
+      },
       paymentHistory,
+      paymentsByMethod: summarizePaymentsByMethod(
+        bookings.flatMap((b) => b.payments)
+      ),
+      // Until every booking is back, charges and refunds can still change the tax
+      tax:
+        order.invoiceTax ??
+        calculateInvoiceTax(organization?.taxSettings, order, bookings),
       organization: organization
         ? {
             name: organization.name,
             code: organization.code,
+            address: organization.address,
+            contact: organization.contact,
+            location: organization.location,
+            instagram: organization.instagram,
+            facebook: organization.facebook,
           }
         : undefined,
     };
@@ -0,0 +1,96 @@
+import {
+  Organization,
+  IRentalSettings,
+  ICancellationPolicy,
+  ITaxSettings,
+} from "../models/Organization";
+import {
+  PERMISSIONS,
+  Permission,
+  getRolePermissions,
+} from "../config/permissions";
+
+export interface UpdateOrganizationSettingsData {
+  rentalSettings?: Partial<IRentalSettings>;
+  cancellationPolicy?: ICancellationPolicy;
+  taxSettings?: Partial<ITaxSettings>;
+  staffPermissions?: Permission[];
+}
+
+export class OrganizationService {
+  async getOrganization(orgId: string) {
+    const organization = await Organization.findById(orgId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    return organization;
+  }
+
+  async updateSettings(orgId: string, data: UpdateOrganizationSettingsData) {
+    const organization = await Organization.findById(orgId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    if (data.rentalSettings) {
+      const { lateFeePerDay, lateFeeGraceHours } = data.rentalSettings;
+      if (lateFeePerDay !== undefined) {
+        organization.rentalSettings.lateFeePerDay = lateFeePerDay;
+      }
+      if (lateFeeGraceHours !== undefined) {
+        organization.rentalSettings.lateFeeGraceHours = lateFeeGraceHours;
+      }
+    }
+
+    if (data.cancellationPolicy) {
+      // Keep tiers ordered from the longest notice period down
+      organization.cancellationPolicy.tiers = [
+        ...data.cancellationPolicy.tiers,
+      ].sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+    }
+
+    if (data.taxSettings) {
+      const taxSettings = organization.taxSettings;
+      const { enabled, gstin, stateCode, pricingMode } = data.taxSettings;
+      const { defaultRate, defaultHsnSacCode } = data.taxSettings;
+      if (enabled !== undefined) taxSettings.enabled = enabled;
+      if (gstin !== undefined) taxSettings.gstin = gstin || undefined;
+      if (stateCode !== undefined) {
+        taxSettings.stateCode = stateCode || undefined;
+      }
+      if (pricingMode !== undefined) taxSettings.pricingMode = pricingMode;
+      if (defaultRate !== undefined) taxSettings.defaultRate = defaultRate;
+      if (defaultHsnSacCode !== undefined) {
+        taxSettings.defaultHsnSacCode = defaultHsnSacCode || undefined;
+      }
+
+      if (taxSettings.enabled && !taxSettings.gstin) {
+        throw new Error("GSTIN is required to enable GST");
+      }
+    }
+
+    if (data.staffPermissions) {
+      organization.staffPermissions = Array.from(
+        new Set(data.staffPermissions)
+      );
+    }
+
+    return await organization.save();
+  }
+
+  /**
+   * Permission catalog and the effective matrix for each role
+   */
+  async getPermissionMatrix(orgId: string) {
+    const organization = await this.getOrganization(orgId);
+
+    return {
+      permissions: PERMISSIONS,
+      roles: {
+        admin: getRolePermissions("admin"),
+        staff: getRolePermissions("staff", organization.staffPermissions),
+      },
+    };
+  }
+}
@@ -0,0 +1,535 @@
+import PDFDocument from "pdfkit";
+import {
+  InvoiceData,
+  InvoiceOrganization,
+  OrderReceiptData,
+} from "./order.service";
+import { ReceiptData } from "./booking.service";
+
+type PdfDoc = InstanceType<typeof PDFDocument>;
+
+const PAGE_MARGIN = 50;
+const BRAND_COLOR = "#7a1f3d";
+const MUTED_COLOR = "#666666";
+
+/**
+ * Format an amount for print
+ * Built-in PDF fonts have no rupee glyph, so use "Rs." like payment notes do
+ */
+function formatAmount(amount: number): string {
+  return `Rs.${(amount || 0).toFixed(2)}`;
+}
+
+function formatDate(date: Date | string | undefined): string {
+  if (!date) return "-";
+  return new Date(date).toLocaleDateString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function formatDateTime(date: Date | string | undefined): string {
+  if (!date) return "-";
+  return new Date(date).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatPaymentType(type: string): string {
+  return type
+    .toLowerCase()
+    .split("_")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+function formatPaymentMethod(method?: string, reference?: string): string {
+  const label =
+    method === "UPI" ? "UPI" : formatPaymentType(method || "CASH");
+  return reference ? `${label} (Ref: ${reference})` : label;
+}
+
+/**
+ * Render a PDF document into a Buffer
+ */
+function renderToBuffer(draw: (doc: PdfDoc) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      draw(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Organization letterhead: name, address and contact details
+ */
+function drawHeader(
+  doc: PdfDoc,
+  organization: InvoiceOrganization | undefined,
+  title: string,
+  number: string,
+  date: Date
+) {
+  doc
+    .fillColor(BRAND_COLOR)
+    .fontSize(20)
+    .font("Helvetica-Bold")
+    .text(organization?.name || "Invoice", PAGE_MARGIN, PAGE_MARGIN);
+
+  doc.fillColor(MUTED_COLOR).fontSize(9).font("Helvetica");
+  const contactLines = [
+    organization?.address,
+    organization?.location,
+    organization?.contact ? `Contact: ${organization.contact}` : undefined,
+    organization?.instagram ? `Instagram: ${organization.instagram}` : undefined,
+  ].filter(Boolean) as string[];
+  contactLines.forEach((line) => doc.text(line));
+
+  doc
+    .fillColor("#000000")
+    .fontSize(14)
+    .font("Helvetica-Bold")
+    .text(title, PAGE_MARGIN, PAGE_MARGIN, { align: "right" })
+    .fontSize(9)
+    .font("Helvetica")
+    .text(`No: ${number}`, { align: "right" })
+    .text(`Date: ${formatDate(date)}`, { align: "right" });
+
+  const bottom = Math.max(doc.y, PAGE_MARGIN + 70);
+  doc
+    .moveTo(PAGE_MARGIN, bottom + 10)
+    .lineTo(doc.page.width - PAGE_MARGIN, bottom + 10)
+    .strokeColor(BRAND_COLOR)
+    .stroke();
+  doc.y = bottom + 20;
+}
+
+/**
+ * Draw a simple table with fixed column widths
+ */
+function drawTable(
+  doc: PdfDoc,
+  columns: Array<{ header: string; width: number; align?: "left" | "right" }>,
+  rows: string[][]
+) {
+  const startX = PAGE_MARGIN;
+  const drawRow = (cells: string[], bold: boolean) => {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 40) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    let x = startX;
+    let rowHeight = 0;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+    cells.forEach((cell, i) => {
+      const { width, align } = columns[i];
+      const height = doc.heightOfString(cell, { width: width - 6 });
+      doc.text(cell, x + 3, y, { width: width - 6, align: align || "left" });
+      rowHeight = Math.max(rowHeight, height);
+      x += width;
+    });
+    doc.y = y + rowHeight + 6;
+  };
+
+  drawRow(
+    columns.map((c) => c.header),
+    true
+  );
+  rows.forEach((row) => drawRow(row, false));
+  doc.moveDown(0.5);
+}
+
+function drawSectionTitle(doc: PdfDoc, title: string) {
+  doc
+    .moveDown(0.5)
+    .fillColor(BRAND_COLOR)
+    .font("Helvetica-Bold")
+    .fontSize(11)
+    .text(title, PAGE_MARGIN)
+    .fillColor("#000000")
+    .moveDown(0.3);
+}
+
+/**
+ * Right-aligned label/value summary lines (totals, balances)
+ */
+function drawSummary(
+  doc: PdfDoc,
+  lines: Array<{ label: string; value: string; bold?: boolean }>
+) {
+  const width = 250;
+  const x = doc.page.width - PAGE_MARGIN - width;
+  lines.forEach(({ label, value, bold }) => {
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+    doc.text(label, x, y, { width: 150 });
+    doc.text(value, x + 150, y, { width: 100, align: "right" });
+    doc.y = y + 16;
+  });
+}
+
+export class PdfService {
+  /**
+   * Render a branded invoice PDF for an order
+   */
+  static async renderInvoice(invoice: InvoiceData): Promise<Buffer> {
+    const { tax } = invoice;
+    return renderToBuffer((doc) => {
+      drawHeader(
+        doc,
+        invoice.organization,
+        tax ? "TAX INVOICE" : "INVOICE",
+        invoice.invoiceNumber,
+        invoice.invoiceDate
+      );
+
+      if (tax?.gstin) {
+        doc
+          .font("Helvetica")
+          .fontSize(9)
+          .text(`GSTIN: ${tax.gstin}`, PAGE_MARGIN)
+          .moveDown(0.5);
+      }
+
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(10)
+        .text("Bill To", PAGE_MARGIN)
+        .font("Helvetica")
+        .text(invoice.order.customerName || "Unknown");
+      if (invoice.order.customerPhone) {
+        doc.text(invoice.order.customerPhone);
+      }
+      if (tax?.customerGstin) {
+        doc.text(`GSTIN: ${tax.customerGstin}`);
+      }
+      if (tax?.placeOfSupply) {
+        doc.text(`Place of supply: ${tax.placeOfSupply}`);
+      }
+
+      drawSectionTitle(doc, "Bookings");
+      drawTable(
+        doc,
+        [
+          { header: "Item", width: 170 },
+          { header: "From", width: 85 },
+          { header: "To", width: 85 },
+          { header: "Status", width: 70 },
+          { header: "Rent", width: 85, align: "right" },
+        ],
+        invoice.bookings.map((b: any) => [
+          `${b.productId?.title || "Unknown"}${
+            b.productId?.code ? ` (${b.productId.code})` : ""
+          }`,
+          formatDate(b.fromDateTime),
+          formatDate(b.toDateTime),
+          b.status,
+          b.status === "CANCELLED" ? "-" : formatAmount(b.decidedRent),
+        ])
+      );
+
+      if (invoice.charges.length > 0) {
+        drawSectionTitle(doc, "Additional Charges");
+        drawTable(
+          doc,
+          [
+            { header: "Item", width: 150 },
+            { header: "Charge", width: 80 },
+            { header: "Description", width: 180 },
+            { header: "Amount", width: 85, align: "right" },
+          ],
+          invoice.charges.map((c: any) => [
+            c.product,
+            formatPaymentType(c.type),
+            c.description || "-",
+            formatAmount(c.amount),
+          ])
+        );
+      }
+
+      if (tax && tax.summary.length > 0) {
+        const modes = new Set(tax.lines.map((line) => line.pricingMode));
+        drawSectionTitle(
+          doc,
+          modes.size > 1
+            ? "GST"
+            : modes.has("INCLUSIVE")
+            ? "GST (included in amounts)"
+            : "GST (added to amounts)"
+        );
+        drawTable(
+          doc,
+          [
+            { header: "HSN/SAC", width: 70 },
+            { header: "Rate", width: 45, align: "right" },
+            { header: "Taxable", width: 80, align: "right" },
+            { header: "CGST", width: 75, align: "right" },
+            { header: "SGST", width: 75, align: "right" },
+            { header: "IGST", width: 75, align: "right" },
+            { header: "Tax", width: 75, align: "right" },
+          ],
+          tax.summary.map((row) => [
+            row.hsnSacCode || "-",
+            `${row.rate}%`,
+            formatAmount(row.taxableValue),
+            formatAmount(row.cgst),
+            formatAmount(row.sgst),
+            formatAmount(row.igst),
+            formatAmount(row.totalTax),
+          ])
+        );
+      }
+
+      if (invoice.paymentHistory.length > 0) {
+        drawSectionTitle(doc, "Payment History");
+        drawTable(
+          doc,
+          [
+            { header: "Date", width: 110 },
+            { header: "Item", width: 120 },
+            { header: "Type", width: 95 },
+            { header: "Note", width: 85 },
+            { header: "Amount", width: 85, align: "right" },
+          ],
+          invoice.paymentHistory.map((p: any) => [
+            formatDateTime(p.at),
+            p.product,
+            `${formatPaymentType(p.type)}\n${formatPaymentMethod(
+              p.method,
+              p.reference
+            )}`,
+            p.note || "-",
+            formatAmount(p.amount),
+          ])
+        );
+      }
+
+      if (invoice.paymentsByMethod.length > 0) {
+        drawSectionTitle(doc, "Payments by Method");
+        drawTable(
+          doc,
+          [
+            { header: "Method", width: 110 },
+            { header: "Received", width: 77, align: "right" },
+            { header: "Refunded", width: 77, align: "right" },
+            { header: "Deposits In", width: 77, align: "right" },
+            { header: "Deposits Out", width: 77, align: "right" },
+            { header: "Net", width: 77, align: "right" },
+          ],
+          invoice.paymentsByMethod.map((m) => [
+            formatPaymentMethod(m.method),
+            formatAmount(m.received),
+            formatAmount(m.refunded),
+            formatAmount(m.depositsCollected),
+            formatAmount(m.depositsRefunded),
+            formatAmount(m.net),
+          ])
+        );
+      }
+
+      doc.moveDown(0.5);
+      const summary: Parameters<typeof drawSummary>[1] = [
+        { label: "Rent", value: formatAmount(invoice.totalRent) },
+        { label: "Additional charges", value: formatAmount(invoice.totalCharges) },
+      ];
+      // Exclusive GST is already part of the order total and balance
+      if (tax) {
+        summary.push({
+          label: "Taxable value",
+          value: formatAmount(tax.totals.taxableValue),
+        });
+        if (tax.interState) {
+          summary.push({ label: "IGST", value: formatAmount(tax.totals.igst) });
+        } else {
+          summary.push(
+            { label: "CGST", value: formatAmount(tax.totals.cgst) },
+            { label: "SGST", value: formatAmount(tax.totals.sgst) }
+          );
+        }
+      }
+      summary.push(
+        {
+          label: "Total",
+          value: formatAmount(invoice.totalAmount),
+          bold: true,
+        },
+        { label: "Received", value: formatAmount(invoice.totalReceived) },
+        {
+          label: "Balance due",
+          value: formatAmount(invoice.remainingAmount),
+          bold: true,
+        }
+      );
+      if (invoice.deposits.depositCollected > 0) {
+        summary.push(
+          {
+            label: "Deposit collected",
+            value: formatAmount(invoice.deposits.depositCollected),
+          },
+          {
+            label: "Deposit refunded",
+            value: formatAmount(invoice.deposits.depositRefunded),
+          },
+          {
+            label: "Deposit forfeited",
+            value: formatAmount(invoice.deposits.depositForfeited),
+          },
+          {
+            label: "Deposit held",
+            value: formatAmount(invoice.deposits.depositHeld),
+          }
+        );
+      }
+      drawSummary(doc, summary);
+
+      doc
+        .moveDown(2)
+        .fillColor(MUTED_COLOR)
+        .fontSize(8)
+        .font("Helvetica")
+        .text("Thank you for your business.", PAGE_MARGIN, doc.y, {
+          align: "center",
+        });
+    });
+  }
+
+  /**
+   * Render a branded receipt PDF for a single payment
+   */
+  static async renderReceipt(receipt: ReceiptData): Promise<Buffer> {
+    return renderToBuffer((doc) => {
+      drawHeader(
+        doc,
+        receipt.organization,
+        "RECEIPT",
+        receipt.receiptNumber,
+        receipt.payment.at
+      );
+
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(10)
+        .text("Received From", PAGE_MARGIN)
+        .font("Helvetica")
+        .text(receipt.customer.name);
+      if (receipt.customer.phone) {
+        doc.text(receipt.customer.phone);
+      }
+
+      drawSectionTitle(doc, "Payment");
+      drawTable(
+        doc,
+        [
+          { header: "Date", width: 110 },
+          { header: "Item", width: 150 },
+          { header: "Type", width: 100 },
+          { header: "Note", width: 70 },
+          { header: "Amount", width: 80, align: "right" },
+        ],
+        [
+          [
+            formatDateTime(receipt.payment.at),
+            `${receipt.booking.product} (${formatDate(
+              receipt.booking.fromDateTime
+            )} - ${formatDate(receipt.booking.toDateTime)})`,
+            `${formatPaymentType(receipt.payment.type)}\n${formatPaymentMethod(
+              receipt.payment.method,
+              receipt.payment.reference
+            )}`,
+            receipt.payment.note || "-",
+            formatAmount(receipt.payment.amount),
+          ],
+        ]
+      );
+
+      drawSummary(doc, [
+        { label: "Booking total", value: formatAmount(receipt.balances.amountDue) },
+        { label: "Paid to date", value: formatAmount(receipt.balances.totalPaid) },
+        {
+          label: "Balance due",
+          value: formatAmount(receipt.balances.remainingAmount),
+          bold: true,
+        },
+      ]);
+    });
+  }
+
+  /**
+   * Render a receipt PDF for an order-level payment split across bookings
+   */
+  static async renderOrderReceipt(receipt: OrderReceiptData): Promise<Buffer> {
+    return renderToBuffer((doc) => {
+      drawHeader(
+        doc,
+        receipt.organization,
+        "RECEIPT",
+        receipt.receiptNumber,
+        receipt.issuedAt
+      );
+
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(10)
+        .text("Received From", PAGE_MARGIN)
+        .font("Helvetica")
+        .text(receipt.customer.name);
+      if (receipt.customer.phone) {
+        doc.text(receipt.customer.phone);
+      }
+      doc.text(
+        `${formatDateTime(receipt.payment.at)} - ${formatPaymentMethod(
+          receipt.payment.method,
+          receipt.payment.reference
+        )}`
+      );
+
+      drawSectionTitle(doc, "Allocation");
+      drawTable(
+        doc,
+        [
+          { header: "Item", width: 260 },
+          { header: "Type", width: 135 },
+          { header: "Amount", width: 100, align: "right" },
+        ],
+        receipt.allocations.map((a) => [
+          a.product,
+          formatPaymentType(a.type),
+          formatAmount(a.amount),
+        ])
+      );
+
+      drawSummary(doc, [
+        {
+          label: "Amount received",
+          value: formatAmount(receipt.payment.amount),
+          bold: true,
+        },
+        { label: "Order total", value: formatAmount(receipt.balances.totalAmount) },
+        {
+          label: "Paid to date",
+          value: formatAmount(receipt.balances.totalReceived),
+        },
+        {
+          label: "Balance due",
+          value: formatAmount(receipt.balances.remainingAmount),
+          bold: true,
+        },
+      ]);
+    });
+  }
+}
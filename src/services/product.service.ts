@@ -2,6 +2,7 @@ import mongoose from "mongoose";
 import { Product } from "../models/Product";
 import { Booking } from "../models/Booking";
 import { PaginationHelper, PaginatedResponse } from "../types/pagination";
+import { findUnavailableProductIds } from "../utils/booking-conflicts";
 
 export interface BulkUpdateProductOrderItem {
   id: string;
@@ -19,6 +20,7 @@ export interface CreateProductData {
   size?: string;
   imageUrl?: string;
   featuredOrder?: number;
+  turnaroundBufferHours?: number;
 }
 
 export interface UpdateProductData {
@@ -32,12 +34,20 @@ export interface UpdateProductData {
   imageUrl?: string;
   isActive?: boolean;
   featuredOrder?: number | null;
+  turnaroundBufferHours?: number | null; // null falls back to the category buffer
 }
 
 export interface ListProductsFilters {
   orgId: string;
   search?: string;
   includeDeleted?: boolean;
+  categoryId?: string;
+  size?: string;
+  color?: string;
+  minRent?: number;
+  maxRent?: number;
+  availableFrom?: Date; // Only products free for the whole window
+  availableTo?: Date;
   page?: number;
   limit?: number;
 }
@@ -50,6 +60,13 @@ export class ProductService {
       orgId,
       search,
       includeDeleted,
+      categoryId,
+      size,
+      color,
+      minRent,
+      maxRent,
+      availableFrom,
+      availableTo,
       page: rawPage,
       limit: rawLimit,
     } = filters;
@@ -73,6 +90,26 @@ export class ProductService {
       ];
     }
 
+    if (categoryId) query.categoryId = categoryId;
+    if (size) query.size = size;
+    if (color) query.color = color;
+    if (minRent !== undefined || maxRent !== undefined) {
+      query.defaultRent = {};
+      if (minRent !== undefined) query.defaultRent.$gte = minRent;
+      if (maxRent !== undefined) query.defaultRent.$lte = maxRent;
+    }
+
+    if (availableFrom && availableTo) {
+      const unavailableIds = await findUnavailableProductIds(
+        orgId,
+        availableFrom,
+        availableTo
+      );
+      if (unavailableIds.length > 0) {
+        query._id = { $nin: unavailableIds };
+      }
+    }
+
     // Execute count and find in parallel for better performance
     // Sort: featured products first (by featuredOrder ascending), then non-featured (by createdAt descending)
     const [total, products] = await Promise.all([
@@ -158,6 +195,7 @@ export class ProductService {
       size,
       imageUrl,
       featuredOrder,
+      turnaroundBufferHours,
     } = data;
 
     // Check if product with same code exists
@@ -200,6 +238,7 @@ export class ProductService {
       size,
       imageUrl,
       featuredOrder: finalFeaturedOrder,
+      turnaroundBufferHours,
     });
 
     const populatedProduct = await Product.findById(product._id).populate(
@@ -254,6 +293,9 @@ export class ProductService {
       updateData.featuredOrder =
         data.featuredOrder === null ? undefined : data.featuredOrder;
     }
+    if (data.turnaroundBufferHours !== undefined) {
+      updateData.turnaroundBufferHours = data.turnaroundBufferHours;
+    }
 
     const updated = await Product.findOneAndUpdate(
       { _id: id, orgId },
@@ -357,6 +399,7 @@ export class ProductService {
     }
 
     // Get bookings sorted by fromDateTime in descending order
+    // Maintenance blocks are listed separately under /products/:id/maintenance
     const bookings = await Booking.find(query)
       .populate("productId")
       .populate("categoryId")
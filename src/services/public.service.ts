@@ -37,7 +37,53 @@ import { extractSubdomain } from "../utils/subdomain";
 import { Organization } from "../models/Organization";
 import { Product } from "../models/Product";
 import { Category } from "../models/Category";
+import {
+  BookingRequestService,
+  CreateBookingRequestData,
+} from "./booking-request.service";
 import { logInfo } from "../utils/logger";
+import { findBookingConflicts } from "../utils/booking-conflicts";
+
+const bookingRequestService = new BookingRequestService();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BlockedRange {
+  from: Date;
+  to: Date;
+}
+
+export type DayAvailability = "available" | "partial" | "booked";
+
+export interface ProductAvailabilityQuery {
+  month?: string; // YYYY-MM
+  from?: Date;
+  to?: Date;
+  tzOffset?: number; // Minutes east of UTC used to draw day boundaries (e.g. 330 for IST)
+}
+
+/**
+ * Merge overlapping or touching ranges; input must be sorted by from
+ */
+function mergeRanges(ranges: BlockedRange[]): BlockedRange[] {
+  const merged: BlockedRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.from.getTime() <= last.to.getTime()) {
+      if (range.to > last.to) last.to = range.to;
+    } else {
+      merged.push({ from: range.from, to: range.to });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Format a UTC instant as a local YYYY-MM-DD for the given offset
+ */
+function formatLocalDate(time: number, tzOffset: number): string {
+  return new Date(time + tzOffset * 60 * 1000).toISOString().slice(0, 10);
+}
 
 export class PublicService {
   async getOrgBySubdomain(req: Request) {
@@ -164,6 +210,130 @@ export class PublicService {
     }));
   }
 
+  /**
+   * Blocked date ranges for a product, for the storefront calendar
+   * Only time ranges are returned - never customer details or prices
+   */
+  async getProductAvailability(
+    req: Request,
+    productId: string,
+    query: ProductAvailabilityQuery
+  ) {
+    const subdomain = extractSubdomain(req);
+    if (!subdomain) {
+      throw new Error("Subdomain is required");
+    }
+
+    const organization = await Organization.findOne({ subdomain });
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    const product = await Product.findOne({
+      _id: productId,
+      orgId: organization._id,
+      isActive: { $ne: false },
+    })
+      .select("_id")
+      .lean();
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    const tzOffset = query.tzOffset || 0;
+    const offsetMs = tzOffset * 60 * 1000;
+
+    let from: Date;
+    let to: Date;
+    if (query.month) {
+      const [year, month] = query.month.split("-").map(Number);
+      // Local midnight of the 1st, expressed in UTC
+      from = new Date(Date.UTC(year, month - 1, 1) - offsetMs);
+      to = new Date(Date.UTC(year, month, 1) - offsetMs);
+    } else {
+      from = new Date(query.from!);
+      to = new Date(query.to!);
+    }
+
+    const { overlaps, bufferConflicts, maintenanceConflicts, bufferHours } =
+      await findBookingConflicts(organization._id, productId, from, to);
+
+    // A rental also blocks its turnaround buffer on either side;
+    // maintenance is shown as plain blocked time without its reason
+    const bufferMs = bufferHours * 60 * 60 * 1000;
+    const blocked = mergeRanges(
+      [
+        ...[...overlaps, ...bufferConflicts].map((b) => ({
+          from: new Date(b.fromDateTime.getTime() - bufferMs),
+          to: new Date(b.toDateTime.getTime() + bufferMs),
+        })),
+        ...maintenanceConflicts.map((m) => ({
+          from: m.fromDateTime,
+          to: m.toDateTime,
+        })),
+      ].sort((a, b) => a.from.getTime() - b.from.getTime())
+    );
+
+    const result: any = {
+      productId,
+      from,
+      to,
+      isAvailable: blocked.length === 0,
+      blocked,
+    };
+
+    if (query.month) {
+      const days: Array<{ date: string; status: DayAvailability }> = [];
+      for (let start = from.getTime(); start < to.getTime(); start += DAY_MS) {
+        const end = start + DAY_MS;
+        let covered = 0;
+        for (const range of blocked) {
+          const overlapStart = Math.max(start, range.from.getTime());
+          const overlapEnd = Math.min(end, range.to.getTime());
+          if (overlapEnd > overlapStart) covered += overlapEnd - overlapStart;
+        }
+        days.push({
+          date: formatLocalDate(start, tzOffset),
+          status:
+            covered >= DAY_MS ? "booked" : covered > 0 ? "partial" : "available",
+        });
+      }
+      result.month = query.month;
+      result.days = days;
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a storefront booking request for staff to accept or reject
+   */
+  async submitBookingRequest(
+    req: Request,
+    data: Omit<CreateBookingRequestData, "orgId">
+  ) {
+    const subdomain = extractSubdomain(req);
+    if (!subdomain) {
+      throw new Error("Subdomain is required");
+    }
+
+    const organization = await Organization.findOne({ subdomain });
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    const request = await bookingRequestService.createRequest({
+      ...data,
+      orgId: organization._id.toString(),
+    });
+
+    return {
+      id: request._id.toString(),
+      status: request.status,
+      message: "Thank you! We'll confirm your booking shortly.",
+    };
+  }
+
   getFeatures(): PublicFeaturesResponse {
     return {
       features: [
@@ -0,0 +1,133 @@
+import { Order } from "../models/Order";
+import { Booking } from "../models/Booking";
+import { Organization } from "../models/Organization";
+import {
+  addGstAmounts,
+  calculateInvoiceTax,
+  emptyGstAmounts,
+  GstAmounts,
+  InvoiceTaxSummaryRow,
+} from "../utils/gst";
+
+export interface GstSummaryInvoice extends GstAmounts {
+  orderId: string;
+  invoiceNumber?: string;
+  invoiceDate?: Date;
+  customerName: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  interState: boolean;
+}
+
+export interface GstSummary {
+  month: string; // YYYY-MM
+  from: Date;
+  to: Date;
+  gstin?: string;
+  invoiceCount: number;
+  totals: GstAmounts;
+  b2b: GstAmounts; // Invoices to customers with a GSTIN
+  b2c: GstAmounts;
+  byHsnSac: InvoiceTaxSummaryRow[];
+  invoices: GstSummaryInvoice[];
+}
+
+export class ReportService {
+  /**
+   * GST figures for invoices issued in a calendar month, for filing returns
+   * Cancelled orders are left out. Orders with every booking returned count with the tax
+   * stored then; the rest are worked out from their bookings, as their invoices are.
+   */
+  async getGstSummary(orgId: string, month: string): Promise<GstSummary> {
+    const organization = await Organization.findById(orgId)
+      .select("taxSettings")
+      .lean();
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+    if (!organization.taxSettings?.enabled) {
+      throw new Error("GST is not enabled for this organization");
+    }
+
+    const [year, monthNumber] = month.split("-").map(Number);
+    const from = new Date(year, monthNumber - 1, 1);
+    const to = new Date(year, monthNumber, 1);
+
+    const orders = await Order.find({
+      orgId,
+      status: { $ne: "CANCELLED" },
+      invoicedAt: { $gte: from, $lt: to },
+    })
+      .sort({ invoicedAt: 1 })
+      .lean();
+
+    const bookings = await Booking.find({
+      orderId: { $in: orders.filter((o) => !o.invoiceTax).map((o) => o._id) },
+    })
+      .populate("productId", "title")
+      .populate("categoryId", "hsnSacCode gstRate")
+      .lean();
+    const bookingsByOrder = new Map<string, typeof bookings>();
+    for (const booking of bookings) {
+      const key = booking.orderId.toString();
+      bookingsByOrder.set(key, [...(bookingsByOrder.get(key) || []), booking]);
+    }
+
+    const totals = emptyGstAmounts();
+    const b2b = emptyGstAmounts();
+    const b2c = emptyGstAmounts();
+    const byHsnSac = new Map<string, InvoiceTaxSummaryRow>();
+    const invoices: GstSummaryInvoice[] = [];
+
+    for (const order of orders) {
+      const tax =
+        order.invoiceTax ??
+        calculateInvoiceTax(
+          organization.taxSettings,
+          order,
+          bookingsByOrder.get(order._id.toString()) || []
+        );
+      if (!tax) continue;
+
+      addGstAmounts(totals, tax.totals);
+      addGstAmounts(order.customerGstin ? b2b : b2c, tax.totals);
+      for (const row of tax.summary) {
+        const key = `${row.hsnSacCode || ""}|${row.rate}`;
+        let total = byHsnSac.get(key);
+        if (!total) {
+          total = {
+            hsnSacCode: row.hsnSacCode,
+            rate: row.rate,
+            ...emptyGstAmounts(),
+          };
+          byHsnSac.set(key, total);
+        }
+        addGstAmounts(total, row);
+      }
+
+      invoices.push({
+        orderId: order._id.toString(),
+        invoiceNumber: order.invoiceNumber,
+        invoiceDate: order.invoicedAt,
+        customerName: order.customerName,
+        customerGstin: order.customerGstin,
+        placeOfSupply: tax.placeOfSupply,
+        interState: tax.interState,
+        ...tax.totals,
+      });
+    }
+
+    return {
+      month,
+      from,
+      to,
+      gstin: organization.taxSettings.gstin,
+      invoiceCount: invoices.length,
+      totals,
+      b2b,
+      b2c,
+      byHsnSac: [...byHsnSac.values()],
+      invoices,
+    };
+  }
+}
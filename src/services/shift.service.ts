@@ -0,0 +1,284 @@
+import mongoose from "mongoose";
+import { Shift, IShift, ShiftStatus } from "../models/Shift";
+import { Booking } from "../models/Booking";
+import { PaginationHelper, PaginatedResponse } from "../types/pagination";
+import {
+  PaymentMethodBreakdown,
+  summarizePaymentsByMethod,
+} from "../utils/booking-amounts";
+
+export interface OpenShiftData {
+  orgId: string;
+  userId: string;
+  openingFloat: number;
+  notes?: string;
+}
+
+export interface CloseShiftData {
+  countedCash: number;
+  notes?: string;
+  closedBy: string;
+  canCloseForOthers?: boolean; // Admins may close a drawer left open by someone else
+}
+
+export interface ShiftReportFilters {
+  orgId: string;
+  userId?: string;
+  status?: ShiftStatus;
+  startDate?: Date; // Shifts opened on or after
+  endDate?: Date; // Shifts opened before
+  page?: number;
+  limit?: number;
+}
+
+export interface ShiftSummary {
+  shiftId: mongoose.Types.ObjectId;
+  user: any;
+  status: ShiftStatus;
+  openedAt: Date;
+  closedAt?: Date;
+  closedBy?: any;
+  openingFloat: number;
+  expectedCash: number;
+  countedCash: number | null; // Null while the shift is open
+  variance: number | null;
+  paymentsByMethod: PaymentMethodBreakdown[];
+  openingNotes?: string;
+  closingNotes?: string;
+}
+
+export class ShiftService {
+  /**
+   * Payments a staff member recorded in the window, totalled per method
+   * Payments are attributed by their collectedBy field
+   */
+  private async summarizeShiftPayments(
+    orgId: string | mongoose.Types.ObjectId,
+    userId: string | mongoose.Types.ObjectId,
+    from: Date,
+    to: Date
+  ): Promise<PaymentMethodBreakdown[]> {
+    const collectedBy = new mongoose.Types.ObjectId(userId.toString());
+    const inRange = { $gte: from, $lt: to };
+    const payments = await Booking.aggregate([
+      {
+        $match: {
+          orgId: new mongoose.Types.ObjectId(orgId.toString()),
+          payments: { $elemMatch: { collectedBy, at: inRange } },
+        },
+      },
+      { $unwind: "$payments" },
+      {
+        $match: { "payments.collectedBy": collectedBy, "payments.at": inRange },
+      },
+      { $replaceRoot: { newRoot: "$payments" } },
+    ]);
+
+    return summarizePaymentsByMethod(payments);
+  }
+
+  /**
+   * Cash the drawer should hold: the float plus net cash taken in
+   */
+  private calculateExpectedCash(
+    openingFloat: number,
+    paymentsByMethod: PaymentMethodBreakdown[]
+  ): number {
+    const cash = paymentsByMethod.find((m) => m.method === "CASH");
+    return Math.round((openingFloat + (cash?.net ?? 0)) * 100) / 100;
+  }
+
+  /**
+   * Expected versus counted figures for a shift
+   * Closed shifts use the totals frozen at close; open shifts are computed live
+   */
+  private async buildSummary(shift: IShift | any): Promise<ShiftSummary> {
+    let paymentsByMethod: PaymentMethodBreakdown[];
+    let expectedCash: number;
+    if (shift.status === "CLOSED") {
+      paymentsByMethod = shift.paymentsByMethod;
+      expectedCash = shift.expectedCash;
+    } else {
+      paymentsByMethod = await this.summarizeShiftPayments(
+        shift.orgId,
+        shift.userId._id ?? shift.userId,
+        shift.openedAt,
+        new Date()
+      );
+      expectedCash = this.calculateExpectedCash(
+        shift.openingFloat,
+        paymentsByMethod
+      );
+    }
+
+    return {
+      shiftId: shift._id,
+      user: shift.userId,
+      status: shift.status,
+      openedAt: shift.openedAt,
+      closedAt: shift.closedAt,
+      closedBy: shift.closedBy,
+      openingFloat: shift.openingFloat,
+      expectedCash,
+      countedCash: shift.countedCash ?? null,
+      variance: shift.variance ?? null,
+      paymentsByMethod,
+      openingNotes: shift.openingNotes,
+      closingNotes: shift.closingNotes,
+    };
+  }
+
+  async openShift(data: OpenShiftData) {
+    const { orgId, userId } = data;
+
+    const existing = await Shift.exists({ orgId, userId, status: "OPEN" });
+    if (existing) {
+      throw new Error("You already have an open shift");
+    }
+
+    try {
+      return await Shift.create({
+        orgId,
+        userId,
+        status: "OPEN",
+        openedAt: new Date(),
+        openingFloat: data.openingFloat,
+        openingNotes: data.notes || undefined,
+      });
+    } catch (error: any) {
+      // Two open requests racing past the check above
+      if (error.code === 11000) {
+        throw new Error("You already have an open shift");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The caller's open shift with its running totals
+   */
+  async getCurrentShift(orgId: string, userId: string) {
+    const shift = await Shift.findOne({ orgId, userId, status: "OPEN" })
+      .populate("userId", "name email")
+      .lean();
+    if (!shift) {
+      throw new Error("No open shift");
+    }
+    return await this.buildSummary(shift);
+  }
+
+  async getShiftById(id: string, orgId: string) {
+    const shift = await Shift.findOne({ _id: id, orgId })
+      .populate("userId", "name email")
+      .populate("closedBy", "name")
+      .lean();
+    if (!shift) {
+      throw new Error("Shift not found");
+    }
+    return await this.buildSummary(shift);
+  }
+
+  /**
+   * Close a shift with the cash counted in the drawer
+   * Totals are frozen so later edits to bookings do not change a closed report
+   */
+  async closeShift(id: string, orgId: string, data: CloseShiftData) {
+    const shift = await Shift.findOne({ _id: id, orgId });
+    if (!shift) {
+      throw new Error("Shift not found");
+    }
+    if (shift.status === "CLOSED") {
+      throw new Error("Shift is already closed");
+    }
+    if (shift.userId.toString() !== data.closedBy && !data.canCloseForOthers) {
+      throw new Error("You can only close your own shift");
+    }
+
+    const closedAt = new Date();
+    const paymentsByMethod = await this.summarizeShiftPayments(
+      orgId,
+      shift.userId,
+      shift.openedAt,
+      closedAt
+    );
+    const expectedCash = this.calculateExpectedCash(
+      shift.openingFloat,
+      paymentsByMethod
+    );
+
+    const closed = await Shift.findOneAndUpdate(
+      { _id: shift._id, status: "OPEN" },
+      {
+        $set: {
+          status: "CLOSED",
+          closedAt,
+          closedBy: data.closedBy,
+          countedCash: data.countedCash,
+          expectedCash,
+          variance: Math.round((data.countedCash - expectedCash) * 100) / 100,
+          paymentsByMethod,
+          closingNotes: data.notes || undefined,
+        },
+      },
+      { new: true }
+    )
+      .populate("userId", "name email")
+      .populate("closedBy", "name")
+      .lean();
+    if (!closed) {
+      throw new Error("Shift is already closed");
+    }
+
+    return await this.buildSummary(closed);
+  }
+
+  /**
+   * Shift close report: expected versus counted cash per shift, newest first
+   */
+  async getShiftReport(
+    filters: ShiftReportFilters
+  ): Promise<PaginatedResponse<ShiftSummary>> {
+    const {
+      orgId,
+      userId,
+      status,
+      startDate,
+      endDate,
+      page: rawPage,
+      limit: rawLimit,
+    } = filters;
+
+    const { page, limit } = PaginationHelper.validateParams(rawPage, rawLimit);
+    const skip = PaginationHelper.getSkip(page, limit);
+
+    const query: any = { orgId };
+    if (userId) query.userId = userId;
+    if (status) query.status = status;
+    if (startDate || endDate) {
+      query.openedAt = {};
+      if (startDate) query.openedAt.$gte = startDate;
+      if (endDate) query.openedAt.$lt = endDate;
+    }
+
+    const [total, shifts] = await Promise.all([
+      Shift.countDocuments(query),
+      Shift.find(query)
+        .populate("userId", "name email")
+        .populate("closedBy", "name")
+        .sort({ openedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+    ]);
+
+    const data: ShiftSummary[] = [];
+    for (const shift of shifts) {
+      data.push(await this.buildSummary(shift));
+    }
+
+    return {
+      data,
+      pagination: PaginationHelper.getMeta(page, limit, total),
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import mongoose, { ClientSession } from "mongoose";
+import { Customer } from "../models/Customer";
+import { Order } from "../models/Order";
+import { IPaymentEntry } from "../models/Booking";
+import { StoreCreditEntry } from "../models/StoreCreditEntry";
+
+export interface StoreCreditBooking {
+  _id: mongoose.Types.ObjectId;
+  orgId: mongoose.Types.ObjectId;
+  orderId: mongoose.Types.ObjectId;
+}
+
+export interface StoreCreditOptions {
+  createdBy?: string;
+  session?: ClientSession;
+}
+
+export class StoreCreditService {
+  /**
+   * Customer that holds credit for a booking: the customer linked to its order
+   */
+  private async resolveCustomerId(
+    booking: StoreCreditBooking,
+    session?: ClientSession
+  ): Promise<mongoose.Types.ObjectId> {
+    const order = await Order.findOne({
+      _id: booking.orderId,
+      orgId: booking.orgId,
+    })
+      .select("customerId")
+      .session(session ?? null)
+      .lean();
+    if (!order) {
+      throw new Error("Order not found");
+    }
+    if (!order.customerId) {
+      throw new Error(
+        "Store credit requires the order to be linked to a customer"
+      );
+    }
+    return order.customerId;
+  }
+
+  /**
+   * Add to or spend from the customer's balance and write the matching ledger entry
+   * Debits only apply while the balance covers them, so concurrent redemptions cannot overdraw
+   */
+  private async recordEntry(
+    booking: StoreCreditBooking,
+    payment: IPaymentEntry,
+    type: "CREDIT" | "DEBIT",
+    options: StoreCreditOptions
+  ) {
+    const { session } = options;
+    const customerId = await this.resolveCustomerId(booking, session);
+    const delta = type === "CREDIT" ? payment.amount : -payment.amount;
+
+    const filter: any = { _id: customerId, orgId: booking.orgId };
+    if (type === "DEBIT") {
+      filter.storeCreditBalance = { $gte: payment.amount };
+    }
+    const customer = await Customer.findOneAndUpdate(
+      filter,
+      { $inc: { storeCreditBalance: delta } },
+      { new: true, session }
+    );
+    if (!customer) {
+      const existing = await Customer.findOne({
+        _id: customerId,
+        orgId: booking.orgId,
+      })
+        .select("storeCreditBalance")
+        .session(session ?? null)
+        .lean();
+      if (!existing) {
+        throw new Error("Customer not found");
+      }
+      throw new Error(
+        `Store credit balance (Rs.${(existing.storeCreditBalance ?? 0).toFixed(
+          2
+        )}) is not enough to pay Rs.${payment.amount.toFixed(2)}`
+      );
+    }
+
+    const [entry] = await StoreCreditEntry.create(
+      [
+        {
+          orgId: booking.orgId,
+          customerId,
+          type,
+          amount: payment.amount,
+          balanceAfter: customer.storeCreditBalance,
+          bookingId: booking._id,
+          orderId: booking.orderId,
+          paymentId: payment._id,
+          note: payment.note,
+          createdBy: options.createdBy,
+        },
+      ],
+      { session }
+    );
+    return entry;
+  }
+
+  /**
+   * Mirror a booking payment entry made with STORE_CREDIT in the customer's ledger
+   * Refunds become credit; advances and payments spend it. Other methods are ignored.
+   */
+  async applyPayment(
+    booking: StoreCreditBooking,
+    payment: IPaymentEntry,
+    options: StoreCreditOptions = {}
+  ) {
+    if (payment.method !== "STORE_CREDIT" || payment.amount <= 0) {
+      return null;
+    }
+
+    if (payment.type === "REFUND") {
+      return await this.recordEntry(booking, payment, "CREDIT", options);
+    }
+    if (payment.type === "ADVANCE" || payment.type === "PAYMENT_RECEIVED") {
+      return await this.recordEntry(booking, payment, "DEBIT", options);
+    }
+    throw new Error(
+      "Store credit can only be used for rent payments and refunds"
+    );
+  }
+}
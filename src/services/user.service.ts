@@ -0,0 +1,335 @@
+import { User } from "../models/User";
+import { PaginationHelper, PaginatedResponse } from "../types/pagination";
+import { UserRole } from "../config/permissions";
+import { generateToken, hashPassword, hashToken } from "../utils/tokens";
+import { AuthService } from "./auth.service";
+
+const authService = new AuthService();
+
+const INVITE_EXPIRY_HOURS = 72;
+
+export interface CreateUserData {
+  orgId: string;
+  name: string;
+  email: string;
+  phoneNumber?: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface InviteUserData {
+  orgId: string;
+  invitedBy: string;
+  name: string;
+  email: string;
+  phoneNumber?: string;
+  role: UserRole;
+}
+
+export interface ListUsersFilters {
+  orgId: string;
+  search?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export class UserService {
+  /**
+   * Email is unique across all organizations; phone is unique within an org
+   */
+  private async assertIdentifiersAvailable(
+    orgId: string,
+    email?: string,
+    phoneNumber?: string,
+    excludeUserId?: string
+  ) {
+    const exclude = excludeUserId ? { _id: { $ne: excludeUserId } } : {};
+
+    if (email) {
+      const existing = await User.findOne({ email, ...exclude });
+      if (existing) {
+        throw new Error("Email already in use");
+      }
+    }
+
+    if (phoneNumber) {
+      const existing = await User.findOne({ orgId, phoneNumber, ...exclude });
+      if (existing) {
+        throw new Error("Phone number already in use");
+      }
+    }
+  }
+
+  /**
+   * Refuse changes that would leave the organization without an active admin
+   */
+  private async assertNotLastAdmin(orgId: string, userId: string) {
+    const otherAdmins = await User.countDocuments({
+      orgId,
+      role: "admin",
+      isActive: true,
+      _id: { $ne: userId },
+    });
+    if (otherAdmins === 0) {
+      throw new Error("Organization must keep at least one active admin");
+    }
+  }
+
+  private async findUser(id: string, orgId: string) {
+    const user = await User.findOne({ _id: id, orgId });
+    if (!user) {
+      throw new Error("User not found");
+    }
+    return user;
+  }
+
+  /**
+   * Create a user, mapping unique index violations from concurrent requests
+   */
+  private async insertUser(data: Record<string, any>) {
+    try {
+      return await User.create(data);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error(
+          error.keyPattern?.phoneNumber
+            ? "Phone number already in use"
+            : "Email already in use"
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Strip credentials and invite hashes before returning a user
+   */
+  private toSafeUser(user: any) {
+    const { passwordHash, inviteTokenHash, ...rest } = user.toObject
+      ? user.toObject()
+      : user;
+    return {
+      ...rest,
+      invitePending: !passwordHash,
+    };
+  }
+
+  async listUsers(filters: ListUsersFilters): Promise<PaginatedResponse<any>> {
+    const { orgId, search, role, isActive, page: rawPage, limit: rawLimit } =
+      filters;
+
+    const { page, limit } = PaginationHelper.validateParams(rawPage, rawLimit);
+    const skip = PaginationHelper.getSkip(page, limit);
+
+    const query: any = { orgId };
+    if (role) query.role = role;
+    if (isActive !== undefined) query.isActive = isActive;
+
+    if (search && search.trim()) {
+      const searchTerm = search.trim();
+      query.$or = [
+        { name: { $regex: searchTerm, $options: "i" } },
+        { email: { $regex: searchTerm, $options: "i" } },
+      ];
+    }
+
+    const [total, users] = await Promise.all([
+      User.countDocuments(query),
+      User.find(query).sort({ name: 1 }).skip(skip).limit(limit).lean(),
+    ]);
+
+    return {
+      data: users.map((u) => this.toSafeUser(u)),
+      pagination: PaginationHelper.getMeta(page, limit, total),
+    };
+  }
+
+  async getUserById(id: string, orgId: string) {
+    const user = await User.findOne({ _id: id, orgId }).lean();
+    if (!user) {
+      throw new Error("User not found");
+    }
+    return this.toSafeUser(user);
+  }
+
+  async createUser(data: CreateUserData) {
+    const { orgId, name, email, phoneNumber, password, role } = data;
+
+    await this.assertIdentifiersAvailable(orgId, email, phoneNumber);
+
+    const user = await this.insertUser({
+      orgId,
+      name,
+      email,
+      phoneNumber: phoneNumber || undefined,
+      passwordHash: await hashPassword(password),
+      passwordChangedAt: new Date(),
+      role,
+    });
+
+    return this.toSafeUser(user);
+  }
+
+  /**
+   * Create a user without a password and return a one-time invite token
+   * The token is only returned here; it is stored hashed
+   */
+  async inviteUser(data: InviteUserData) {
+    const { orgId, invitedBy, name, email, phoneNumber, role } = data;
+
+    await this.assertIdentifiersAvailable(orgId, email, phoneNumber);
+
+    const inviteToken = generateToken();
+    const inviteExpiresAt = new Date(
+      Date.now() + INVITE_EXPIRY_HOURS * 60 * 60 * 1000
+    );
+
+    const user = await this.insertUser({
+      orgId,
+      name,
+      email,
+      phoneNumber: phoneNumber || undefined,
+      role,
+      invitedBy,
+      inviteTokenHash: hashToken(inviteToken),
+      inviteExpiresAt,
+    });
+
+    return {
+      user: this.toSafeUser(user),
+      inviteToken,
+      inviteExpiresAt,
+    };
+  }
+
+  /**
+   * Issue a fresh invite token for a user who has not accepted yet
+   */
+  async resendInvite(id: string, orgId: string) {
+    const user = await this.findUser(id, orgId);
+
+    if (user.passwordHash) {
+      throw new Error("User has already accepted the invite");
+    }
+
+    const inviteToken = generateToken();
+    user.inviteTokenHash = hashToken(inviteToken);
+    user.inviteExpiresAt = new Date(
+      Date.now() + INVITE_EXPIRY_HOURS * 60 * 60 * 1000
+    );
+    await user.save();
+
+    return {
+      user: this.toSafeUser(user),
+      inviteToken,
+      inviteExpiresAt: user.inviteExpiresAt,
+    };
+  }
+
+  async deactivateUser(id: string, orgId: string, actingUserId: string) {
+    if (id === actingUserId) {
+      throw new Error("You cannot deactivate your own account");
+    }
+
+    const user = await this.findUser(id, orgId);
+    if (!user.isActive) {
+      throw new Error("User is already inactive");
+    }
+    if (user.role === "admin") {
+      await this.assertNotLastAdmin(orgId, id);
+    }
+
+    user.isActive = false;
+    user.deactivatedAt = new Date();
+    await user.save();
+    await authService.revokeAllSessions(id);
+
+    return this.toSafeUser(user);
+  }
+
+  async reactivateUser(id: string, orgId: string) {
+    const user = await this.findUser(id, orgId);
+    if (user.isActive) {
+      throw new Error("User is already active");
+    }
+
+    user.isActive = true;
+    user.deactivatedAt = undefined;
+    await user.save();
+
+    return this.toSafeUser(user);
+  }
+
+  /**
+   * Admin-initiated password reset; also completes a pending invite
+   */
+  async resetPassword(id: string, orgId: string, password: string) {
+    const user = await this.findUser(id, orgId);
+
+    user.passwordHash = await hashPassword(password);
+    user.passwordChangedAt = new Date();
+    user.inviteTokenHash = undefined;
+    user.inviteExpiresAt = undefined;
+    await user.save();
+    await authService.revokeAllSessions(id);
+
+    return this.toSafeUser(user);
+  }
+
+  async changeRole(
+    id: string,
+    orgId: string,
+    role: UserRole,
+    actingUserId: string
+  ) {
+    const user = await this.findUser(id, orgId);
+
+    if (user.role === role) {
+      return this.toSafeUser(user);
+    }
+
+    if (user.role === "admin") {
+      if (id === actingUserId) {
+        throw new Error("You cannot change your own role");
+      }
+      if (user.isActive) {
+        await this.assertNotLastAdmin(orgId, id);
+      }
+    }
+
+    user.role = role;
+    // Access tokens carry the role; force clients to refresh into the new one
+    user.tokensValidAfter = new Date();
+    await user.save();
+
+    return this.toSafeUser(user);
+  }
+
+  async updateUser(
+    id: string,
+    orgId: string,
+    data: { name?: string; email?: string; phoneNumber?: string | null }
+  ) {
+    const user = await this.findUser(id, orgId);
+
+    await this.assertIdentifiersAvailable(
+      orgId,
+      data.email && data.email !== user.email ? data.email : undefined,
+      data.phoneNumber && data.phoneNumber !== user.phoneNumber
+        ? data.phoneNumber
+        : undefined,
+      id
+    );
+
+    if (data.name) user.name = data.name;
+    if (data.email) user.email = data.email;
+    if (data.phoneNumber !== undefined) {
+      user.phoneNumber = data.phoneNumber || undefined;
+    }
+    await user.save();
+
+    return this.toSafeUser(user);
+  }
+}
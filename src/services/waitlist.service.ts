@@ -0,0 +1,243 @@
+import mongoose from "mongoose";
+import { WaitlistEntry, WaitlistStatus } from "../models/WaitlistEntry";
+import { Product } from "../models/Product";
+import { Customer } from "../models/Customer";
+import { PaginationHelper, PaginatedResponse } from "../types/pagination";
+import {
+  findBookingConflicts,
+  hasAnyConflict,
+} from "../utils/booking-conflicts";
+
+// Statuses an entry may move to by hand; NOTIFIABLE is only set by a cancellation
+const ALLOWED_TRANSITIONS: Record<WaitlistStatus, WaitlistStatus[]> = {
+  WAITING: ["FULFILLED", "CANCELLED"],
+  NOTIFIABLE: ["NOTIFIED", "WAITING", "FULFILLED", "CANCELLED"],
+  NOTIFIED: ["WAITING", "FULFILLED", "CANCELLED"],
+  FULFILLED: [],
+  CANCELLED: [],
+};
+
+export interface CreateWaitlistEntryData {
+  orgId: string;
+  productId: string;
+  fromDateTime: Date;
+  toDateTime: Date;
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  notes?: string;
+  priority?: number;
+  createdBy?: string;
+}
+
+export interface UpdateWaitlistEntryData {
+  status?: WaitlistStatus;
+  notes?: string | null;
+  priority?: number;
+  updatedBy?: string;
+}
+
+export interface ListWaitlistFilters {
+  orgId: string;
+  status?: WaitlistStatus;
+  productId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ReleasedBooking {
+  _id: mongoose.Types.ObjectId;
+  orgId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  fromDateTime: Date;
+  toDateTime: Date;
+}
+
+export class WaitlistService {
+  /**
+   * Add a customer to a product's waitlist
+   * Only allowed when the window actually conflicts; otherwise staff should just book it
+   */
+  async createEntry(data: CreateWaitlistEntryData) {
+    const { orgId, productId, fromDateTime, toDateTime } = data;
+
+    const product = await Product.findOne({
+      _id: productId,
+      orgId,
+      isActive: { $ne: false },
+    });
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    let customerName = data.customerName;
+    let customerPhone = data.customerPhone || undefined;
+    if (data.customerId) {
+      const customer = await Customer.findOne({ _id: data.customerId, orgId });
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+      customerName = customerName || customer.name;
+      customerPhone = customerPhone || customer.phone || undefined;
+    }
+    if (!customerName) {
+      throw new Error("Customer name is required");
+    }
+
+    const conflicts = await findBookingConflicts(
+      orgId,
+      productId,
+      new Date(fromDateTime),
+      new Date(toDateTime)
+    );
+    if (!hasAnyConflict(conflicts)) {
+      throw new Error("Product is available for the selected dates");
+    }
+
+    let priority = data.priority;
+    if (priority === undefined) {
+      const last = await WaitlistEntry.findOne({
+        orgId,
+        productId,
+        status: { $in: ["WAITING", "NOTIFIABLE", "NOTIFIED"] },
+      })
+        .sort({ priority: -1 })
+        .select("priority")
+        .lean();
+      priority = (last?.priority ?? 0) + 1;
+    }
+
+    return await WaitlistEntry.create({
+      orgId,
+      productId,
+      customerId: data.customerId || undefined,
+      customerName,
+      customerPhone,
+      customerEmail: data.customerEmail || undefined,
+      fromDateTime,
+      toDateTime,
+      notes: data.notes || undefined,
+      priority,
+      status: "WAITING",
+      createdBy: data.createdBy,
+    });
+  }
+
+  async listEntries(
+    filters: ListWaitlistFilters
+  ): Promise<PaginatedResponse<any>> {
+    const { orgId, status, productId, page: rawPage, limit: rawLimit } =
+      filters;
+
+    const { page, limit } = PaginationHelper.validateParams(rawPage, rawLimit);
+    const skip = PaginationHelper.getSkip(page, limit);
+
+    const query: any = { orgId };
+    if (status) query.status = status;
+    if (productId) query.productId = productId;
+
+    const [total, entries] = await Promise.all([
+      WaitlistEntry.countDocuments(query),
+      WaitlistEntry.find(query)
+        .populate("productId", "title code imageUrl defaultRent")
+        .populate("createdBy", "name")
+        .sort({ priority: 1, createdAt: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+    ]);
+
+    return {
+      data: entries,
+      pagination: PaginationHelper.getMeta(page, limit, total),
+    };
+  }
+
+  async getEntryById(id: string, orgId: string) {
+    const entry = await WaitlistEntry.findOne({ _id: id, orgId })
+      .populate("productId", "title code imageUrl defaultRent")
+      .populate("createdBy", "name")
+      .populate("notifiedBy", "name")
+      .lean();
+    if (!entry) {
+      throw new Error("Waitlist entry not found");
+    }
+    return entry;
+  }
+
+  async updateEntry(id: string, orgId: string, data: UpdateWaitlistEntryData) {
+    const entry = await WaitlistEntry.findOne({ _id: id, orgId });
+    if (!entry) {
+      throw new Error("Waitlist entry not found");
+    }
+
+    if (data.status && data.status !== entry.status) {
+      if (!ALLOWED_TRANSITIONS[entry.status].includes(data.status)) {
+        throw new Error(
+          `Cannot move waitlist entry from ${entry.status} to ${data.status}`
+        );
+      }
+      if (data.status === "NOTIFIED") {
+        entry.notifiedAt = new Date();
+        entry.notifiedBy = data.updatedBy
+          ? new mongoose.Types.ObjectId(data.updatedBy)
+          : undefined;
+      }
+      entry.status = data.status;
+    }
+
+    if (data.notes !== undefined) entry.notes = data.notes || undefined;
+    if (data.priority !== undefined) entry.priority = data.priority;
+
+    await entry.save();
+    return entry;
+  }
+
+  /**
+   * Mark waiting entries as notifiable after a booking of their product is cancelled
+   * Entries are checked in priority order and only those whose window is now fully
+   * free (no other booking, buffer or maintenance) are marked. Safe to call again.
+   *
+   * @returns Entries marked notifiable, in priority order
+   */
+  async releaseForCancelledBooking(booking: ReleasedBooking) {
+    const now = new Date();
+
+    const candidates = await WaitlistEntry.find({
+      orgId: booking.orgId,
+      productId: booking.productId,
+      status: "WAITING",
+      fromDateTime: { $lt: booking.toDateTime, $gt: now },
+      toDateTime: { $gt: booking.fromDateTime },
+    }).sort({ priority: 1, createdAt: 1 });
+
+    const released = [];
+    for (const entry of candidates) {
+      const conflicts = await findBookingConflicts(
+        booking.orgId,
+        booking.productId,
+        entry.fromDateTime,
+        entry.toDateTime
+      );
+      if (hasAnyConflict(conflicts)) continue;
+
+      const updated = await WaitlistEntry.findOneAndUpdate(
+        { _id: entry._id, status: "WAITING" },
+        {
+          $set: {
+            status: "NOTIFIABLE",
+            notifiableAt: now,
+            releasedByBookingId: booking._id,
+          },
+        },
+        { new: true }
+      );
+      if (updated) {
+        released.push(updated);
+      }
+    }
+
+    return released;
+  }
+}
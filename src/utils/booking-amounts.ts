@@ -0,0 +1,180 @@
+/**
+ * Booking amount helpers shared by booking and order services
+ */
+import mongoose from "mongoose";
+import {
+  IBookingCharge,
+  IPaymentEntry,
+  PaymentMethod,
+} from "../models/Booking";
+import { BookingTaxTerms, calculateExclusiveTax } from "./gst";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sum of all extra charges (damage, late fee, cleaning) on a booking
+ */
+export function calculateChargesTotal(charges?: IBookingCharge[]): number {
+  if (!charges || charges.length === 0) return 0;
+  return charges.reduce((sum, c) => sum + c.amount, 0);
+}
+
+/**
+ * Total amount owed on a booking: decided rent plus any extra charges,
+ * plus GST when the booking is priced tax-exclusive
+ */
+export function calculateAmountDue(
+  booking: BookingTaxTerms & {
+    decidedRent: number;
+    charges?: IBookingCharge[];
+  }
+): number {
+  return (
+    booking.decidedRent +
+    calculateChargesTotal(booking.charges) +
+    calculateExclusiveTax(booking)
+  );
+}
+
+export interface PaymentDetails {
+  method?: PaymentMethod;
+  reference?: string;
+  collectedBy?: string; // Staff user id
+}
+
+export interface PaymentMethodBreakdown {
+  method: PaymentMethod;
+  received: number; // Advances and payments
+  refunded: number;
+  depositsCollected: number;
+  depositsRefunded: number;
+  net: number; // Money in minus money out through this method
+}
+
+/**
+ * Method, reference and collecting staff for a new payment entry
+ * The method is never assumed; only entries recorded before methods were tracked read as cash
+ */
+export function paymentDetailFields(
+  details: PaymentDetails
+): Pick<IPaymentEntry, "method" | "reference" | "collectedBy"> {
+  if (!details.method) {
+    throw new Error("Payment method is required");
+  }
+  return {
+    method: details.method,
+    reference: details.reference || undefined,
+    collectedBy: details.collectedBy
+      ? new mongoose.Types.ObjectId(details.collectedBy)
+      : undefined,
+  };
+}
+
+/**
+ * Totals per payment method, for reconciling cash, UPI, card and bank transfers
+ * Adjustments and forfeited deposits are skipped since no money moves
+ */
+export function summarizePaymentsByMethod(
+  payments: Array<
+    Pick<IPaymentEntry, "type" | "amount"> & { method?: PaymentMethod }
+  >
+): PaymentMethodBreakdown[] {
+  const byMethod = new Map<PaymentMethod, PaymentMethodBreakdown>();
+
+  for (const p of payments) {
+    const method = p.method || "CASH";
+    if (method === "ADJUSTMENT") continue;
+
+    let row = byMethod.get(method);
+    if (!row) {
+      row = {
+        method,
+        received: 0,
+        refunded: 0,
+        depositsCollected: 0,
+        depositsRefunded: 0,
+        net: 0,
+      };
+      byMethod.set(method, row);
+    }
+
+    if (p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED") {
+      row.received += p.amount;
+      row.net += p.amount;
+    } else if (p.type === "REFUND") {
+      row.refunded += p.amount;
+      row.net -= p.amount;
+    } else if (p.type === "DEPOSIT_COLLECTED") {
+      row.depositsCollected += p.amount;
+      row.net += p.amount;
+    } else if (p.type === "DEPOSIT_REFUNDED") {
+      row.depositsRefunded += p.amount;
+      row.net -= p.amount;
+    }
+  }
+
+  return [...byMethod.values()];
+}
+
+/**
+ * Number of rental days billed for a window; part days count as a full day
+ */
+export function countRentalDays(fromDateTime: Date, toDateTime: Date): number {
+  const ms = toDateTime.getTime() - fromDateTime.getTime();
+  return Math.max(1, Math.ceil(ms / DAY_MS));
+}
+
+/**
+ * Per-day rate implied by a booking's decided rent over its rental days
+ */
+export function calculatePerDayRate(booking: {
+  decidedRent: number;
+  fromDateTime: Date;
+  toDateTime: Date;
+}): number {
+  const days = countRentalDays(booking.fromDateTime, booking.toDateTime);
+  return Math.round((booking.decidedRent / days) * 100) / 100;
+}
+
+/**
+ * Rent paid on a booking: advances and payments minus refunds
+ */
+export function calculateAmountPaid(
+  payments: Array<Pick<IPaymentEntry, "type" | "amount">>
+): number {
+  return payments.reduce((sum, p) => {
+    if (p.type === "ADVANCE" || p.type === "PAYMENT_RECEIVED") {
+      return sum + p.amount;
+    }
+    if (p.type === "REFUND") {
+      return sum - p.amount;
+    }
+    return sum;
+  }, 0);
+}
+
+/**
+ * Calculate late fee for a return based on the organization's rate
+ * Late time beyond the grace period is billed per started day
+ *
+ * @param dueAt - Planned return time (booking toDateTime)
+ * @param returnedAt - Actual return time
+ * @param lateFeePerDay - Fee charged per day late
+ * @param graceHours - Hours after due time before a late fee applies
+ * @returns Number of late days billed and the fee amount
+ */
+export function calculateLateFee(
+  dueAt: Date,
+  returnedAt: Date,
+  lateFeePerDay: number,
+  graceHours: number = 0
+): { lateDays: number; amount: number } {
+  const lateMs =
+    returnedAt.getTime() - dueAt.getTime() - graceHours * 60 * 60 * 1000;
+  if (lateMs <= 0 || lateFeePerDay <= 0) {
+    return { lateDays: 0, amount: 0 };
+  }
+
+  const lateDays = Math.ceil(lateMs / DAY_MS);
+  return { lateDays, amount: lateDays * lateFeePerDay };
+}
@@ -0,0 +1,245 @@
+import mongoose from "mongoose";
+import { Booking, IBooking } from "../models/Booking";
+import { Product } from "../models/Product";
+import { Category } from "../models/Category";
+import {
+  MaintenanceBlock,
+  IMaintenanceBlock,
+} from "../models/MaintenanceBlock";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface BookingConflictSet {
+  overlaps: IBooking[]; // Bookings that share time with the window
+  bufferConflicts: IBooking[]; // Bookings that only fall inside the turnaround buffer
+  maintenanceConflicts: IMaintenanceBlock[]; // Open maintenance blocks that share time with the window
+  bufferHours: number;
+}
+
+/**
+ * Bookings that still occupy their product: not cancelled, and not a hold
+ * that has expired but has not been swept yet
+ */
+export function activeBookingFilter(now: Date = new Date()) {
+  return {
+    status: { $ne: "CANCELLED" },
+    $nor: [{ status: "HELD", holdExpiresAt: { $lte: now } }],
+  };
+}
+
+/**
+ * Maintenance blocks that are not done and overlap the window
+ */
+export async function findMaintenanceOverlaps(
+  orgId: string | mongoose.Types.ObjectId,
+  productId: string | mongoose.Types.ObjectId,
+  fromDateTime: Date,
+  toDateTime: Date,
+  excludeBlockId?: string
+): Promise<IMaintenanceBlock[]> {
+  const query: any = {
+    orgId,
+    productId,
+    status: { $ne: "DONE" },
+    fromDateTime: { $lt: toDateTime },
+    toDateTime: { $gt: fromDateTime },
+  };
+  if (excludeBlockId) {
+    query._id = { $ne: excludeBlockId };
+  }
+
+  return await MaintenanceBlock.find(query).sort({ fromDateTime: 1 });
+}
+
+/**
+ * True when the set holds anything that should stop a booking without an override
+ */
+export function hasAnyConflict(set: BookingConflictSet): boolean {
+  return (
+    set.overlaps.length > 0 ||
+    set.bufferConflicts.length > 0 ||
+    set.maintenanceConflicts.length > 0
+  );
+}
+
+/**
+ * Turnaround buffer for a product: its own override, else its category's, else 0
+ */
+export async function getTurnaroundBufferHours(
+  orgId: string | mongoose.Types.ObjectId,
+  productId: string | mongoose.Types.ObjectId
+): Promise<number> {
+  const product = await Product.findOne({ _id: productId, orgId })
+    .select("categoryId turnaroundBufferHours")
+    .lean();
+  if (!product) {
+    return 0;
+  }
+  if (product.turnaroundBufferHours != null) {
+    return product.turnaroundBufferHours;
+  }
+  if (!product.categoryId) {
+    return 0;
+  }
+
+  const category = await Category.findOne({ _id: product.categoryId, orgId })
+    .select("turnaroundBufferHours")
+    .lean();
+  return category?.turnaroundBufferHours ?? 0;
+}
+
+/**
+ * Everything that clashes with a booking window: non-cancelled bookings, split into
+ * hard overlaps and bookings that only violate the turnaround buffer, plus open
+ * maintenance blocks
+ *
+ * @param excludeIds - Bookings to ignore (the booking being edited, siblings in the same order)
+ */
+export async function findBookingConflicts(
+  orgId: string | mongoose.Types.ObjectId,
+  productId: string | mongoose.Types.ObjectId,
+  fromDateTime: Date,
+  toDateTime: Date,
+  excludeIds: Array<string | mongoose.Types.ObjectId> = []
+): Promise<BookingConflictSet> {
+  const bufferHours = await getTurnaroundBufferHours(orgId, productId);
+  const bufferMs = bufferHours * HOUR_MS;
+
+  const query: any = {
+    orgId,
+    productId,
+    ...activeBookingFilter(),
+    fromDateTime: { $lt: new Date(toDateTime.getTime() + bufferMs) },
+    toDateTime: { $gt: new Date(fromDateTime.getTime() - bufferMs) },
+  };
+  if (excludeIds.length > 0) {
+    query._id = { $nin: excludeIds };
+  }
+
+  const [bookings, maintenanceConflicts] = await Promise.all([
+    Booking.find(query).sort({ fromDateTime: 1 }),
+    findMaintenanceOverlaps(orgId, productId, fromDateTime, toDateTime),
+  ]);
+
+  const overlaps: IBooking[] = [];
+  const bufferConflicts: IBooking[] = [];
+  for (const booking of bookings) {
+    if (booking.fromDateTime < toDateTime && booking.toDateTime > fromDateTime) {
+      overlaps.push(booking);
+    } else {
+      bufferConflicts.push(booking);
+    }
+  }
+
+  return { overlaps, bufferConflicts, maintenanceConflicts, bufferHours };
+}
+
+/**
+ * Products of an organization that cannot take a booking for the window:
+ * booked, inside a turnaround buffer, or under open maintenance.
+ * Works from one range query over the org's bookings instead of a per-product check.
+ */
+export async function findUnavailableProductIds(
+  orgId: string | mongoose.Types.ObjectId,
+  fromDateTime: Date,
+  toDateTime: Date
+): Promise<mongoose.Types.ObjectId[]> {
+  // Widen by the largest buffer in use so buffer clashes are in the result set
+  const [maxProductBuffer, maxCategoryBuffer] = await Promise.all([
+    Product.findOne({ orgId, turnaroundBufferHours: { $gt: 0 } })
+      .sort({ turnaroundBufferHours: -1 })
+      .select("turnaroundBufferHours")
+      .lean(),
+    Category.findOne({ orgId, turnaroundBufferHours: { $gt: 0 } })
+      .sort({ turnaroundBufferHours: -1 })
+      .select("turnaroundBufferHours")
+      .lean(),
+  ]);
+  const maxBufferMs =
+    Math.max(
+      maxProductBuffer?.turnaroundBufferHours ?? 0,
+      maxCategoryBuffer?.turnaroundBufferHours ?? 0
+    ) * HOUR_MS;
+
+  const [bookings, maintenanceProductIds] = await Promise.all([
+    Booking.find({
+      orgId,
+      ...activeBookingFilter(),
+      fromDateTime: { $lt: new Date(toDateTime.getTime() + maxBufferMs) },
+      toDateTime: { $gt: new Date(fromDateTime.getTime() - maxBufferMs) },
+    })
+      .select("productId fromDateTime toDateTime")
+      .lean(),
+    MaintenanceBlock.distinct("productId", {
+      orgId,
+      status: { $ne: "DONE" },
+      fromDateTime: { $lt: toDateTime },
+      toDateTime: { $gt: fromDateTime },
+    }),
+  ]);
+
+  const unavailable = new Map<string, mongoose.Types.ObjectId>();
+  for (const productId of maintenanceProductIds) {
+    unavailable.set(productId.toString(), productId);
+  }
+
+  // Hard overlaps need no buffer lookup
+  const nearMisses: typeof bookings = [];
+  for (const booking of bookings) {
+    if (booking.fromDateTime < toDateTime && booking.toDateTime > fromDateTime) {
+      unavailable.set(booking.productId.toString(), booking.productId);
+    } else {
+      nearMisses.push(booking);
+    }
+  }
+
+  const pending = nearMisses.filter(
+    (b) => !unavailable.has(b.productId.toString())
+  );
+  if (pending.length > 0) {
+    const products = await Product.find({
+      orgId,
+      _id: { $in: [...new Set(pending.map((b) => b.productId.toString()))] },
+    })
+      .select("categoryId turnaroundBufferHours")
+      .lean();
+    const categories = await Category.find({
+      orgId,
+      _id: {
+        $in: products
+          .map((p) => p.categoryId)
+          .filter((id): id is mongoose.Types.ObjectId => !!id),
+      },
+    })
+      .select("turnaroundBufferHours")
+      .lean();
+
+    const categoryBuffers = new Map(
+      categories.map((c) => [c._id.toString(), c.turnaroundBufferHours ?? 0])
+    );
+    // Same precedence as getTurnaroundBufferHours: product override, then category
+    const productBuffers = new Map<string, number>();
+    for (const p of products) {
+      const categoryBuffer = p.categoryId
+        ? categoryBuffers.get(p.categoryId.toString())
+        : undefined;
+      productBuffers.set(
+        p._id.toString(),
+        p.turnaroundBufferHours ?? categoryBuffer ?? 0
+      );
+    }
+
+    for (const booking of pending) {
+      const bufferMs =
+        (productBuffers.get(booking.productId.toString()) ?? 0) * HOUR_MS;
+      if (
+        booking.fromDateTime.getTime() < toDateTime.getTime() + bufferMs &&
+        booking.toDateTime.getTime() > fromDateTime.getTime() - bufferMs
+      ) {
+        unavailable.set(booking.productId.toString(), booking.productId);
+      }
+    }
+  }
+
+  return [...unavailable.values()];
+}
@@ -0,0 +1,58 @@
+/**
+ * Derived booking status helpers (overdue tracking)
+ */
+import { BookingStatus, EffectiveBookingStatus } from "../models/Booking";
+
+/**
+ * Milliseconds a booking is past its planned return time
+ * Only ISSUED bookings can be overdue; returns 0 otherwise
+ */
+export function getOverdueMs(
+  booking: { status: BookingStatus; toDateTime: Date },
+  now: Date = new Date()
+): number {
+  if (booking.status !== "ISSUED") return 0;
+  return Math.max(0, now.getTime() - new Date(booking.toDateTime).getTime());
+}
+
+/**
+ * Whether an issued booking has passed its planned return time
+ */
+export function isOverdue(
+  booking: { status: BookingStatus; toDateTime: Date },
+  now: Date = new Date()
+): boolean {
+  return getOverdueMs(booking, now) > 0;
+}
+
+/**
+ * Stored status, with ISSUED bookings past toDateTime reported as OVERDUE
+ */
+export function getEffectiveStatus(
+  booking: { status: BookingStatus; toDateTime: Date },
+  now: Date = new Date()
+): EffectiveBookingStatus {
+  return isOverdue(booking, now) ? "OVERDUE" : booking.status;
+}
+
+/**
+ * Annotate a plain booking object with overdue fields for API responses
+ */
+export function withOverdueInfo<
+  T extends { status: BookingStatus; toDateTime: Date }
+>(
+  booking: T,
+  now: Date = new Date()
+): T & {
+  effectiveStatus: EffectiveBookingStatus;
+  isOverdue: boolean;
+  overdueHours: number;
+} {
+  const overdueMs = getOverdueMs(booking, now);
+  return {
+    ...booking,
+    effectiveStatus: getEffectiveStatus(booking, now),
+    isOverdue: overdueMs > 0,
+    overdueHours: Math.floor(overdueMs / (60 * 60 * 1000)),
+  };
+}
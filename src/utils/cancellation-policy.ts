@@ -0,0 +1,56 @@
+import { ICancellationPolicy } from "../models/Organization";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PolicyRefund {
+  suggestedRefund: number;
+  refundPercent: number;
+  daysBeforeStart: number; // Negative once the rental period has started
+  appliedTier: { minDaysBefore: number; refundPercent: number } | null; // null when no policy is configured or no tier matches
+}
+
+/**
+ * Suggested refund for a cancellation under the org's policy
+ * Tiers are matched from the longest notice period down; without tiers everything paid is refundable
+ */
+export function calculatePolicyRefund(
+  policy: ICancellationPolicy | undefined,
+  amountPaid: number,
+  fromDateTime: Date,
+  cancelledAt: Date = new Date()
+): PolicyRefund {
+  const paid = Math.max(0, amountPaid);
+  const daysBeforeStart =
+    (new Date(fromDateTime).getTime() - cancelledAt.getTime()) / DAY_MS;
+  const tiers = policy?.tiers || [];
+
+  if (tiers.length === 0) {
+    return {
+      suggestedRefund: paid,
+      refundPercent: 100,
+      daysBeforeStart,
+      appliedTier: null,
+    };
+  }
+
+  const tier = [...tiers]
+    .sort((a, b) => b.minDaysBefore - a.minDaysBefore)
+    .find((t) => daysBeforeStart >= t.minDaysBefore);
+  const refundPercent = tier ? tier.refundPercent : 0;
+
+  return {
+    suggestedRefund: Math.round(paid * refundPercent) / 100,
+    refundPercent,
+    daysBeforeStart,
+    appliedTier: tier
+      ? { minDaysBefore: tier.minDaysBefore, refundPercent: tier.refundPercent }
+      : null,
+  };
+}
+
+/**
+ * Treat amounts within half a paisa as equal
+ */
+export function isSameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
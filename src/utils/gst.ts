@@ -0,0 +1,303 @@
+/**
+ * GST calculations for tax invoices and the monthly filing summary
+ */
+import mongoose from "mongoose";
+import { IBookingCharge } from "../models/Booking";
+import {
+  Organization,
+  ITaxSettings,
+  TaxPricingMode,
+} from "../models/Organization";
+import { Category } from "../models/Category";
+
+export const GSTIN_PATTERN =
+  /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export interface GstAmounts {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number; // Taxable value plus tax
+}
+
+export interface InvoiceTaxLine extends GstAmounts {
+  bookingId: string;
+  product: string;
+  description: string; // "Rent" or the charge type
+  hsnSacCode?: string;
+  rate: number;
+  pricingMode: TaxPricingMode; // The booking's own mode; see BookingTaxTerms
+  amount: number; // Rent or charge as recorded on the booking
+}
+
+export interface InvoiceTaxSummaryRow extends GstAmounts {
+  hsnSacCode?: string;
+  rate: number;
+}
+
+export interface InvoiceTax {
+  gstin?: string;
+  supplierStateCode?: string;
+  placeOfSupply?: string;
+  customerGstin?: string;
+  interState: boolean; // IGST instead of CGST + SGST
+  lines: InvoiceTaxLine[];
+  summary: InvoiceTaxSummaryRow[]; // Grouped by HSN/SAC code and rate
+  totals: GstAmounts;
+}
+
+/**
+ * Tax terms a booking is priced under, fixed when it is created
+ * Bookings created while GST was off have none: their amounts never had tax added,
+ * so invoices treat them as tax-inclusive
+ */
+export interface BookingTaxTerms {
+  taxRate?: number;
+  taxPricingMode?: TaxPricingMode;
+}
+
+export interface TaxableBooking extends BookingTaxTerms {
+  _id: { toString(): string };
+  status: string;
+  decidedRent: number;
+  charges?: IBookingCharge[];
+  productId?: any; // Populated product, for the line title
+  categoryId?: any; // Populated category, for its HSN/SAC code and rate
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function emptyGstAmounts(): GstAmounts {
+  return {
+    taxableValue: 0,
+    cgst: 0,
+    sgst: 0,
+    igst: 0,
+    totalTax: 0,
+    total: 0,
+  };
+}
+
+/**
+ * Add GST figures into a running total (lines into an invoice, invoices into a month)
+ */
+export function addGstAmounts(target: GstAmounts, amounts: GstAmounts) {
+  target.taxableValue = roundAmount(
+    target.taxableValue + amounts.taxableValue
+  );
+  target.cgst = roundAmount(target.cgst + amounts.cgst);
+  target.sgst = roundAmount(target.sgst + amounts.sgst);
+  target.igst = roundAmount(target.igst + amounts.igst);
+  target.totalTax = roundAmount(target.totalTax + amounts.totalTax);
+  target.total = roundAmount(target.total + amounts.total);
+}
+
+/**
+ * Tax on one amount; INCLUSIVE amounts already contain it, EXCLUSIVE ones get it added
+ * Intra-state tax is split into CGST and SGST, with any odd paisa going to SGST
+ */
+export function calculateGst(
+  amount: number,
+  rate: number,
+  pricingMode: TaxPricingMode,
+  interState: boolean
+): GstAmounts {
+  const taxableValue =
+    pricingMode === "INCLUSIVE"
+      ? roundAmount(amount / (1 + rate / 100))
+      : roundAmount(amount);
+  const totalTax =
+    pricingMode === "INCLUSIVE"
+      ? roundAmount(amount - taxableValue)
+      : roundAmount((amount * rate) / 100);
+
+  const cgst = interState ? 0 : roundAmount(totalTax / 2);
+  return {
+    taxableValue,
+    cgst,
+    sgst: interState ? 0 : roundAmount(totalTax - cgst),
+    igst: interState ? totalTax : 0,
+    totalTax,
+    total: roundAmount(taxableValue + totalTax),
+  };
+}
+
+/**
+ * GST added on top of a booking's rent and charges; 0 unless it is priced EXCLUSIVE
+ * Taxed line by line, like the invoice, so the amount due matches the invoice total
+ */
+export function calculateExclusiveTax(
+  booking: BookingTaxTerms & {
+    decidedRent: number;
+    charges?: IBookingCharge[];
+  }
+): number {
+  if (booking.taxPricingMode !== "EXCLUSIVE" || !booking.taxRate) {
+    return 0;
+  }
+  const rate = booking.taxRate;
+  const amounts = [
+    booking.decidedRent,
+    ...(booking.charges || []).map((c) => c.amount),
+  ];
+  return roundAmount(
+    amounts.reduce(
+      (sum, amount) =>
+        sum + calculateGst(amount, rate, "EXCLUSIVE", false).totalTax,
+      0
+    )
+  );
+}
+
+/**
+ * An amount of a booking's rent with its exclusive GST added, e.g. a refund for unused days
+ */
+export function addExclusiveTax(
+  amount: number,
+  terms: BookingTaxTerms
+): number {
+  return roundAmount(
+    amount +
+      calculateExclusiveTax({
+        taxRate: terms.taxRate,
+        taxPricingMode: terms.taxPricingMode,
+        decidedRent: amount,
+      })
+  );
+}
+
+/**
+ * Rent inside an amount paid or refunded on a booking: the amount less any exclusive GST
+ */
+export function removeExclusiveTax(
+  amount: number,
+  terms: BookingTaxTerms
+): number {
+  if (terms.taxPricingMode !== "EXCLUSIVE" || !terms.taxRate) {
+    return amount;
+  }
+  return roundAmount(amount / (1 + terms.taxRate / 100));
+}
+
+/**
+ * Tax terms for a new booking: its category's rate (else the org default) and the
+ * org's pricing mode, or none while GST is off
+ */
+export async function resolveBookingTaxTerms(
+  orgId: string | mongoose.Types.ObjectId,
+  categoryId?: string | mongoose.Types.ObjectId | null
+): Promise<BookingTaxTerms> {
+  const organization = await Organization.findById(orgId)
+    .select("taxSettings")
+    .lean();
+  const settings = organization?.taxSettings;
+  if (!settings?.enabled) {
+    return {};
+  }
+
+  const category = categoryId
+    ? await Category.findOne({ _id: categoryId, orgId })
+        .select("gstRate")
+        .lean()
+    : null;
+  return {
+    taxRate: category?.gstRate ?? settings.defaultRate ?? 0,
+    taxPricingMode: settings.pricingMode,
+  };
+}
+
+/**
+ * Supplier state: the configured code, else the first two digits of the GSTIN
+ */
+export function getSupplierStateCode(
+  settings: ITaxSettings
+): string | undefined {
+  return settings.stateCode || settings.gstin?.slice(0, 2) || undefined;
+}
+
+/**
+ * GST breakdown for an invoice, or undefined when the organization has GST off
+ * Rent and extra charges of active bookings are taxed at the rate and mode fixed on
+ * the booking. EXCLUSIVE tax is already part of each booking's amount due.
+ */
+export function calculateInvoiceTax(
+  settings: ITaxSettings | undefined,
+  order: { placeOfSupply?: string; customerGstin?: string },
+  bookings: TaxableBooking[]
+): InvoiceTax | undefined {
+  if (!settings?.enabled) {
+    return undefined;
+  }
+
+  const supplierStateCode = getSupplierStateCode(settings);
+  const interState =
+    !!order.placeOfSupply &&
+    !!supplierStateCode &&
+    order.placeOfSupply !== supplierStateCode;
+
+  const lines: InvoiceTaxLine[] = [];
+  for (const booking of bookings) {
+    if (booking.status === "CANCELLED") continue;
+
+    const category = booking.categoryId;
+    const rate =
+      booking.taxRate ?? category?.gstRate ?? settings.defaultRate ?? 0;
+    const pricingMode = booking.taxPricingMode ?? "INCLUSIVE";
+    const hsnSacCode =
+      category?.hsnSacCode || settings.defaultHsnSacCode || undefined;
+    const base = {
+      bookingId: booking._id.toString(),
+      product: booking.productId?.title || "Unknown",
+      hsnSacCode,
+      rate,
+      pricingMode,
+    };
+
+    lines.push({
+      ...base,
+      description: "Rent",
+      amount: booking.decidedRent,
+      ...calculateGst(booking.decidedRent, rate, pricingMode, interState),
+    });
+    for (const charge of booking.charges || []) {
+      lines.push({
+        ...base,
+        description: charge.type,
+        amount: charge.amount,
+        ...calculateGst(charge.amount, rate, pricingMode, interState),
+      });
+    }
+  }
+
+  const summaryByKey = new Map<string, InvoiceTaxSummaryRow>();
+  const totals = emptyGstAmounts();
+  for (const line of lines) {
+    const key = `${line.hsnSacCode || ""}|${line.rate}`;
+    let row = summaryByKey.get(key);
+    if (!row) {
+      row = {
+        hsnSacCode: line.hsnSacCode,
+        rate: line.rate,
+        ...emptyGstAmounts(),
+      };
+      summaryByKey.set(key, row);
+    }
+    addGstAmounts(row, line);
+    addGstAmounts(totals, line);
+  }
+
+  return {
+    gstin: settings.gstin,
+    supplierStateCode,
+    placeOfSupply: order.placeOfSupply || supplierStateCode,
+    customerGstin: order.customerGstin,
+    interState,
+    lines,
+    summary: [...summaryByKey.values()],
+    totals,
+  };
+}
@@ -0,0 +1,37 @@
+import mongoose, { ClientSession } from "mongoose";
+import { Counter } from "../models/Counter";
+
+/**
+ * Atomically reserve the next number in a per-organization sequence
+ * Numbers are never handed out twice; inside a session the reservation
+ * is released again if the transaction aborts
+ *
+ * @param orgId - Organization the sequence belongs to
+ * @param name - Sequence name (e.g. "invoice", "receipt")
+ * @param session - Transaction the reservation belongs to, if any
+ * @returns The reserved sequence value (starting at 1)
+ */
+export async function getNextSequence(
+  orgId: string | mongoose.Types.ObjectId,
+  name: string,
+  session?: ClientSession
+): Promise<number> {
+  const counter = await Counter.findOneAndUpdate(
+    { orgId, name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, session }
+  );
+  return counter!.seq;
+}
+
+/**
+ * Format a sequence value as a document number, e.g. 4DCHOLI-INV-000042
+ */
+export function formatDocumentNumber(
+  orgCode: string | undefined,
+  prefix: string,
+  seq: number
+): string {
+  const number = `${prefix}-${String(seq).padStart(6, "0")}`;
+  return orgCode ? `${orgCode}-${number}` : number;
+}
@@ -0,0 +1,22 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+
+const PASSWORD_SALT_ROUNDS = 10;
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+}
+
+/**
+ * Generate an opaque random token to hand out once (invites, etc.)
+ */
+export function generateToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString("hex");
+}
+
+/**
+ * Tokens are stored hashed so a database leak does not expose usable tokens
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
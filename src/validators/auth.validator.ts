@@ -39,8 +39,51 @@ export const loginSchema = Joi.object({
     "string.min": "Password must be at least 6 characters",
     "any.required": "Password is required",
   }),
+  deviceName: Joi.string().trim().max(100).allow("", null).optional().messages({
+    "string.max": "Device name must not exceed 100 characters",
+  }),
 })
   .or("email", "phoneNumber")
   .messages({
     "object.missing": "Either email or phone number is required",
   });
+
+export const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string().required().messages({
+    "any.required": "Current password is required",
+  }),
+  newPassword: Joi.string().min(6).max(128).required().messages({
+    "string.min": "New password must be at least 6 characters",
+    "string.max": "New password must not exceed 128 characters",
+    "any.required": "New password is required",
+  }),
+});
+
+export const acceptInviteSchema = Joi.object({
+  token: Joi.string().trim().required().messages({
+    "any.required": "Invite token is required",
+  }),
+  password: Joi.string().min(6).max(128).required().messages({
+    "string.min": "Password must be at least 6 characters",
+    "string.max": "Password must not exceed 128 characters",
+    "any.required": "Password is required",
+  }),
+});
+
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().trim().required().messages({
+    "any.required": "Refresh token is required",
+  }),
+});
+
+export const logoutSchema = Joi.object({
+  refreshToken: Joi.string().trim().optional(),
+});
+
+export const sessionParamsSchema = Joi.object({
+  sessionId: Joi.string().hex().length(32).required().messages({
+    "string.hex": "Invalid session ID format",
+    "string.length": "Invalid session ID format",
+    "any.required": "Session ID is required",
+  }),
+});
@@ -0,0 +1,50 @@
+import Joi from "joi";
+import {
+  methodRequiredForAmounts,
+  paymentMethodValidation,
+  paymentReferenceValidation,
+} from "./payment.validator";
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+export const acceptBookingRequestSchema = Joi.object({
+  decidedRent: Joi.number().min(0).optional().messages({
+    "number.base": "Decided rent must be a number",
+    "number.min": "Decided rent must be 0 or greater",
+  }),
+  advanceAmount: Joi.number().min(0).optional().messages({
+    "number.base": "Advance amount must be a number",
+    "number.min": "Advance amount must be 0 or greater",
+  }),
+  advanceMethod: methodRequiredForAmounts(
+    paymentMethodValidation,
+    "Advance method is required when an advance is paid",
+    "advanceAmount"
+  ),
+  advanceReference: paymentReferenceValidation.optional(),
+  overrideConflicts: Joi.boolean().optional(),
+});
+
+export const rejectBookingRequestSchema = Joi.object({
+  reason: Joi.string().trim().max(500).allow("", null).optional().messages({
+    "string.max": "Reason must not exceed 500 characters",
+  }),
+});
+
+export const getBookingRequestParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid booking request ID format",
+    "any.required": "Booking request ID is required",
+  }),
+});
+
+export const listBookingRequestsQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid("PENDING", "ACCEPTED", "REJECTED")
+    .optional()
+    .messages({
+      "any.only": "Status must be one of: PENDING, ACCEPTED, REJECTED",
+    }),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});
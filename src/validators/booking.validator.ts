@@ -1,4 +1,10 @@
 import Joi from "joi";
+import {
+  methodRequiredForAmounts,
+  paymentMethodValidation,
+  paymentOrCreditMethodValidation,
+  paymentReferenceValidation,
+} from "./payment.validator";
 
 const objectIdPattern = /^[0-9a-fA-F]{24}$/;
 
@@ -55,6 +61,8 @@ export const updateBookingSchema = Joi.object({
     "number.base": "Advance amount must be a number",
     "number.min": "Advance amount must be 0 or greater",
   }),
+  advanceMethod: paymentMethodValidation.optional(),
+  advanceReference: paymentReferenceValidation.optional(),
   additionalItemsDescription: Joi.string()
     .trim()
     .max(1000)
@@ -65,6 +73,12 @@ export const updateBookingSchema = Joi.object({
         "Additional items description must not exceed 1000 characters",
     }),
   overrideConflicts: Joi.boolean().optional(),
+  // Extends or shortens a HELD booking's hold
+  holdExpiresAt: Joi.date().iso().greater("now").optional().messages({
+    "date.base": "Hold expiry must be a valid date",
+    "date.format": "Hold expiry must be in ISO format",
+    "date.greater": "Hold expiry must be in the future",
+  }),
 }).custom((value, helpers) => {
   if (value.fromDateTime && value.toDateTime) {
     if (new Date(value.toDateTime) <= new Date(value.fromDateTime)) {
@@ -86,6 +100,25 @@ export const issueProductSchema = Joi.object({
     .messages({
       "string.max": "Payment note must not exceed 500 characters",
     }),
+  depositAmount: Joi.number().min(0).optional().messages({
+    "number.base": "Deposit amount must be a number",
+    "number.min": "Deposit amount must be positive or zero",
+  }),
+  depositNote: Joi.string()
+    .trim()
+    .max(500)
+    .optional()
+    .allow("", null)
+    .messages({
+      "string.max": "Deposit note must not exceed 500 characters",
+    }),
+  paymentMethod: methodRequiredForAmounts(
+    paymentMethodValidation,
+    "Payment method is required when collecting a payment or deposit",
+    "paymentAmount",
+    "depositAmount"
+  ),
+  paymentReference: paymentReferenceValidation.optional(),
 });
 
 export const returnProductSchema = Joi.object({
@@ -100,6 +133,131 @@ export const returnProductSchema = Joi.object({
     .messages({
       "string.max": "Payment note must not exceed 500 characters",
     }),
+  depositRefundAmount: Joi.number().min(0).optional().messages({
+    "number.base": "Deposit refund amount must be a number",
+    "number.min": "Deposit refund amount must be positive or zero",
+  }),
+  depositNote: Joi.string()
+    .trim()
+    .max(500)
+    .optional()
+    .allow("", null)
+    .messages({
+      "string.max": "Deposit note must not exceed 500 characters",
+    }),
+  charges: Joi.array()
+    .items(
+      Joi.object({
+        type: Joi.string()
+          .valid("DAMAGE", "LATE_FEE", "CLEANING")
+          .required()
+          .messages({
+            "any.only": "Charge type must be one of: DAMAGE, LATE_FEE, CLEANING",
+            "any.required": "Charge type is required",
+          }),
+        amount: Joi.number().min(0).required().messages({
+          "number.base": "Charge amount must be a number",
+          "number.min": "Charge amount must be 0 or greater",
+          "any.required": "Charge amount is required",
+        }),
+        description: Joi.string()
+          .trim()
+          .max(500)
+          .allow("", null)
+          .optional()
+          .messages({
+            "string.max": "Charge description must not exceed 500 characters",
+          }),
+        photoUrl: Joi.string().uri().allow("", null).optional().messages({
+          "string.uri": "Charge photo URL must be a valid URL",
+        }),
+      })
+    )
+    .optional()
+    .messages({
+      "array.base": "Charges must be an array",
+    }),
+  applyLateFee: Joi.boolean().optional(),
+  paymentMethod: methodRequiredForAmounts(
+    paymentMethodValidation,
+    "Payment method is required when collecting a payment or refunding a deposit",
+    "paymentAmount",
+    "depositRefundAmount"
+  ),
+  paymentReference: paymentReferenceValidation.optional(),
+});
+
+export const earlyReturnSchema = returnProductSchema.keys({
+  refundAmount: Joi.number().min(0).optional().messages({
+    "number.base": "Refund amount must be a number",
+    "number.min": "Refund amount must be positive or zero",
+  }),
+  refundNote: Joi.string()
+    .trim()
+    .max(500)
+    .optional()
+    .allow("", null)
+    .messages({
+      "string.max": "Refund note must not exceed 500 characters",
+    }),
+  note: Joi.string().trim().max(500).allow("", null).optional().messages({
+    "string.max": "Note must not exceed 500 characters",
+  }),
+  paymentMethod: methodRequiredForAmounts(
+    paymentMethodValidation,
+    "Payment method is required when collecting a payment or making a refund",
+    "paymentAmount",
+    "depositRefundAmount",
+    "refundAmount"
+  ),
+});
+
+export const extendBookingSchema = Joi.object({
+  toDateTime: Joi.date().iso().required().messages({
+    "date.base": "To date time must be a valid date",
+    "date.format": "To date time must be in ISO format",
+    "any.required": "To date time is required",
+  }),
+  perDayRate: Joi.number().min(0).optional().messages({
+    "number.base": "Per-day rate must be a number",
+    "number.min": "Per-day rate must be 0 or greater",
+  }),
+  overrideConflicts: Joi.boolean().optional(),
+  paymentAmount: Joi.number().min(0).optional().messages({
+    "number.min": "Payment amount must be positive or zero",
+  }),
+  paymentMethod: methodRequiredForAmounts(
+    paymentMethodValidation,
+    "Payment method is required when collecting a payment",
+    "paymentAmount"
+  ),
+  paymentReference: paymentReferenceValidation.optional(),
+  paymentNote: Joi.string()
+    .trim()
+    .max(500)
+    .optional()
+    .allow("", null)
+    .messages({
+      "string.max": "Payment note must not exceed 500 characters",
+    }),
+  note: Joi.string().trim().max(500).allow("", null).optional().messages({
+    "string.max": "Note must not exceed 500 characters",
+  }),
+});
+
+export const swapProductSchema = Joi.object({
+  productId: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid product ID format",
+    "any.required": "Product ID is required",
+  }),
+  decidedRent: Joi.number().min(0).optional().messages({
+    "number.base": "Decided rent must be a number",
+    "number.min": "Decided rent must be 0 or greater",
+  }),
+  overrideConflicts: Joi.boolean().optional(),
+  note: Joi.string().trim().max(500).allow("", null).optional().messages({
+    "string.max": "Note must not exceed 500 characters",
+  }),
 });
 
 export const cancelBookingSchema = Joi.object({
@@ -123,6 +281,20 @@ export const cancelBookingSchema = Joi.object({
   refundAmount: Joi.number().min(0).optional().messages({
     "number.min": "Refund amount must be positive or zero",
   }),
+  refundMethod: methodRequiredForAmounts(
+    paymentOrCreditMethodValidation,
+    "Refund method is required when refunding",
+    "refundAmount"
+  ),
+  refundReference: paymentReferenceValidation.optional(),
+  overrideReason: Joi.string()
+    .trim()
+    .max(500)
+    .allow("", null)
+    .optional()
+    .messages({
+      "string.max": "Override reason must not exceed 500 characters",
+    }),
 }).custom((value, helpers) => {
   // If shouldTransfer is true, transfers array must be provided and not empty
   if (value.shouldTransfer === true) {
@@ -149,6 +321,27 @@ export const addPaymentSchema = Joi.object({
     "number.min": "Amount must be 0 or greater",
     "any.required": "Amount is required",
   }),
+  method: paymentOrCreditMethodValidation.required().messages({
+    "any.required": "Payment method is required",
+  }),
+  reference: paymentReferenceValidation.optional(),
+  note: Joi.string().trim().max(500).allow("", null).optional().messages({
+    "string.max": "Note must not exceed 500 characters",
+  }),
+});
+
+export const convertHoldSchema = Joi.object({
+  advanceAmount: Joi.number().min(0).required().messages({
+    "number.base": "Advance amount must be a number",
+    "number.min": "Advance amount must be 0 or greater",
+    "any.required": "Advance amount is required",
+  }),
+  method: methodRequiredForAmounts(
+    paymentMethodValidation,
+    "Payment method is required when collecting an advance",
+    "advanceAmount"
+  ),
+  reference: paymentReferenceValidation.optional(),
   note: Joi.string().trim().max(500).allow("", null).optional().messages({
     "string.max": "Note must not exceed 500 characters",
   }),
@@ -161,12 +354,30 @@ export const getBookingParamsSchema = Joi.object({
   }),
 });
 
+export const paymentReceiptParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid booking ID format",
+    "any.required": "Booking ID is required",
+  }),
+  paymentId: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid payment ID format",
+    "any.required": "Payment ID is required",
+  }),
+});
+
+export const documentFormatQuerySchema = Joi.object({
+  format: Joi.string().valid("json", "pdf").optional().messages({
+    "any.only": "Format must be one of: json, pdf",
+  }),
+});
+
 export const listBookingsQuerySchema = Joi.object({
   status: Joi.string()
-    .valid("BOOKED", "ISSUED", "RETURNED", "CANCELLED")
+    .valid("HELD", "BOOKED", "ISSUED", "RETURNED", "CANCELLED", "OVERDUE")
     .optional()
     .messages({
-      "any.only": "Status must be one of: BOOKED, ISSUED, RETURNED, CANCELLED",
+      "any.only":
+        "Status must be one of: HELD, BOOKED, ISSUED, RETURNED, CANCELLED, OVERDUE",
     }),
   startDate: Joi.date().iso().optional().messages({
     "date.base": "Start date must be a valid date",
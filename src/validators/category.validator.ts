@@ -3,6 +3,20 @@ import mongoose from "mongoose";
 
 const objectIdPattern = /^[0-9a-fA-F]{24}$/;
 
+// HSN codes for goods, SAC codes (starting 99) for services
+const hsnSacCodeValidation = Joi.string()
+  .trim()
+  .pattern(/^[0-9]{4,8}$/)
+  .messages({
+    "string.pattern.base": "HSN/SAC code must be 4 to 8 digits",
+  });
+
+const gstRateValidation = Joi.number().min(0).max(100).messages({
+  "number.base": "GST rate must be a number",
+  "number.min": "GST rate must be 0 or greater",
+  "number.max": "GST rate must not exceed 100",
+});
+
 export const createCategorySchema = Joi.object({
   name: Joi.string().trim().min(1).max(100).required().messages({
     "string.empty": "Category name cannot be empty",
@@ -13,6 +27,13 @@ export const createCategorySchema = Joi.object({
   description: Joi.string().trim().max(500).allow("", null).optional().messages({
     "string.max": "Description must not exceed 500 characters",
   }),
+  turnaroundBufferHours: Joi.number().min(0).max(720).optional().messages({
+    "number.base": "Turnaround buffer must be a number of hours",
+    "number.min": "Turnaround buffer must be 0 or greater",
+    "number.max": "Turnaround buffer must not exceed 720 hours",
+  }),
+  hsnSacCode: hsnSacCodeValidation.allow("").optional(),
+  gstRate: gstRateValidation.optional(),
 });
 
 export const updateCategorySchema = Joi.object({
@@ -24,6 +45,13 @@ export const updateCategorySchema = Joi.object({
   description: Joi.string().trim().max(500).allow("", null).optional().messages({
     "string.max": "Description must not exceed 500 characters",
   }),
+  turnaroundBufferHours: Joi.number().min(0).max(720).optional().messages({
+    "number.base": "Turnaround buffer must be a number of hours",
+    "number.min": "Turnaround buffer must be 0 or greater",
+    "number.max": "Turnaround buffer must not exceed 720 hours",
+  }),
+  hsnSacCode: hsnSacCodeValidation.allow("", null).optional(),
+  gstRate: gstRateValidation.allow(null).optional(),
   isActive: Joi.boolean().optional(),
 });
 
@@ -0,0 +1,91 @@
+import Joi from "joi";
+import {
+  normalizePhoneNumber,
+  isValidPhoneNumberWithCountry,
+} from "../utils/phone";
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+// Phone number is the customer's identity - normalize to E.164
+const customerPhoneValidation = Joi.string()
+  .trim()
+  .custom((value, helpers) => {
+    if (!value) {
+      return value;
+    }
+
+    const normalized = normalizePhoneNumber(value);
+    if (!normalized) {
+      return helpers.error("string.phoneInvalid");
+    }
+
+    if (!isValidPhoneNumberWithCountry(normalized)) {
+      return helpers.error("string.phoneInvalid");
+    }
+
+    return normalized;
+  }, "Phone number validation")
+  .allow("", null)
+  .optional()
+  .messages({
+    "string.base": "Phone must be a string",
+    "string.phoneInvalid":
+      "Phone number must be a valid international format with correct country code (e.g., +91 9876543210)",
+  });
+
+export const createCustomerSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(200).required().messages({
+    "string.empty": "Customer name cannot be empty",
+    "string.min": "Customer name must be at least 1 character",
+    "string.max": "Customer name must not exceed 200 characters",
+    "any.required": "Customer name is required",
+  }),
+  phone: customerPhoneValidation,
+  email: Joi.string().trim().email().allow("", null).optional().messages({
+    "string.email": "Email must be a valid email address",
+  }),
+  notes: Joi.string().trim().max(1000).allow("", null).optional().messages({
+    "string.max": "Notes must not exceed 1000 characters",
+  }),
+});
+
+export const updateCustomerSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(200).optional().messages({
+    "string.empty": "Customer name cannot be empty",
+    "string.min": "Customer name must be at least 1 character",
+    "string.max": "Customer name must not exceed 200 characters",
+  }),
+  phone: customerPhoneValidation,
+  email: Joi.string().trim().email().allow("", null).optional().messages({
+    "string.email": "Email must be a valid email address",
+  }),
+  notes: Joi.string().trim().max(1000).allow("", null).optional().messages({
+    "string.max": "Notes must not exceed 1000 characters",
+  }),
+});
+
+export const getCustomerParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid customer ID format",
+    "any.required": "Customer ID is required",
+  }),
+});
+
+export const listCustomersQuerySchema = Joi.object({
+  search: Joi.string().trim().max(200).optional().allow("").messages({
+    "string.max": "Search query must not exceed 200 characters",
+  }),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});
+
+export const getCustomerBookingsQuerySchema = Joi.object({
+  scope: Joi.string().valid("past", "upcoming", "all").optional().messages({
+    "any.only": "Scope must be one of: past, upcoming, all",
+  }),
+});
+
+export const getStoreCreditQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});
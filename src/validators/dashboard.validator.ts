@@ -14,6 +14,13 @@ export const dashboardBookingsQuerySchema = Joi.object({
   }),
 });
 
+export const dashboardPaymentsQuerySchema = Joi.object({
+  date: Joi.date().iso().optional().messages({
+    "date.base": "Date must be a valid date",
+    "date.format": "Date must be in ISO format",
+  }),
+});
+
 export const dashboardRecentBookingsQuerySchema = Joi.object({
   days: Joi.number().integer().min(1).max(30).optional().messages({
     "number.base": "Days must be a number",
@@ -0,0 +1,76 @@
+import Joi from "joi";
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+const maintenanceStatus = Joi.string()
+  .valid("SCHEDULED", "IN_PROGRESS", "DONE")
+  .messages({
+    "any.only": "Status must be one of: SCHEDULED, IN_PROGRESS, DONE",
+  });
+
+export const createMaintenanceBlockSchema = Joi.object({
+  fromDateTime: Joi.date().iso().required().messages({
+    "date.base": "From date time must be a valid date",
+    "date.format": "From date time must be in ISO format",
+    "any.required": "From date time is required",
+  }),
+  toDateTime: Joi.date()
+    .iso()
+    .greater(Joi.ref("fromDateTime"))
+    .required()
+    .messages({
+      "date.base": "To date time must be a valid date",
+      "date.format": "To date time must be in ISO format",
+      "date.greater": "To date time must be after from date time",
+      "any.required": "To date time is required",
+    }),
+  reason: Joi.string().trim().min(1).max(200).required().messages({
+    "string.empty": "Reason is required",
+    "string.max": "Reason must not exceed 200 characters",
+    "any.required": "Reason is required",
+  }),
+  notes: Joi.string().trim().max(1000).allow("", null).optional().messages({
+    "string.max": "Notes must not exceed 1000 characters",
+  }),
+  status: maintenanceStatus.optional(),
+  overrideConflicts: Joi.boolean().optional(),
+});
+
+export const updateMaintenanceBlockSchema = Joi.object({
+  fromDateTime: Joi.date().iso().optional().messages({
+    "date.base": "From date time must be a valid date",
+    "date.format": "From date time must be in ISO format",
+  }),
+  toDateTime: Joi.date().iso().optional().messages({
+    "date.base": "To date time must be a valid date",
+    "date.format": "To date time must be in ISO format",
+  }),
+  reason: Joi.string().trim().min(1).max(200).optional().messages({
+    "string.empty": "Reason cannot be empty",
+    "string.max": "Reason must not exceed 200 characters",
+  }),
+  notes: Joi.string().trim().max(1000).allow("", null).optional().messages({
+    "string.max": "Notes must not exceed 1000 characters",
+  }),
+  status: maintenanceStatus.optional(),
+  overrideConflicts: Joi.boolean().optional(),
+})
+  .min(1)
+  .messages({
+    "object.min": "At least one field must be provided",
+  });
+
+export const maintenanceBlockParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid product ID format",
+    "any.required": "Product ID is required",
+  }),
+  blockId: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid maintenance block ID format",
+    "any.required": "Maintenance block ID is required",
+  }),
+});
+
+export const listMaintenanceBlocksQuerySchema = Joi.object({
+  status: maintenanceStatus.optional(),
+});
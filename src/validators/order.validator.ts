@@ -3,6 +3,13 @@ import {
   normalizePhoneNumber,
   isValidPhoneNumberWithCountry,
 } from "../utils/phone";
+import { GSTIN_PATTERN } from "../utils/gst";
+import {
+  methodRequiredForAmounts,
+  paymentMethodValidation,
+  paymentOrCreditMethodValidation,
+  paymentReferenceValidation,
+} from "./payment.validator";
 
 const objectIdPattern = /^[0-9a-fA-F]{24}$/;
 
@@ -38,12 +45,25 @@ const customerPhoneValidation = Joi.string()
   });
 
 export const createOrderSchema = Joi.object({
-  customerName: Joi.string().trim().min(1).max(200).required().messages({
-    "string.empty": "Customer name cannot be empty",
-    "string.min": "Customer name must be at least 1 character",
-    "string.max": "Customer name must not exceed 200 characters",
-    "any.required": "Customer name is required",
+  customerId: Joi.string().pattern(objectIdPattern).optional().messages({
+    "string.pattern.base": "Invalid customer ID format",
   }),
+  // Customer name is taken from the customer record when customerId is given
+  customerName: Joi.string()
+    .trim()
+    .min(1)
+    .max(200)
+    .when("customerId", {
+      is: Joi.exist(),
+      then: Joi.optional(),
+      otherwise: Joi.required(),
+    })
+    .messages({
+      "string.empty": "Customer name cannot be empty",
+      "string.min": "Customer name must be at least 1 character",
+      "string.max": "Customer name must not exceed 200 characters",
+      "any.required": "Customer name is required",
+    }),
   customerPhone: customerPhoneValidation,
   bookings: Joi.array()
     .items(
@@ -84,6 +104,12 @@ export const createOrderSchema = Joi.object({
           "number.min": "Advance amount must be 0 or greater",
           "any.required": "Advance amount is required",
         }),
+        advanceMethod: methodRequiredForAmounts(
+          paymentMethodValidation,
+          "Advance method is required when an advance is paid",
+          "advanceAmount"
+        ),
+        advanceReference: paymentReferenceValidation.optional(),
         additionalItemsDescription: Joi.string()
           .trim()
           .max(1000)
@@ -94,6 +120,11 @@ export const createOrderSchema = Joi.object({
               "Additional items description must not exceed 1000 characters",
           }),
         overrideConflicts: Joi.boolean().optional(),
+        holdExpiresAt: Joi.date().iso().greater("now").optional().messages({
+          "date.base": "Hold expiry must be a valid date",
+          "date.format": "Hold expiry must be in ISO format",
+          "date.greater": "Hold expiry must be in the future",
+        }),
       })
     )
     .optional()
@@ -103,12 +134,31 @@ export const createOrderSchema = Joi.object({
 });
 
 export const updateOrderSchema = Joi.object({
+  customerId: Joi.string().pattern(objectIdPattern).optional().messages({
+    "string.pattern.base": "Invalid customer ID format",
+  }),
   customerName: Joi.string().trim().min(1).max(200).optional().messages({
     "string.empty": "Customer name cannot be empty",
     "string.min": "Customer name must be at least 1 character",
     "string.max": "Customer name must not exceed 200 characters",
   }),
   customerPhone: customerPhoneValidation,
+  customerGstin: Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(GSTIN_PATTERN)
+    .allow("", null)
+    .optional()
+    .messages({
+      "string.pattern.base": "Customer GSTIN must be a valid 15-character GSTIN",
+    }),
+  placeOfSupply: Joi.string()
+    .pattern(/^[0-9]{2}$/)
+    .allow("", null)
+    .optional()
+    .messages({
+      "string.pattern.base": "Place of supply must be a 2-digit GST state code",
+    }),
 });
 
 export const addBookingToOrderSchema = Joi.object({
@@ -148,6 +198,12 @@ export const addBookingToOrderSchema = Joi.object({
     "number.min": "Advance amount must be 0 or greater",
     "any.required": "Advance amount is required",
   }),
+  advanceMethod: methodRequiredForAmounts(
+    paymentMethodValidation,
+    "Advance method is required when an advance is paid",
+    "advanceAmount"
+  ),
+  advanceReference: paymentReferenceValidation.optional(),
   additionalItemsDescription: Joi.string()
     .trim()
     .max(1000)
@@ -158,6 +214,11 @@ export const addBookingToOrderSchema = Joi.object({
         "Additional items description must not exceed 1000 characters",
     }),
   overrideConflicts: Joi.boolean().optional(),
+  holdExpiresAt: Joi.date().iso().greater("now").optional().messages({
+    "date.base": "Hold expiry must be a valid date",
+    "date.format": "Hold expiry must be in ISO format",
+    "date.greater": "Hold expiry must be in the future",
+  }),
 });
 
 export const cancelOrderSchema = Joi.object({
@@ -168,6 +229,20 @@ export const cancelOrderSchema = Joi.object({
   refundNote: Joi.string().trim().max(500).allow("", null).optional().messages({
     "string.max": "Refund note must not exceed 500 characters",
   }),
+  refundMethod: methodRequiredForAmounts(
+    paymentOrCreditMethodValidation,
+    "Refund method is required when refunding",
+    "refundAmount"
+  ),
+  refundReference: paymentReferenceValidation.optional(),
+  overrideReason: Joi.string()
+    .trim()
+    .max(500)
+    .allow("", null)
+    .optional()
+    .messages({
+      "string.max": "Override reason must not exceed 500 characters",
+    }),
 });
 
 export const getOrderParamsSchema = Joi.object({
@@ -177,6 +252,97 @@ export const getOrderParamsSchema = Joi.object({
   }),
 });
 
+export const orderBookingParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid order ID format",
+    "any.required": "Order ID is required",
+  }),
+  bookingId: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid booking ID format",
+    "any.required": "Booking ID is required",
+  }),
+});
+
+export const moveBookingSchema = Joi.object({
+  targetOrderId: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid target order ID format",
+    "any.required": "Target order ID is required",
+  }),
+  note: Joi.string().trim().max(500).allow("", null).optional().messages({
+    "string.max": "Note must not exceed 500 characters",
+  }),
+});
+
+export const mergeOrdersSchema = Joi.object({
+  sourceOrderId: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid source order ID format",
+    "any.required": "Source order ID is required",
+  }),
+  note: Joi.string().trim().max(500).allow("", null).optional().messages({
+    "string.max": "Note must not exceed 500 characters",
+  }),
+});
+
+export const orderPaymentSchema = Joi.object({
+  amount: Joi.number().greater(0).required().messages({
+    "number.base": "Amount must be a number",
+    "number.greater": "Amount must be greater than 0",
+    "any.required": "Amount is required",
+  }),
+  strategy: Joi.string()
+    .valid("OLDEST_FIRST", "PROPORTIONAL", "MANUAL")
+    .required()
+    .messages({
+      "any.only":
+        "Strategy must be one of: OLDEST_FIRST, PROPORTIONAL, MANUAL",
+      "any.required": "Strategy is required",
+    }),
+  allocations: Joi.when("strategy", {
+    is: "MANUAL",
+    then: Joi.array()
+      .items(
+        Joi.object({
+          bookingId: Joi.string().pattern(objectIdPattern).required().messages({
+            "string.pattern.base": "Invalid booking ID format",
+            "any.required": "Booking ID is required",
+          }),
+          amount: Joi.number().greater(0).required().messages({
+            "number.base": "Allocation amount must be a number",
+            "number.greater": "Allocation amount must be greater than 0",
+            "any.required": "Allocation amount is required",
+          }),
+        })
+      )
+      .min(1)
+      .required()
+      .messages({
+        "array.min": "At least one allocation is required",
+        "any.required": "Allocations are required for a MANUAL split",
+      }),
+    otherwise: Joi.forbidden().messages({
+      "any.unknown": "Allocations are only allowed for a MANUAL split",
+    }),
+  }),
+  method: paymentOrCreditMethodValidation.required().messages({
+    "any.required": "Payment method is required",
+  }),
+  reference: paymentReferenceValidation.optional(),
+  note: Joi.string().trim().max(500).allow("", null).optional().messages({
+    "string.max": "Note must not exceed 500 characters",
+  }),
+});
+
+export const orderReceiptParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid order ID format",
+    "any.required": "Order ID is required",
+  }),
+  receiptNumber: Joi.string().trim().max(50).required().messages({
+    "string.max": "Invalid receipt number",
+    "any.required": "Receipt number is required",
+  }),
+});
+
 export const listOrdersQuerySchema = Joi.object({
   status: Joi.string()
     .valid(
@@ -203,3 +369,9 @@ export const listOrdersQuerySchema = Joi.object({
     "string.max": "Search query must not exceed 200 characters",
   }),
 });
+
+export const invoiceQuerySchema = Joi.object({
+  format: Joi.string().valid("json", "pdf").optional().messages({
+    "any.only": "Format must be one of: json, pdf",
+  }),
+});
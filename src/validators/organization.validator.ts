@@ -0,0 +1,94 @@
+import Joi from "joi";
+import { PERMISSIONS } from "../config/permissions";
+import { GSTIN_PATTERN } from "../utils/gst";
+
+export const updateOrganizationSettingsSchema = Joi.object({
+  rentalSettings: Joi.object({
+    lateFeePerDay: Joi.number().min(0).optional().messages({
+      "number.base": "Late fee per day must be a number",
+      "number.min": "Late fee per day must be 0 or greater",
+    }),
+    lateFeeGraceHours: Joi.number().min(0).max(168).optional().messages({
+      "number.base": "Late fee grace hours must be a number",
+      "number.min": "Late fee grace hours must be 0 or greater",
+      "number.max": "Late fee grace hours must not exceed 168",
+    }),
+  }).optional(),
+  cancellationPolicy: Joi.object({
+    tiers: Joi.array()
+      .items(
+        Joi.object({
+          minDaysBefore: Joi.number().min(0).max(365).required().messages({
+            "number.base": "Minimum days before must be a number",
+            "number.min": "Minimum days before must be 0 or greater",
+            "number.max": "Minimum days before must not exceed 365",
+            "any.required": "Minimum days before is required",
+          }),
+          refundPercent: Joi.number().min(0).max(100).required().messages({
+            "number.base": "Refund percent must be a number",
+            "number.min": "Refund percent must be between 0 and 100",
+            "number.max": "Refund percent must be between 0 and 100",
+            "any.required": "Refund percent is required",
+          }),
+        })
+      )
+      .unique("minDaysBefore")
+      .max(10)
+      .required()
+      .messages({
+        "array.unique": "Each tier must have a different minimum days before",
+        "array.max": "A cancellation policy can have at most 10 tiers",
+        "any.required": "Cancellation policy tiers are required",
+      }),
+  }).optional(),
+  taxSettings: Joi.object({
+    enabled: Joi.boolean().optional(),
+    gstin: Joi.string()
+      .trim()
+      .uppercase()
+      .pattern(GSTIN_PATTERN)
+      .allow("", null)
+      .optional()
+      .messages({
+        "string.pattern.base": "GSTIN must be a valid 15-character GSTIN",
+      }),
+    stateCode: Joi.string()
+      .pattern(/^[0-9]{2}$/)
+      .allow("", null)
+      .optional()
+      .messages({
+        "string.pattern.base": "State code must be a 2-digit GST state code",
+      }),
+    pricingMode: Joi.string()
+      .valid("EXCLUSIVE", "INCLUSIVE")
+      .optional()
+      .messages({
+        "any.only": "Pricing mode must be one of: EXCLUSIVE, INCLUSIVE",
+      }),
+    defaultRate: Joi.number().min(0).max(100).optional().messages({
+      "number.base": "Default GST rate must be a number",
+      "number.min": "Default GST rate must be 0 or greater",
+      "number.max": "Default GST rate must not exceed 100",
+    }),
+    defaultHsnSacCode: Joi.string()
+      .trim()
+      .pattern(/^[0-9]{4,8}$/)
+      .allow("", null)
+      .optional()
+      .messages({
+        "string.pattern.base": "HSN/SAC code must be 4 to 8 digits",
+      }),
+  }).optional(),
+  staffPermissions: Joi.array()
+    .items(
+      Joi.string()
+        .valid(...PERMISSIONS)
+        .messages({
+          "any.only": `Permission must be one of: ${PERMISSIONS.join(", ")}`,
+        })
+    )
+    .optional()
+    .messages({
+      "array.base": "Staff permissions must be an array",
+    }),
+});
@@ -0,0 +1,44 @@
+import Joi from "joi";
+
+// Methods staff can record; ADJUSTMENT is only written internally
+export const paymentMethodValidation = Joi.string()
+  .valid("CASH", "UPI", "CARD", "BANK_TRANSFER")
+  .messages({
+    "any.only": "Payment method must be one of: CASH, UPI, CARD, BANK_TRANSFER",
+  });
+
+// Where a payment can also spend store credit, or a refund can be kept as credit
+export const paymentOrCreditMethodValidation = Joi.string()
+  .valid("CASH", "UPI", "CARD", "BANK_TRANSFER", "STORE_CREDIT")
+  .messages({
+    "any.only":
+      "Payment method must be one of: CASH, UPI, CARD, BANK_TRANSFER, STORE_CREDIT",
+  });
+
+export const paymentReferenceValidation = Joi.string()
+  .trim()
+  .max(100)
+  .allow("", null)
+  .messages({
+    "string.max": "Payment reference must not exceed 100 characters",
+  });
+
+/**
+ * A method field that becomes required once any of the sibling amount fields is above 0
+ */
+export function methodRequiredForAmounts(
+  method: Joi.StringSchema,
+  message: string,
+  ...amountFields: string[]
+): Joi.StringSchema {
+  return amountFields
+    .reduce(
+      (schema, field) =>
+        schema.when(field, {
+          is: Joi.number().greater(0).required(),
+          then: Joi.required(),
+        }),
+      method.optional()
+    )
+    .messages({ "any.required": message });
+}
@@ -47,6 +47,17 @@ export const createProductSchema = Joi.object({
     "number.min": "Featured order must be 0 or greater",
     "number.integer": "Featured order must be an integer",
   }),
+  // Empty clears the override so the category buffer applies
+  turnaroundBufferHours: Joi.number()
+    .min(0)
+    .max(720)
+    .allow("", null)
+    .optional()
+    .messages({
+      "number.base": "Turnaround buffer must be a number of hours",
+      "number.min": "Turnaround buffer must be 0 or greater",
+      "number.max": "Turnaround buffer must not exceed 720 hours",
+    }),
 });
 
 export const updateProductSchema = Joi.object({
@@ -91,6 +102,17 @@ export const updateProductSchema = Joi.object({
     "number.min": "Featured order must be 0 or greater",
     "number.integer": "Featured order must be an integer",
   }),
+  // Empty clears the override so the category buffer applies
+  turnaroundBufferHours: Joi.number()
+    .min(0)
+    .max(720)
+    .allow("", null)
+    .optional()
+    .messages({
+      "number.base": "Turnaround buffer must be a number of hours",
+      "number.min": "Turnaround buffer must be 0 or greater",
+      "number.max": "Turnaround buffer must not exceed 720 hours",
+    }),
 });
 
 export const getProductParamsSchema = Joi.object({
@@ -104,7 +126,49 @@ export const listProductsQuerySchema = Joi.object({
   search: Joi.string().trim().max(100).optional().messages({
     "string.max": "Search term must not exceed 100 characters",
   }),
-});
+  categoryId: Joi.string().pattern(objectIdPattern).optional().messages({
+    "string.pattern.base": "Invalid category ID format",
+  }),
+  size: Joi.string().trim().max(50).optional().messages({
+    "string.max": "Size must not exceed 50 characters",
+  }),
+  color: Joi.string().trim().max(50).optional().messages({
+    "string.max": "Color must not exceed 50 characters",
+  }),
+  minRent: Joi.number().min(0).optional().messages({
+    "number.base": "Minimum rent must be a number",
+    "number.min": "Minimum rent must be 0 or greater",
+  }),
+  maxRent: Joi.number()
+    .min(0)
+    .when("minRent", {
+      is: Joi.exist(),
+      then: Joi.number().min(Joi.ref("minRent")),
+    })
+    .optional()
+    .messages({
+      "number.base": "Maximum rent must be a number",
+      "number.min": "Maximum rent must be 0 or greater and not less than minimum rent",
+    }),
+  availableFrom: Joi.date().iso().optional().messages({
+    "date.base": "Available from must be a valid date",
+    "date.format": "Available from must be in ISO format",
+  }),
+  availableTo: Joi.date()
+    .iso()
+    .greater(Joi.ref("availableFrom"))
+    .optional()
+    .messages({
+      "date.base": "Available to must be a valid date",
+      "date.format": "Available to must be in ISO format",
+      "date.greater": "Available to must be after available from",
+    }),
+})
+  .and("availableFrom", "availableTo")
+  .messages({
+    "object.and":
+      "Both availableFrom and availableTo are required for an availability search",
+  });
 
 export const getProductBookingsQuerySchema = Joi.object({
   filterDate: Joi.date().iso().optional().messages({
@@ -0,0 +1,111 @@
+import Joi from "joi";
+import {
+  normalizePhoneNumber,
+  isValidPhoneNumberWithCountry,
+} from "../utils/phone";
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+// Storefront calendars can look at most a year ahead in one request
+const MAX_AVAILABILITY_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+
+export const publicProductParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid product ID format",
+    "any.required": "Product ID is required",
+  }),
+});
+
+export const productAvailabilityQuerySchema = Joi.object({
+  month: Joi.string()
+    .pattern(/^\d{4}-(0[1-9]|1[0-2])$/)
+    .optional()
+    .messages({
+      "string.pattern.base": "Month must be in YYYY-MM format",
+    }),
+  from: Joi.date().iso().optional().messages({
+    "date.base": "From must be a valid date",
+    "date.format": "From must be in ISO format",
+  }),
+  to: Joi.date().iso().greater(Joi.ref("from")).optional().messages({
+    "date.base": "To must be a valid date",
+    "date.format": "To must be in ISO format",
+    "date.greater": "To must be after from",
+  }),
+  tzOffset: Joi.number().integer().min(-720).max(840).optional().messages({
+    "number.base": "Timezone offset must be a number of minutes",
+    "number.min": "Timezone offset must be between -720 and 840 minutes",
+    "number.max": "Timezone offset must be between -720 and 840 minutes",
+  }),
+})
+  .xor("month", "from")
+  .and("from", "to")
+  .custom((value, helpers) => {
+    if (
+      value.from &&
+      value.to &&
+      new Date(value.to).getTime() - new Date(value.from).getTime() >
+        MAX_AVAILABILITY_RANGE_MS
+    ) {
+      return helpers.error("any.custom", {
+        message: "Availability range must not exceed 366 days",
+      });
+    }
+    return value;
+  }, "Range validation")
+  .messages({
+    "object.xor": "Provide either month or from/to, not both",
+    "object.missing": "Either month or from/to is required",
+    "object.and": "Both from and to are required",
+    "any.custom": "{{#message}}",
+  });
+
+export const createBookingRequestSchema = Joi.object({
+  productId: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid product ID format",
+    "any.required": "Product ID is required",
+  }),
+  customerName: Joi.string().trim().min(1).max(200).required().messages({
+    "string.empty": "Name cannot be empty",
+    "string.max": "Name must not exceed 200 characters",
+    "any.required": "Name is required",
+  }),
+  customerPhone: Joi.string()
+    .trim()
+    .required()
+    .custom((value, helpers) => {
+      const normalized = normalizePhoneNumber(value);
+      if (!normalized || !isValidPhoneNumberWithCountry(normalized)) {
+        return helpers.error("string.phoneInvalid");
+      }
+      return normalized;
+    }, "Phone number validation")
+    .messages({
+      "any.required": "Phone number is required",
+      "string.empty": "Phone number is required",
+      "string.phoneInvalid":
+        "Phone number must be a valid international format with correct country code (e.g., +91 9876543210)",
+    }),
+  customerEmail: Joi.string().trim().email().allow("", null).optional().messages({
+    "string.email": "Email must be a valid email address",
+  }),
+  fromDateTime: Joi.date().iso().greater("now").required().messages({
+    "date.base": "From date time must be a valid date",
+    "date.format": "From date time must be in ISO format",
+    "date.greater": "From date time must be in the future",
+    "any.required": "From date time is required",
+  }),
+  toDateTime: Joi.date()
+    .iso()
+    .greater(Joi.ref("fromDateTime"))
+    .required()
+    .messages({
+      "date.base": "To date time must be a valid date",
+      "date.format": "To date time must be in ISO format",
+      "date.greater": "To date time must be after from date time",
+      "any.required": "To date time is required",
+    }),
+  message: Joi.string().trim().max(1000).allow("", null).optional().messages({
+    "string.max": "Message must not exceed 1000 characters",
+  }),
+});
@@ -0,0 +1,11 @@
+import Joi from "joi";
+
+export const gstSummaryQuerySchema = Joi.object({
+  month: Joi.string()
+    .pattern(/^[0-9]{4}-(0[1-9]|1[0-2])$/)
+    .required()
+    .messages({
+      "string.pattern.base": "Month must be in YYYY-MM format",
+      "any.required": "Month is required",
+    }),
+});
@@ -0,0 +1,56 @@
+import Joi from "joi";
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+const shiftStatuses = ["OPEN", "CLOSED"];
+
+export const openShiftSchema = Joi.object({
+  openingFloat: Joi.number().min(0).required().messages({
+    "number.base": "Opening float must be a number",
+    "number.min": "Opening float must be 0 or greater",
+    "any.required": "Opening float is required",
+  }),
+  notes: Joi.string().trim().max(500).optional().allow("").messages({
+    "string.max": "Notes must not exceed 500 characters",
+  }),
+});
+
+export const closeShiftSchema = Joi.object({
+  countedCash: Joi.number().min(0).required().messages({
+    "number.base": "Counted cash must be a number",
+    "number.min": "Counted cash must be 0 or greater",
+    "any.required": "Counted cash is required",
+  }),
+  notes: Joi.string().trim().max(500).optional().allow("").messages({
+    "string.max": "Notes must not exceed 500 characters",
+  }),
+});
+
+export const getShiftParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid shift ID format",
+    "any.required": "Shift ID is required",
+  }),
+});
+
+export const shiftReportQuerySchema = Joi.object({
+  userId: Joi.string().pattern(objectIdPattern).optional().messages({
+    "string.pattern.base": "Invalid user ID format",
+  }),
+  status: Joi.string()
+    .valid(...shiftStatuses)
+    .optional()
+    .messages({
+      "any.only": `Status must be one of: ${shiftStatuses.join(", ")}`,
+    }),
+  startDate: Joi.date().iso().optional().messages({
+    "date.base": "Start date must be a valid date",
+    "date.format": "Start date must be in ISO format",
+  }),
+  endDate: Joi.date().iso().optional().messages({
+    "date.base": "End date must be a valid date",
+    "date.format": "End date must be in ISO format",
+  }),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});
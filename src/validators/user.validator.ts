@@ -0,0 +1,99 @@
+import Joi from "joi";
+import {
+  normalizePhoneNumber,
+  isValidPhoneNumberWithCountry,
+} from "../utils/phone";
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+// Staff log in with their phone number, so store it in E.164
+const userPhoneValidation = Joi.string()
+  .trim()
+  .custom((value, helpers) => {
+    if (!value) {
+      return value;
+    }
+
+    const normalized = normalizePhoneNumber(value);
+    if (!normalized || !isValidPhoneNumberWithCountry(normalized)) {
+      return helpers.error("string.phoneInvalid");
+    }
+
+    return normalized;
+  }, "Phone number validation")
+  .allow("", null)
+  .optional()
+  .messages({
+    "string.base": "Phone number must be a string",
+    "string.phoneInvalid":
+      "Phone number must be a valid international format with correct country code (e.g., +91 9876543210)",
+  });
+
+const nameValidation = Joi.string().trim().min(1).max(200).messages({
+  "string.empty": "Name cannot be empty",
+  "string.min": "Name must be at least 1 character",
+  "string.max": "Name must not exceed 200 characters",
+  "any.required": "Name is required",
+});
+
+const emailValidation = Joi.string().trim().email().messages({
+  "string.email": "Email must be a valid email address",
+  "any.required": "Email is required",
+});
+
+const roleValidation = Joi.string().valid("admin", "staff").messages({
+  "any.only": "Role must be one of: admin, staff",
+  "any.required": "Role is required",
+});
+
+const passwordValidation = Joi.string().min(6).max(128).messages({
+  "string.min": "Password must be at least 6 characters",
+  "string.max": "Password must not exceed 128 characters",
+  "any.required": "Password is required",
+});
+
+export const createUserSchema = Joi.object({
+  name: nameValidation.required(),
+  email: emailValidation.required(),
+  phoneNumber: userPhoneValidation,
+  password: passwordValidation.required(),
+  role: roleValidation.default("staff"),
+});
+
+export const inviteUserSchema = Joi.object({
+  name: nameValidation.required(),
+  email: emailValidation.required(),
+  phoneNumber: userPhoneValidation,
+  role: roleValidation.default("staff"),
+});
+
+export const updateUserSchema = Joi.object({
+  name: nameValidation.optional(),
+  email: emailValidation.optional(),
+  phoneNumber: userPhoneValidation,
+});
+
+export const resetPasswordSchema = Joi.object({
+  password: passwordValidation.required(),
+});
+
+export const changeRoleSchema = Joi.object({
+  role: roleValidation.required(),
+});
+
+export const getUserParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid user ID format",
+    "any.required": "User ID is required",
+  }),
+});
+
+export const listUsersQuerySchema = Joi.object({
+  search: Joi.string().trim().max(200).optional().allow("").messages({
+    "string.max": "Search query must not exceed 200 characters",
+  }),
+  role: roleValidation.optional(),
+  isActive: Joi.boolean().optional(),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});
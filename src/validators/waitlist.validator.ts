@@ -0,0 +1,126 @@
+import Joi from "joi";
+import {
+  normalizePhoneNumber,
+  isValidPhoneNumberWithCountry,
+} from "../utils/phone";
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+const waitlistStatuses = [
+  "WAITING",
+  "NOTIFIABLE",
+  "NOTIFIED",
+  "FULFILLED",
+  "CANCELLED",
+];
+
+export const createWaitlistEntrySchema = Joi.object({
+  productId: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid product ID format",
+    "any.required": "Product ID is required",
+  }),
+  fromDateTime: Joi.date().iso().required().messages({
+    "date.base": "From date time must be a valid date",
+    "date.format": "From date time must be in ISO format",
+    "any.required": "From date time is required",
+  }),
+  toDateTime: Joi.date()
+    .iso()
+    .greater(Joi.ref("fromDateTime"))
+    .required()
+    .messages({
+      "date.base": "To date time must be a valid date",
+      "date.format": "To date time must be in ISO format",
+      "date.greater": "To date time must be after from date time",
+      "any.required": "To date time is required",
+    }),
+  customerId: Joi.string().pattern(objectIdPattern).optional().messages({
+    "string.pattern.base": "Invalid customer ID format",
+  }),
+  // Taken from the customer record when customerId is given
+  customerName: Joi.string()
+    .trim()
+    .min(1)
+    .max(200)
+    .when("customerId", {
+      is: Joi.exist(),
+      then: Joi.optional(),
+      otherwise: Joi.required(),
+    })
+    .messages({
+      "string.empty": "Customer name cannot be empty",
+      "string.max": "Customer name must not exceed 200 characters",
+      "any.required": "Customer name is required",
+    }),
+  customerPhone: Joi.string()
+    .trim()
+    .allow("", null)
+    .optional()
+    .custom((value, helpers) => {
+      if (!value) {
+        return value;
+      }
+      const normalized = normalizePhoneNumber(value);
+      if (!normalized || !isValidPhoneNumberWithCountry(normalized)) {
+        return helpers.error("string.phoneInvalid");
+      }
+      return normalized;
+    }, "Phone number validation")
+    .messages({
+      "string.phoneInvalid":
+        "Phone number must be a valid international format with correct country code (e.g., +91 9876543210)",
+    }),
+  customerEmail: Joi.string().trim().email().allow("", null).optional().messages({
+    "string.email": "Email must be a valid email address",
+  }),
+  notes: Joi.string().trim().max(1000).allow("", null).optional().messages({
+    "string.max": "Notes must not exceed 1000 characters",
+  }),
+  priority: Joi.number().integer().min(0).optional().messages({
+    "number.base": "Priority must be a number",
+    "number.integer": "Priority must be an integer",
+    "number.min": "Priority must be 0 or greater",
+  }),
+});
+
+export const updateWaitlistEntrySchema = Joi.object({
+  status: Joi.string()
+    .valid(...waitlistStatuses)
+    .optional()
+    .messages({
+      "any.only": `Status must be one of: ${waitlistStatuses.join(", ")}`,
+    }),
+  notes: Joi.string().trim().max(1000).allow("", null).optional().messages({
+    "string.max": "Notes must not exceed 1000 characters",
+  }),
+  priority: Joi.number().integer().min(0).optional().messages({
+    "number.base": "Priority must be a number",
+    "number.integer": "Priority must be an integer",
+    "number.min": "Priority must be 0 or greater",
+  }),
+})
+  .min(1)
+  .messages({
+    "object.min": "At least one field must be provided",
+  });
+
+export const getWaitlistEntryParamsSchema = Joi.object({
+  id: Joi.string().pattern(objectIdPattern).required().messages({
+    "string.pattern.base": "Invalid waitlist entry ID format",
+    "any.required": "Waitlist entry ID is required",
+  }),
+});
+
+export const listWaitlistQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid(...waitlistStatuses)
+    .optional()
+    .messages({
+      "any.only": `Status must be one of: ${waitlistStatuses.join(", ")}`,
+    }),
+  productId: Joi.string().pattern(objectIdPattern).optional().messages({
+    "string.pattern.base": "Invalid product ID format",
+  }),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});